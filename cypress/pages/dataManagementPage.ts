@@ -16,6 +16,7 @@ class DataManagementPage {
 
   importData(fixturePath) {
     cy.get("[data-test=\"file-upload\"]").selectFile(fixturePath);
+    cy.get("[data-test=\"confirm-import\"]").click();
   }
 
   // New methods for cloud backup functionality
@@ -21,5 +21,13 @@ before(() => {
   cy.disableAllTips()
 })
 
+// Cypress clears localStorage between tests but not IndexedDB, where the history now lives
+beforeEach(() => {
+  cy.wrap(new Promise(resolve => {
+    const request = indexedDB.deleteDatabase('archery-data')
+    request.onsuccess = request.onerror = request.onblocked = () => resolve(null)
+  }))
+})
+
 // Alternatively you can use CommonJS syntax:
 // require('./commands')
@@ -1,13 +1,21 @@
 import { promises as fs } from "fs";
 
 import path from "path";
+import { fileURLToPath } from "url";
+import { rawClassifications } from "./raw_classifications";
+import { classificationTableVersions } from "../src/domain/scoring/classification_table_versions";
 
-async function splitClassifications() {
-  const fileContent = await fs.readFile(path.join(path.__dirname, "../src/domain/raw_classifications.js"), "utf8");
-  const arrayContent = fileContent.match(/\[([\s\S]*)\]/)[0];
-  const rawClassifications = JSON.parse(arrayContent);
+// Usage: npx vite-node scripts/split-classifications.ts <effective from, YYYY-MM-DD> "<name, e.g. AGB 2025>"
+// Writes the tables in raw_classifications.ts as a new version, leaving older versions in place for older shoots
+const scriptDir = path.dirname(fileURLToPath(import.meta.url));
 
-  const baseDir = path.join(path.__dirname, "../public/data/classifications");
+async function splitClassifications(effectiveFrom: string, name: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveFrom ?? "") || !name) {
+    throw new Error("Usage: split-classifications.ts <effective from, YYYY-MM-DD> <name>");
+  }
+
+  const folder = `${effectiveFrom}/`;
+  const baseDir = path.join(scriptDir, "../public/data/classifications", folder);
   await fs.mkdir(baseDir, { recursive: true });
 
   const grouped = rawClassifications.reduce((acc, item) => {
@@ -28,7 +36,28 @@ async function splitClassifications() {
     JSON.stringify(Object.keys(grouped), null, 2)
   );
 
-  console.log("Successfully split classifications into:", baseDir);
+  const versions = [
+    ...classificationTableVersions.filter(version => version.effectiveFrom !== effectiveFrom),
+    { name, effectiveFrom, folder }
+  ].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+  await fs.writeFile(
+    path.join(scriptDir, "../src/domain/scoring/classification_table_versions.ts"),
+    `// Generated by scripts/split-classifications.ts, add new versions by running it rather than by hand
+import type { TableVersion } from "@/domain/scoring/table_versions";
+
+export interface ClassificationTableVersion extends TableVersion {
+  folder: string; // under /data/classifications, empty for the tables from before they were versioned
+}
+
+export const classificationTableVersions: ClassificationTableVersion[] = ${JSON.stringify(versions, null, 2)};
+`
+  );
+
+  console.log(`Successfully split ${name} classifications, in force from ${effectiveFrom}, into:`, baseDir);
 }
 
-splitClassifications().catch(console.error);
\ No newline at end of file
+splitClassifications(process.argv[2], process.argv[3]).catch(error => {
+  console.error(error);
+  process.exit(1);
+});
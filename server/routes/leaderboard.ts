@@ -2,6 +2,7 @@ import express, { Router, Request, Response } from 'express'
 import { ShootRepository } from '../../shared/ports/ShootRepository.js'
 import { ShootService } from '../../shared/ports/ShootService.js'
 import { ShootServiceImpl } from '../../shared/services/ShootServiceImpl.js'
+import { isTieBreakRules } from '../../shared/models/TieBreak.js'
 import { WebSocketManager } from '../services/WebSocketManager.js'
 import { Shoot } from '../../shared/models/Shoot.js'
 
@@ -80,7 +81,7 @@ export function createLeaderboardRouter(dependencies: {
   router.post('/:code/join', async (req: Request, res: Response): Promise<void> => {
     try {
       const { code } = req.params
-      const { archerName, roundName } = req.body
+      const { archerName, roundName, opponentName } = req.body
 
       if (!archerName || !roundName) {
         res.status(400).json({
@@ -90,7 +91,7 @@ export function createLeaderboardRouter(dependencies: {
         return
       }
 
-      const result = await shootService.joinShoot(code, archerName, roundName)
+      const result = await shootService.joinShoot(code, archerName, roundName, opponentName)
 
       if (!result.success) {
         res.status(404).json({
@@ -114,7 +115,7 @@ export function createLeaderboardRouter(dependencies: {
   router.put('/:code/score', async (req: Request, res: Response): Promise<void> => {
     try {
       const { code } = req.params
-      const { archerName, totalScore, roundName, arrowsShot, currentClassification, scores } = req.body
+      const { archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRules } = req.body
 
       if (!archerName || totalScore === undefined || !roundName || arrowsShot === undefined) {
         res.status(400).json({
@@ -142,7 +143,15 @@ export function createLeaderboardRouter(dependencies: {
         return
       }
 
-      const result = await shootService.updateScore(code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores)
+      if (tieBreakRules !== undefined && !isTieBreakRules(tieBreakRules)) {
+        res.status(400).json({
+          success: false,
+          error: 'Tie-break rules must have a gold value and hits, golds or X tie-breakers'
+        })
+        return
+      }
+
+      const result = await shootService.updateScore(code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRules)
 
       if (!result.success) {
         res.status(404).json({
@@ -166,7 +175,7 @@ export function createLeaderboardRouter(dependencies: {
   router.put('/:code/finish', async (req: Request, res: Response): Promise<void> => {
     try {
       const { code } = req.params
-      const { archerName, totalScore, roundName, arrowsShot, currentClassification, scores } = req.body
+      const { archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRules } = req.body
 
       if (!archerName || totalScore === undefined || !roundName || arrowsShot === undefined) {
         res.status(400).json({
@@ -194,7 +203,15 @@ export function createLeaderboardRouter(dependencies: {
         return
       }
 
-      const result = await shootService.finishShoot(code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores)
+      if (tieBreakRules !== undefined && !isTieBreakRules(tieBreakRules)) {
+        res.status(400).json({
+          success: false,
+          error: 'Tie-break rules must have a gold value and hits, golds or X tie-breakers'
+        })
+        return
+      }
+
+      const result = await shootService.finishShoot(code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRules)
 
       if (!result.success) {
         res.status(404).json({
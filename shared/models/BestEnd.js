@@ -4,16 +4,14 @@ import { calculateTotal } from '../../src/domain/scoring/subtotals.js';
 import { convertToValues } from '../../src/domain/scoring/scores.js';
 /**
  * Gets the end size for best end calculation
- * Most rounds use 6 arrows per end, Worcester uses 5
+ * Most rounds use 6 arrows per end, rounds shot on a Worcester face use 5
+ * Rounds without a config (e.g. another archer's custom round) fall back to the round name
  */
-function getEndSizeForBestEnd(roundName) {
-    const lowerRoundName = roundName.toLowerCase();
-    // Worcester rounds use 5 arrows per end
-    if (lowerRoundName.includes('worcester')) {
-        return 5;
-    }
-    // All other rounds use 6 arrows per end for best end calculation
-    return 6;
+function getEndSizeForBestEnd(roundName, config) {
+    const isWorcester = config?.faces
+        ? config.faces.some(face => face.type.startsWith('worcester'))
+        : roundName.toLowerCase().includes('worcester');
+    return isWorcester ? 5 : 6;
 }
 
 /**
@@ -78,11 +76,10 @@ function calculateDistanceInfo(config, totalEnds) {
 /**
  * Finds the best end for a single participant using existing domain functions
  */
-function findBestEndForParticipant(participant) {
+function findBestEndForParticipant(participant, endSize) {
     if (!participant.scores || participant.scores.length === 0) {
         return null;
     }
-    const endSize = getEndSizeForBestEnd(participant.roundName);
     const ends = splitIntoChunks(participant.scores, endSize);
     // Only consider complete ends
     const completeEnds = ends.filter((end) => end.length === endSize);
@@ -108,18 +105,19 @@ function findBestEndForParticipant(participant) {
  * Only includes rounds where at least one participant has completed at least one full end
  *
  * @param shoot - The shoot to analyze
+ * @param getRoundConfig - Function to get round configuration by round name, for the faces each round is shot on
  * @returns Array of best ends, one per round
  */
-export function findBestEnds(shoot) {
+export function findBestEnds(shoot, getRoundConfig = () => null) {
     const groupedParticipants = groupParticipantsByRound(shoot.participants);
     const bestEnds = [];
     for (const [roundName, participants] of Object.entries(groupedParticipants)) {
         let bestEndData = null;
         let bestArcherName = null;
-        const roundEndSize = getEndSizeForBestEnd(roundName);
+        const roundEndSize = getEndSizeForBestEnd(roundName, getRoundConfig(roundName));
         // Find the best end across all participants in this round
         for (const participant of participants) {
-            const participantBestEnd = findBestEndForParticipant(participant);
+            const participantBestEnd = findBestEndForParticipant(participant, roundEndSize);
             if (participantBestEnd &&
                 (!bestEndData || participantBestEnd.totalScore > bestEndData.totalScore)) {
                 bestEndData = participantBestEnd;
@@ -143,14 +141,14 @@ export function findBestEnds(shoot) {
 /**
  * Finds best end for a single round (helper function)
  */
-function findBestEndForRound(roundName, participants) {
+function findBestEndForRound(roundName, participants, roundConfig) {
     let bestEndData = null;
     let bestArcherName = null;
-    const roundEndSize = getEndSizeForBestEnd(roundName);
+    const roundEndSize = getEndSizeForBestEnd(roundName, roundConfig);
     
     // Find the best end across all participants in this round
     for (const participant of participants) {
-        const participantBestEnd = findBestEndForParticipant(participant);
+        const participantBestEnd = findBestEndForParticipant(participant, roundEndSize);
         
         if (participantBestEnd && 
             (!bestEndData || participantBestEnd.totalScore > bestEndData.totalScore)) {
@@ -268,7 +266,7 @@ export function findBestEndsByDistance(shoot, getRoundConfig) {
         const roundConfig = getRoundConfig(roundName);
         if (!roundConfig) {
             // Fallback to original behavior if no config available
-            const legacyBestEnd = findBestEndForRound(roundName, participants);
+            const legacyBestEnd = findBestEndForRound(roundName, participants, roundConfig);
             if (legacyBestEnd) {
                 bestEnds.push(legacyBestEnd);
             }
@@ -282,7 +280,7 @@ export function findBestEndsByDistance(shoot, getRoundConfig) {
         
         if (!isMultiDistance) {
             // Single distance round - use original behavior
-            const legacyBestEnd = findBestEndForRound(roundName, participants);
+            const legacyBestEnd = findBestEndForRound(roundName, participants, roundConfig);
             if (legacyBestEnd) {
                 bestEnds.push(legacyBestEnd);
             }
@@ -219,6 +219,21 @@ describe('findBestEnds', () => {
     });
   });
 
+  test('uses the faces in the round config rather than the round name', () => {
+    const participants = [
+      createParticipant('1', 'Alice', 'club fives', [5, 5, 4, 4, 3, 3], 24),
+    ];
+    const shoot = createShoot(participants);
+    const result = findBestEnds(shoot, () => ({
+      isImperial: true,
+      endSize: 5,
+      faces: [{ size: 40.64, type: 'worcester' }]
+    }));
+
+    expect(result[0].endScores).toEqual([5, 5, 4, 4, 3]);
+    expect(result[0].endSize).toBe(5);
+  });
+
   test('ignores incomplete ends at the end of scores', () => {
     const participants = [
       createParticipant('1', 'Alice', 'WA 70m', [
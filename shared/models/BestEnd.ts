@@ -14,6 +14,8 @@ interface RoundConfig {
   otherDistancesYards?: number[];
   otherDistancesMetres?: number[];
   endSize: number;
+  /** The face shot at each distance, see TargetFace in the app's round config */
+  faces?: { size: number; type: string }[];
 }
 
 /**
@@ -53,18 +55,15 @@ export interface BestEnd {
 
 /**
  * Gets the end size for best end calculation
- * Most rounds use 6 arrows per end, Worcester uses 5
+ * Most rounds use 6 arrows per end, rounds shot on a Worcester face use 5
+ * Rounds without a config (e.g. another archer's custom round) fall back to the round name
  */
-function getEndSizeForBestEnd(roundName: string): number {
-  const lowerRoundName = roundName.toLowerCase();
-  
-  // Worcester rounds use 5 arrows per end
-  if (lowerRoundName.includes('worcester')) {
-    return 5;
-  }
-  
-  // All other rounds use 6 arrows per end for best end calculation
-  return 6;
+function getEndSizeForBestEnd(roundName: string, config?: RoundConfig | null): number {
+  const isWorcester = config?.faces
+    ? config.faces.some(face => face.type.startsWith('worcester'))
+    : roundName.toLowerCase().includes('worcester');
+
+  return isWorcester ? 5 : 6;
 }
 
 /**
@@ -130,12 +129,11 @@ function calculateDistanceInfo(config: RoundConfig, totalEnds: number): Distance
 /**
  * Finds the best end for a single participant using existing domain functions
  */
-function findBestEndForParticipant(participant: ShootParticipant): { endScores: (number | string)[], totalScore: number } | null {
+function findBestEndForParticipant(participant: ShootParticipant, endSize: number): { endScores: (number | string)[], totalScore: number } | null {
   if (!participant.scores || participant.scores.length === 0) {
     return null;
   }
   
-  const endSize = getEndSizeForBestEnd(participant.roundName);
   const ends = splitIntoChunks(participant.scores, endSize);
   
   // Only consider complete ends
@@ -167,20 +165,24 @@ function findBestEndForParticipant(participant: ShootParticipant): { endScores:
  * Only includes rounds where at least one participant has completed at least one full end
  * 
  * @param shoot - The shoot to analyze
+ * @param getRoundConfig - Function to get round configuration by round name, for the faces each round is shot on
  * @returns Array of best ends, one per round
  */
-export function findBestEnds(shoot: Shoot): BestEnd[] {
+export function findBestEnds(
+  shoot: Shoot,
+  getRoundConfig: (roundName: string) => RoundConfig | null = () => null
+): BestEnd[] {
   const groupedParticipants = groupParticipantsByRound(shoot.participants);
   const bestEnds: BestEnd[] = [];
   
   for (const [roundName, participants] of Object.entries(groupedParticipants)) {
     let bestEndData: { endScores: (number | string)[], totalScore: number } | null = null;
     let bestArcherName: string | null = null;
-    const roundEndSize: number = getEndSizeForBestEnd(roundName);
+    const roundEndSize: number = getEndSizeForBestEnd(roundName, getRoundConfig(roundName));
     
     // Find the best end across all participants in this round
     for (const participant of participants as ShootParticipant[]) {
-      const participantBestEnd = findBestEndForParticipant(participant);
+      const participantBestEnd = findBestEndForParticipant(participant, roundEndSize);
       
       if (participantBestEnd && 
           (!bestEndData || participantBestEnd.totalScore > bestEndData.totalScore)) {
@@ -224,7 +226,7 @@ export function findBestEndsByDistance(
     const roundConfig = getRoundConfig(roundName);
     if (!roundConfig) {
       // Fallback to original behavior if no config available
-      const legacyBestEnd = findBestEndForRound(roundName, participants as ShootParticipant[]);
+      const legacyBestEnd = findBestEndForRound(roundName, participants as ShootParticipant[], roundConfig);
       if (legacyBestEnd) {
         bestEnds.push(legacyBestEnd);
       }
@@ -238,7 +240,7 @@ export function findBestEndsByDistance(
     
     if (!isMultiDistance) {
       // Single distance round - use original behavior
-      const legacyBestEnd = findBestEndForRound(roundName, participants as ShootParticipant[]);
+      const legacyBestEnd = findBestEndForRound(roundName, participants as ShootParticipant[], roundConfig);
       if (legacyBestEnd) {
         bestEnds.push(legacyBestEnd);
       }
@@ -256,14 +258,14 @@ export function findBestEndsByDistance(
 /**
  * Finds best end for a single round (helper function)
  */
-function findBestEndForRound(roundName: string, participants: ShootParticipant[]): BestEnd | null {
+function findBestEndForRound(roundName: string, participants: ShootParticipant[], roundConfig: RoundConfig | null): BestEnd | null {
   let bestEndData: { endScores: (number | string)[], totalScore: number } | null = null;
   let bestArcherName: string | null = null;
-  const roundEndSize: number = getEndSizeForBestEnd(roundName);
+  const roundEndSize: number = getEndSizeForBestEnd(roundName, roundConfig);
   
   // Find the best end across all participants in this round
   for (const participant of participants) {
-    const participantBestEnd = findBestEndForParticipant(participant);
+    const participantBestEnd = findBestEndForParticipant(participant, roundEndSize);
     
     if (participantBestEnd && 
         (!bestEndData || participantBestEnd.totalScore > bestEndData.totalScore)) {
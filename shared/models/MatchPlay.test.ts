@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'vitest';
+import { calculateMatchResult } from './MatchPlay.js';
+
+describe('calculateMatchResult', () => {
+  test('awards 2 set points for a won set and 1 each for a tied set', () => {
+    const result = calculateMatchResult([
+      [10, 9, 9, 8, 8, 8],
+      [9, 9, 9, 10, 8, 6]
+    ]);
+
+    expect(result.sets).toEqual([
+      { totals: [28, 27], points: [2, 0] },
+      { totals: [24, 24], points: [1, 1] }
+    ]);
+    expect(result.setPoints).toEqual([3, 1]);
+    expect(result.finished).toBe(false);
+  });
+
+  test('only scores a set once both archers have shot it', () => {
+    const result = calculateMatchResult([[10, 10, 10], [9, 9]]);
+
+    expect(result.sets).toEqual([]);
+    expect(result.setPoints).toEqual([0, 0]);
+  });
+
+  test('ends the match as soon as an archer reaches 6 set points', () => {
+    const result = calculateMatchResult([
+      ['X', 10, 10, 10, 10, 10, 10, 10, 10, 1, 1, 1],
+      [9, 9, 9, 9, 9, 9, 9, 9, 9, 10, 10, 10]
+    ]);
+
+    expect(result.setPoints).toEqual([6, 0]);
+    expect(result.sets).toHaveLength(3);
+    expect(result.finished).toBe(true);
+    expect(result.winner).toBe(0);
+  });
+
+  describe('shoot-off', () => {
+    const decidedInFifthSet: [(number | string)[], (number | string)[]] = [
+      [10, 10, 10, 9, 9, 9, 8, 8, 8, 9, 9, 9, 'M', 'M', 'M'],
+      [9, 9, 9, 10, 10, 10, 8, 8, 8, 9, 9, 9, 1, 1, 1]
+    ];
+
+    test('is not needed when the fifth set decides the match', () => {
+      const result = calculateMatchResult(decidedInFifthSet);
+
+      expect(result).toMatchObject({ setPoints: [4, 6], needsShootOff: false, winner: 1 });
+    });
+
+    test('goes to the higher arrow', () => {
+      const tied: [(number | string)[], (number | string)[]] = [
+        [10, 10, 10, 9, 9, 9, 8, 8, 8, 9, 9, 9, 7, 7, 7],
+        [9, 9, 9, 10, 10, 10, 8, 8, 8, 9, 9, 9, 7, 7, 7]
+      ];
+
+      const waiting = calculateMatchResult(tied);
+      expect(waiting).toMatchObject({ setPoints: [5, 5], needsShootOff: true, finished: false });
+
+      const decided = calculateMatchResult(tied, { arrows: [9, 'X'] });
+      expect(decided).toMatchObject({ setPoints: [5, 6], needsShootOff: true, finished: true, winner: 1 });
+    });
+
+    test('goes to the arrow closest to the centre when both score the same', () => {
+      const tied: [(number | string)[], (number | string)[]] = [
+        [10, 10, 10, 9, 9, 9, 8, 8, 8, 9, 9, 9, 7, 7, 7],
+        [9, 9, 9, 10, 10, 10, 8, 8, 8, 9, 9, 9, 7, 7, 7]
+      ];
+
+      expect(calculateMatchResult(tied, { arrows: [9, 9] }).finished).toBe(false);
+      expect(calculateMatchResult(tied, { arrows: [9, 9], closestToCentre: 0 })).toMatchObject({
+        setPoints: [6, 5],
+        winner: 0
+      });
+    });
+  });
+});
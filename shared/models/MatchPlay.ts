@@ -0,0 +1,104 @@
+/**
+ * World Archery set system for head to head matches.
+ * Each set is three arrows per archer, the higher set total takes 2 set points, a tie shares them 1-1.
+ * First to 6 set points wins; 5-5 after five sets goes to a single arrow shoot-off.
+ */
+
+export const ARROWS_PER_SET = 3;
+export const MAX_SETS = 5;
+export const SET_POINTS_TO_WIN = 6;
+
+export type MatchArcher = 0 | 1;
+
+/**
+ * A single arrow shoot-off. When both arrows score the same the arrow closest to the centre wins.
+ */
+export interface ShootOff {
+  /** The shoot-off arrow for each archer */
+  arrows: [(number | string)?, (number | string)?];
+
+  /** Which archer's arrow was closest to the centre, only needed when the arrows score the same */
+  closestToCentre?: MatchArcher;
+}
+
+export interface SetResult {
+  totals: [number, number];
+  points: [number, number];
+}
+
+export interface MatchResult {
+  sets: SetResult[];
+  setPoints: [number, number];
+  needsShootOff: boolean;
+  finished: boolean;
+  winner?: MatchArcher;
+}
+
+function arrowValue(score: number | string | undefined): number {
+  if (score === "X") return 10;
+  if (score === "M" || score === undefined) return 0;
+  return Number(score);
+}
+
+function setTotal(scores: (number | string)[], setIndex: number): number {
+  return scores
+    .slice(setIndex * ARROWS_PER_SET, (setIndex + 1) * ARROWS_PER_SET)
+    .reduce<number>((total, score) => total + arrowValue(score), 0);
+}
+
+function shootOffWinner(shootOff?: ShootOff): MatchArcher | undefined {
+  if (!shootOff || shootOff.arrows[0] === undefined || shootOff.arrows[1] === undefined) {
+    return undefined;
+  }
+
+  const first = arrowValue(shootOff.arrows[0]);
+  const second = arrowValue(shootOff.arrows[1]);
+  if (first !== second) {
+    return first > second ? 0 : 1;
+  }
+  return shootOff.closestToCentre;
+}
+
+/**
+ * Works out the state of a match from each archer's arrows, in the order they were shot
+ * @param scores The arrows for each archer
+ * @param shootOff The shoot-off, if one has been shot
+ */
+export function calculateMatchResult(scores: [(number | string)[], (number | string)[]], shootOff?: ShootOff): MatchResult {
+  const sets: SetResult[] = [];
+  const setPoints: [number, number] = [0, 0];
+
+  // a set only counts once both archers have shot all three arrows
+  const completedSets = Math.min(
+    Math.floor(scores[0].length / ARROWS_PER_SET),
+    Math.floor(scores[1].length / ARROWS_PER_SET),
+    MAX_SETS
+  );
+
+  for (let setIndex = 0; setIndex < completedSets; setIndex++) {
+    if (setPoints[0] >= SET_POINTS_TO_WIN || setPoints[1] >= SET_POINTS_TO_WIN) {
+      break;
+    }
+
+    const totals: [number, number] = [setTotal(scores[0], setIndex), setTotal(scores[1], setIndex)];
+    let points: [number, number] = [1, 1];
+    if (totals[0] > totals[1]) points = [2, 0];
+    if (totals[1] > totals[0]) points = [0, 2];
+
+    sets.push({ totals, points });
+    setPoints[0] += points[0];
+    setPoints[1] += points[1];
+  }
+
+  if (setPoints[0] >= SET_POINTS_TO_WIN || setPoints[1] >= SET_POINTS_TO_WIN) {
+    return { sets, setPoints, needsShootOff: false, finished: true, winner: setPoints[0] > setPoints[1] ? 0 : 1 };
+  }
+
+  const needsShootOff = sets.length === MAX_SETS;
+  const winner = needsShootOff ? shootOffWinner(shootOff) : undefined;
+  if (winner !== undefined) {
+    setPoints[winner] += 1;
+  }
+
+  return { sets, setPoints, needsShootOff, finished: winner !== undefined, winner };
+}
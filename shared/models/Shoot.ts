@@ -1,3 +1,5 @@
+import type { TieBreakRules } from './TieBreak.js';
+
 /**
  * Represents a shared shooting session that multiple archers can join
  */
@@ -63,6 +65,15 @@ export interface ShootParticipant {
 
   /** Current position in the leaderboard */
   currentPosition?: number;
+
+  /** The archer this participant is shooting a head to head match against */
+  opponentName?: string;
+
+  /** Set points in a head to head match, kept up to date from both archers' scores */
+  setPoints?: number;
+
+  /** Tie-break rules of their round, sent by their app as the server doesn't know the rounds */
+  tieBreakRules?: TieBreakRules;
 }
 
 /**
@@ -0,0 +1,97 @@
+import { convertToValue } from '../utils/scores.js';
+const IMPERIAL_RULES = { goldValue: 9, tieBreakers: ['hits', 'golds'] };
+const METRIC_RULES = { goldValue: 10, tieBreakers: ['golds', 'X'] };
+/**
+ * AGB imperial faces split ties on hits then golds, ten zone faces (WA rules) on 10s then Xs
+ * @param faceScores the valid scores for the round, e.g. [9, 7, 5, 3, 1, "M"]
+ */
+export function tieBreakRulesForFace(faceScores) {
+    const goldValue = Math.max(...faceScores.filter((score) => typeof score === 'number'));
+    const tieBreakers = goldValue === 10 || faceScores.includes('X')
+        ? ['golds', 'X']
+        : ['hits', 'golds'];
+    return { goldValue, tieBreakers };
+}
+/**
+ * Whether rules sent by an app are ones this code can rank with
+ */
+export function isTieBreakRules(value) {
+    const rules = value;
+    return typeof rules?.goldValue === 'number'
+        && Array.isArray(rules.tieBreakers)
+        && rules.tieBreakers.every(tieBreaker => tieBreaker === 'hits' || tieBreaker === 'golds' || tieBreaker === 'X');
+}
+/**
+ * Works out the rules when the round's configuration isn't available, from its name and the arrows shot on it.
+ * Only a ten zone face gives even scores or Xs.
+ */
+export function inferTieBreakRules(roundName, arrows) {
+    const name = roundName.toLowerCase();
+    if (name.includes('field')) {
+        return { goldValue: 6, tieBreakers: ['golds', 'X'] };
+    }
+    if (name.includes('worcester') || name.includes('clout')) {
+        return { goldValue: 5, tieBreakers: ['hits', 'golds'] };
+    }
+    const tenZone = arrows.some(arrow => arrow === 'X' || (typeof arrow === 'number' && arrow > 0 && arrow % 2 === 0));
+    return tenZone ? METRIC_RULES : IMPERIAL_RULES;
+}
+export function countTieBreakers(arrows, rules, roundName) {
+    return arrows.reduce((counts, arrow) => {
+        const value = convertToValue(arrow, roundName);
+        return {
+            hits: counts.hits + (value > 0 ? 1 : 0),
+            golds: counts.golds + (value >= rules.goldValue ? 1 : 0),
+            X: counts.X + (arrow === 'X' ? 1 : 0)
+        };
+    }, { hits: 0, golds: 0, X: 0 });
+}
+/**
+ * The score followed by each tie-breaker count, so two results can be compared position by position
+ */
+export function tieBreakKey(total, arrows, rules, roundName) {
+    const counts = countTieBreakers(arrows, rules, roundName);
+    return [total, ...rules.tieBreakers.map(tieBreaker => counts[tieBreaker])];
+}
+/**
+ * Sorts keys highest first
+ */
+export function compareTieBreakKeys(a, b) {
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        const difference = (b[i] ?? 0) - (a[i] ?? 0);
+        if (difference !== 0) {
+            return difference;
+        }
+    }
+    return 0;
+}
+/**
+ * Orders participants by score, splitting ties on the same round with that round's tie-breakers.
+ * Archers still level after every tie-breaker share a position.
+ * The rules an archer's app sent with their scores come first, so every device ranks the same way.
+ * @param rulesFor Rules for a round no app sent rules for, given the arrows everyone has shot on it
+ */
+export function rankParticipants(participants, rulesFor = inferTieBreakRules) {
+    const rulesByRound = new Map();
+    for (const roundName of new Set(participants.map(p => p.roundName))) {
+        const onRound = participants.filter(p => p.roundName === roundName);
+        const sentRules = onRound.find(p => p.tieBreakRules)?.tieBreakRules;
+        rulesByRound.set(roundName, sentRules ?? rulesFor(roundName, onRound.flatMap(p => p.scores ?? [])));
+    }
+    const keyFor = (participant, rules) => rules
+        ? tieBreakKey(participant.totalScore, participant.scores ?? [], rules, participant.roundName)
+        : [participant.totalScore];
+    // Tie-breakers only mean something between archers shooting the same round
+    const compare = (a, b) => {
+        const rules = a.roundName === b.roundName ? rulesByRound.get(a.roundName) : undefined;
+        return compareTieBreakKeys(keyFor(a, rules), keyFor(b, rules));
+    };
+    const sorted = [...participants].sort(compare);
+    const ranked = [];
+    sorted.forEach((participant, index) => {
+        const previous = ranked[index - 1];
+        const position = previous && compare(previous.participant, participant) === 0 ? previous.position : index + 1;
+        ranked.push({ participant, position });
+    });
+    return ranked;
+}
@@ -0,0 +1,104 @@
+import { describe, test, expect } from 'vitest';
+import {
+  compareTieBreakKeys,
+  countTieBreakers,
+  inferTieBreakRules,
+  isTieBreakRules,
+  rankParticipants,
+  tieBreakKey,
+  TieBreakRules,
+  tieBreakRulesForFace
+} from './TieBreak.js';
+import { ShootParticipant } from './Shoot.js';
+
+function participant(archerName: string, roundName: string, scores: (number | string)[]): ShootParticipant {
+  const totalScore = scores.reduce<number>((total, score) => total + (typeof score === 'number' ? score : score === 'X' ? 10 : 0), 0);
+  return { id: archerName, archerName, roundName, totalScore, arrowsShot: scores.length, finished: false, scores, lastUpdated: new Date() };
+}
+
+describe('tieBreakRulesForFace', () => {
+  test('uses hits then golds on an imperial face', () => {
+    expect(tieBreakRulesForFace([9, 7, 5, 3, 1, 'M'])).toEqual({ goldValue: 9, tieBreakers: ['hits', 'golds'] });
+    expect(tieBreakRulesForFace([5, 4, 3, 2, 1, 'M'])).toEqual({ goldValue: 5, tieBreakers: ['hits', 'golds'] });
+  });
+
+  test('uses 10s then Xs on a ten zone face', () => {
+    expect(tieBreakRulesForFace(['X', 10, 9, 8, 7, 6, 5, 4, 3, 2, 1, 'M'])).toEqual({ goldValue: 10, tieBreakers: ['golds', 'X'] });
+    expect(tieBreakRulesForFace([10, 9, 8, 7, 6, 5, 4, 3, 2, 1, 'M'])).toEqual({ goldValue: 10, tieBreakers: ['golds', 'X'] });
+  });
+});
+
+describe('inferTieBreakRules', () => {
+  test('recognises a ten zone face from the arrows shot', () => {
+    expect(inferTieBreakRules('wa 720 (70m)', [9, 9, 8]).tieBreakers).toEqual(['golds', 'X']);
+    expect(inferTieBreakRules('Windsor', [9, 7, 7]).tieBreakers).toEqual(['hits', 'golds']);
+    expect(inferTieBreakRules('worcester', [5, 4]).goldValue).toBe(5);
+  });
+});
+
+describe('isTieBreakRules', () => {
+  test('accepts the rules an app sends and nothing else', () => {
+    expect(isTieBreakRules({ goldValue: 10, tieBreakers: ['golds', 'X'] })).toBe(true);
+    expect(isTieBreakRules({ goldValue: '10', tieBreakers: ['golds'] })).toBe(false);
+    expect(isTieBreakRules({ goldValue: 10, tieBreakers: ['inners'] })).toBe(false);
+    expect(isTieBreakRules(null)).toBe(false);
+  });
+});
+
+describe('countTieBreakers', () => {
+  test('counts Xs as golds', () => {
+    const rules = tieBreakRulesForFace(['X', 10, 9, 8, 'M']);
+
+    expect(countTieBreakers(['X', 10, 9, 'M'], rules)).toEqual({ hits: 3, golds: 2, X: 1 });
+  });
+});
+
+describe('compareTieBreakKeys', () => {
+  test('sorts by score then each tie-breaker in turn', () => {
+    const rules = tieBreakRulesForFace([9, 7, 5, 3, 1, 'M']);
+    const fewerHits = tieBreakKey(27, [9, 9, 9], rules);
+    const moreHits = tieBreakKey(27, [9, 7, 5, 3, 3], rules);
+
+    expect([fewerHits, moreHits].sort(compareTieBreakKeys)).toEqual([moreHits, fewerHits]);
+    expect(compareTieBreakKeys(fewerHits, tieBreakKey(27, [9, 9, 9], rules))).toBe(0);
+  });
+});
+
+describe('rankParticipants', () => {
+  test('shares a position when archers are level after every tie-breaker', () => {
+    const ranked = rankParticipants([
+      participant('Archer 1', 'wa 18m', [10, 10, 8]),
+      participant('Archer 2', 'wa 18m', ['X', 10, 8]),
+      participant('Archer 3', 'wa 18m', [10, 10, 8]),
+      participant('Archer 4', 'wa 18m', [10, 9, 9])
+    ]);
+
+    expect(ranked.map(({ participant, position }) => [participant.archerName, position])).toEqual([
+      ['Archer 2', 1],
+      ['Archer 1', 2],
+      ['Archer 3', 2],
+      ['Archer 4', 4]
+    ]);
+  });
+
+  test('only compares tie-breakers between archers on the same round', () => {
+    const ranked = rankParticipants([
+      participant('Archer 1', 'windsor', [9, 9, 9]),
+      participant('Archer 2', 'wa 18m', [9, 9, 9])
+    ]);
+
+    expect(ranked.map(({ position }) => position)).toEqual([1, 1]);
+  });
+
+  test('uses the rules sent with the scores rather than guessing from the arrows', () => {
+    // No 10s or Xs yet, so from the arrows alone this looks like an imperial round split on golds
+    const first = participant('Archer 1', 'wa 18m', [9, 9, 1]);
+    const second = participant('Archer 2', 'wa 18m', [9, 5, 5]);
+    expect(rankParticipants([first, second]).map(({ position }) => position)).toEqual([1, 2]);
+
+    const metric: TieBreakRules = { goldValue: 10, tieBreakers: ['golds', 'X'] };
+    const ranked = rankParticipants([{ ...first, tieBreakRules: metric }, second]);
+
+    expect(ranked.map(({ position }) => position)).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,134 @@
+import { ShootParticipant } from './Shoot.js';
+import { convertToValue } from '../utils/scores.js';
+
+/**
+ * Counts used to split equal scores, in the order a round's rules apply them
+ */
+export type TieBreaker = 'hits' | 'golds' | 'X';
+
+export interface TieBreakRules {
+  /** Value of the innermost scoring ring, 9 on an imperial face, 10 on a metric face */
+  goldValue: number;
+  tieBreakers: TieBreaker[];
+}
+
+export interface TieBreakCounts {
+  hits: number;
+  golds: number;
+  X: number;
+}
+
+export interface RankedParticipant {
+  participant: ShootParticipant;
+  position: number;
+}
+
+const IMPERIAL_RULES: TieBreakRules = { goldValue: 9, tieBreakers: ['hits', 'golds'] };
+const METRIC_RULES: TieBreakRules = { goldValue: 10, tieBreakers: ['golds', 'X'] };
+
+/**
+ * AGB imperial faces split ties on hits then golds, ten zone faces (WA rules) on 10s then Xs
+ * @param faceScores the valid scores for the round, e.g. [9, 7, 5, 3, 1, "M"]
+ */
+export function tieBreakRulesForFace(faceScores: (number | string)[]): TieBreakRules {
+  const goldValue = Math.max(...faceScores.filter((score): score is number => typeof score === 'number'));
+  const tieBreakers: TieBreaker[] = goldValue === 10 || faceScores.includes('X')
+    ? ['golds', 'X']
+    : ['hits', 'golds'];
+  return { goldValue, tieBreakers };
+}
+
+/**
+ * Whether rules sent by an app are ones this code can rank with
+ */
+export function isTieBreakRules(value: unknown): value is TieBreakRules {
+  const rules = value as TieBreakRules;
+  return typeof rules?.goldValue === 'number'
+    && Array.isArray(rules.tieBreakers)
+    && rules.tieBreakers.every(tieBreaker => tieBreaker === 'hits' || tieBreaker === 'golds' || tieBreaker === 'X');
+}
+
+/**
+ * Works out the rules when the round's configuration isn't available, from its name and the arrows shot on it.
+ * Only a ten zone face gives even scores or Xs.
+ */
+export function inferTieBreakRules(roundName: string, arrows: (number | string)[]): TieBreakRules {
+  const name = roundName.toLowerCase();
+  if (name.includes('field')) {
+    return { goldValue: 6, tieBreakers: ['golds', 'X'] };
+  }
+  if (name.includes('worcester') || name.includes('clout')) {
+    return { goldValue: 5, tieBreakers: ['hits', 'golds'] };
+  }
+  const tenZone = arrows.some(arrow => arrow === 'X' || (typeof arrow === 'number' && arrow > 0 && arrow % 2 === 0));
+  return tenZone ? METRIC_RULES : IMPERIAL_RULES;
+}
+
+export function countTieBreakers(arrows: (number | string)[], rules: TieBreakRules, roundName?: string): TieBreakCounts {
+  return arrows.reduce<TieBreakCounts>((counts, arrow) => {
+    const value = convertToValue(arrow, roundName);
+    return {
+      hits: counts.hits + (value > 0 ? 1 : 0),
+      golds: counts.golds + (value >= rules.goldValue ? 1 : 0),
+      X: counts.X + (arrow === 'X' ? 1 : 0)
+    };
+  }, { hits: 0, golds: 0, X: 0 });
+}
+
+/**
+ * The score followed by each tie-breaker count, so two results can be compared position by position
+ */
+export function tieBreakKey(total: number, arrows: (number | string)[], rules: TieBreakRules, roundName?: string): number[] {
+  const counts = countTieBreakers(arrows, rules, roundName);
+  return [total, ...rules.tieBreakers.map(tieBreaker => counts[tieBreaker])];
+}
+
+/**
+ * Sorts keys highest first
+ */
+export function compareTieBreakKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (b[i] ?? 0) - (a[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Orders participants by score, splitting ties on the same round with that round's tie-breakers.
+ * Archers still level after every tie-breaker share a position.
+ * The rules an archer's app sent with their scores come first, so every device ranks the same way.
+ * @param rulesFor Rules for a round no app sent rules for, given the arrows everyone has shot on it
+ */
+export function rankParticipants(
+  participants: ShootParticipant[],
+  rulesFor: (roundName: string, arrows: (number | string)[]) => TieBreakRules = inferTieBreakRules
+): RankedParticipant[] {
+  const rulesByRound = new Map<string, TieBreakRules>();
+  for (const roundName of new Set(participants.map(p => p.roundName))) {
+    const onRound = participants.filter(p => p.roundName === roundName);
+    const sentRules = onRound.find(p => p.tieBreakRules)?.tieBreakRules;
+    rulesByRound.set(roundName, sentRules ?? rulesFor(roundName, onRound.flatMap(p => p.scores ?? [])));
+  }
+
+  const keyFor = (participant: ShootParticipant, rules?: TieBreakRules) => rules
+    ? tieBreakKey(participant.totalScore, participant.scores ?? [], rules, participant.roundName)
+    : [participant.totalScore];
+
+  // Tie-breakers only mean something between archers shooting the same round
+  const compare = (a: ShootParticipant, b: ShootParticipant) => {
+    const rules = a.roundName === b.roundName ? rulesByRound.get(a.roundName) : undefined;
+    return compareTieBreakKeys(keyFor(a, rules), keyFor(b, rules));
+  };
+
+  const sorted = [...participants].sort(compare);
+  const ranked: RankedParticipant[] = [];
+  sorted.forEach((participant, index) => {
+    const previous = ranked[index - 1];
+    const position = previous && compare(previous.participant, participant) === 0 ? previous.position : index + 1;
+    ranked.push({ participant, position });
+  });
+  return ranked;
+}
@@ -1,4 +1,5 @@
 import { Shoot, ShootParticipant } from '../models/Shoot.js';
+import { TieBreakRules } from '../models/TieBreak.js';
 
 /**
  * Service interface for managing shoots
@@ -17,9 +18,10 @@ export interface ShootService {
    * @param code The 4-digit code of the shoot to join
    * @param archerName Name of the archer joining the shoot
    * @param roundName Name of the round the archer is shooting
+   * @param opponentName Name of the archer they are shooting a head to head match against, if any
    * @returns Promise with success status and shoot details
    */
-  joinShoot(code: string, archerName: string, roundName: string): Promise<{ success: boolean; shoot?: Shoot }>;
+  joinShoot(code: string, archerName: string, roundName: string, opponentName?: string): Promise<{ success: boolean; shoot?: Shoot }>;
 
   /**
    * Updates an archer's score in a shoot
@@ -30,9 +32,10 @@ export interface ShootService {
    * @param arrowsShot Number of arrows shot so far
    * @param currentClassification Current classification based on score
    * @param scores Individual arrow scores for viewing scorecard
+   * @param tieBreakRules How the archer's app splits ties on their round, the server can't tell from its name
    * @returns Promise with success status and updated shoot details
    */
-  updateScore(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[]): Promise<{ success: boolean; shoot?: Shoot }>;
+  updateScore(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[], tieBreakRules?: TieBreakRules): Promise<{ success: boolean; shoot?: Shoot }>;
 
   /**
    * Marks an archer as finished with their round and locks their final score
@@ -43,9 +46,10 @@ export interface ShootService {
    * @param arrowsShot Total number of arrows shot
    * @param currentClassification Final classification based on score
    * @param scores Individual arrow scores for viewing scorecard
+   * @param tieBreakRules How the archer's app splits ties on their round, the server can't tell from its name
    * @returns Promise with success status and updated shoot details
    */
-  finishShoot(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[]): Promise<{ success: boolean; shoot?: Shoot }>;
+  finishShoot(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[], tieBreakRules?: TieBreakRules): Promise<{ success: boolean; shoot?: Shoot }>;
 
   /**
    * Removes an archer from a shoot
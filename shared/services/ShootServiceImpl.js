@@ -1,4 +1,6 @@
 import { NotificationType } from '../ports/ShootNotificationService.js';
+import { calculateMatchResult } from '../models/MatchPlay.js';
+import { rankParticipants } from '../models/TieBreak.js';
 /**
  * Implementation of the ShootService that uses a repository for persistence
  */
@@ -32,10 +34,8 @@ export class ShootServiceImpl {
         // Set expiration to end of current day
         const expiresAt = new Date(now);
         expiresAt.setHours(23, 59, 59, 999);
-        
         // Validate and truncate title if provided
         const shootTitle = title ? title.slice(0, 100).trim() : undefined;
-        
         const shoot = {
             id: `shoot_${Date.now()}`,
             code,
@@ -54,9 +54,10 @@ export class ShootServiceImpl {
      * @param code The 4-digit code of the shoot to join
      * @param archerName Name of the archer joining the shoot
      * @param roundName Name of the round the archer is shooting
+     * @param opponentName Name of the archer they are shooting a head to head match against, if any
      * @returns Promise with success status and shoot details
      */
-    async joinShoot(code, archerName, roundName) {
+    async joinShoot(code, archerName, roundName, opponentName) {
         const shoot = await this.repository.getShootByCode(code);
         if (!shoot) {
             return { success: false };
@@ -69,6 +70,10 @@ export class ShootServiceImpl {
                 existingParticipant.roundName = roundName;
                 shoot.lastUpdated = new Date();
             }
+            if (opponentName && existingParticipant.opponentName !== opponentName) {
+                existingParticipant.opponentName = opponentName;
+                shoot.lastUpdated = new Date();
+            }
         }
         else {
             // Add the new participant
@@ -80,6 +85,7 @@ export class ShootServiceImpl {
                 arrowsShot: 0,
                 finished: false,
                 lastUpdated: new Date(),
+                opponentName,
             };
             shoot.participants.push(participant);
             shoot.lastUpdated = new Date();
@@ -94,6 +100,7 @@ export class ShootServiceImpl {
         }
         // Update positions for all participants
         this.updatePositions(shoot);
+        this.updateSetPoints(shoot);
         // Save the updated shoot
         await this.repository.saveShoot(shoot);
         // Send notification that a new archer joined - INCLUDE SHOOT DATA
@@ -115,8 +122,8 @@ export class ShootServiceImpl {
      * @param arrowsShot Number of arrows shot so far
      * @returns Promise with success status and updated shoot details
      */
-    async updateScore(code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores) {
-        return this.updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, false, currentClassification, scores);
+    async updateScore(code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRules) {
+        return this.updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, false, currentClassification, scores, tieBreakRules);
     }
     /**
      * Marks an archer as finished with their round and locks their final score
@@ -127,8 +134,8 @@ export class ShootServiceImpl {
      * @param arrowsShot Total number of arrows shot
      * @returns Promise with success status and updated shoot details
      */
-    async finishShoot(code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores) {
-        return this.updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, true, currentClassification, scores);
+    async finishShoot(code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRules) {
+        return this.updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, true, currentClassification, scores, tieBreakRules);
     }
     /**
      * Removes an archer from a shoot
@@ -178,7 +185,7 @@ export class ShootServiceImpl {
      * @param markAsFinished Whether to mark the participant as finished
      * @returns Promise with success status and updated shoot details
      */
-    async updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, markAsFinished, currentClassification, scores) {
+    async updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, markAsFinished, currentClassification, scores, tieBreakRules) {
         const shoot = await this.repository.getShootByCode(code);
         if (!shoot) {
             return { success: false };
@@ -193,6 +200,10 @@ export class ShootServiceImpl {
         }
         // Store previous position for notification
         const previousPosition = participant.currentPosition;
+        // Rules belong to a round, so they go with it unless new ones came along
+        if (tieBreakRules !== undefined || participant.roundName !== roundName) {
+            participant.tieBreakRules = tieBreakRules;
+        }
         // Update participant data
         participant.totalScore = totalScore;
         participant.arrowsShot = arrowsShot;
@@ -210,6 +221,7 @@ export class ShootServiceImpl {
         }
         // Update positions for all participants
         this.updatePositions(shoot);
+        this.updateSetPoints(shoot);
         // Save the updated shoot
         await this.repository.saveShoot(shoot);
         // Send notifications
@@ -258,19 +270,27 @@ export class ShootServiceImpl {
         return shoot !== null;
     }
     /**
-     * Updates the positions of all participants in a shoot based on their scores
+     * Updates the positions of all participants in a shoot based on their scores, splitting ties with the round's tie-breakers
      * @param shoot The shoot to update positions for
      */
     updatePositions(shoot) {
-        // Sort participants by score (descending)
-        const sortedParticipants = [...shoot.participants].sort((a, b) => b.totalScore - a.totalScore);
-        // Update positions
-        sortedParticipants.forEach((participant, index) => {
-            const originalParticipant = shoot.participants.find(p => p.id === participant.id);
-            if (originalParticipant) {
-                originalParticipant.previousPosition = originalParticipant.currentPosition;
-                originalParticipant.currentPosition = index + 1;
+        rankParticipants(shoot.participants).forEach(({ participant, position }) => {
+            participant.previousPosition = participant.currentPosition;
+            participant.currentPosition = position;
+        });
+    }
+    /**
+     * Updates set points for participants shooting a head to head match against another participant
+     * @param shoot The shoot to update set points for
+     */
+    updateSetPoints(shoot) {
+        shoot.participants.forEach(participant => {
+            const opponent = shoot.participants.find(p => p.archerName === participant.opponentName);
+            if (!opponent) {
+                return;
             }
+            const result = calculateMatchResult([participant.scores ?? [], opponent.scores ?? []]);
+            participant.setPoints = result.setPoints[0];
         });
     }
     /**
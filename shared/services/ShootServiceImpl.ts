@@ -2,6 +2,8 @@ import { Shoot, ShootParticipant } from '../models/Shoot.js';
 import { ShootService } from '../ports/ShootService.js';
 import { ShootRepository } from '../ports/ShootRepository.js';
 import { ShootNotificationService, NotificationType } from '../ports/ShootNotificationService.js';
+import { calculateMatchResult } from '../models/MatchPlay.js';
+import { rankParticipants, TieBreakRules } from '../models/TieBreak.js';
 
 /**
  * Implementation of the ShootService that uses a repository for persistence
@@ -69,9 +71,10 @@ export class ShootServiceImpl implements ShootService {
    * @param code The 4-digit code of the shoot to join
    * @param archerName Name of the archer joining the shoot
    * @param roundName Name of the round the archer is shooting
+   * @param opponentName Name of the archer they are shooting a head to head match against, if any
    * @returns Promise with success status and shoot details
    */
-  async joinShoot(code: string, archerName: string, roundName: string): Promise<{ success: boolean; shoot?: Shoot }> {
+  async joinShoot(code: string, archerName: string, roundName: string, opponentName?: string): Promise<{ success: boolean; shoot?: Shoot }> {
     const shoot = await this.repository.getShootByCode(code);
 
     if (!shoot) {
@@ -87,6 +90,10 @@ export class ShootServiceImpl implements ShootService {
         existingParticipant.roundName = roundName;
         shoot.lastUpdated = new Date();
       }
+      if (opponentName && existingParticipant.opponentName !== opponentName) {
+        existingParticipant.opponentName = opponentName;
+        shoot.lastUpdated = new Date();
+      }
     } else {
       // Add the new participant
       const participant: ShootParticipant = {
@@ -97,6 +104,7 @@ export class ShootServiceImpl implements ShootService {
         arrowsShot: 0,
         finished: false,
         lastUpdated: new Date(),
+        opponentName,
       };
 
       shoot.participants.push(participant);
@@ -114,6 +122,7 @@ export class ShootServiceImpl implements ShootService {
 
     // Update positions for all participants
     this.updatePositions(shoot);
+    this.updateSetPoints(shoot);
 
     // Save the updated shoot
     await this.repository.saveShoot(shoot);
@@ -137,10 +146,11 @@ export class ShootServiceImpl implements ShootService {
    * @param totalScore Current total score
    * @param roundName Name of the round (in case it changed)
    * @param arrowsShot Number of arrows shot so far
+   * @param tieBreakRules How the archer's app splits ties on their round
    * @returns Promise with success status and updated shoot details
    */
-  async updateScore(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[]): Promise<{ success: boolean; shoot?: Shoot }> {
-    return this.updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, false, currentClassification, scores);
+  async updateScore(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[], tieBreakRules?: TieBreakRules): Promise<{ success: boolean; shoot?: Shoot }> {
+    return this.updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, false, currentClassification, scores, tieBreakRules);
   }
 
   /**
@@ -150,10 +160,11 @@ export class ShootServiceImpl implements ShootService {
    * @param totalScore Final total score
    * @param roundName Name of the round
    * @param arrowsShot Total number of arrows shot
+   * @param tieBreakRules How the archer's app splits ties on their round
    * @returns Promise with success status and updated shoot details
    */
-  async finishShoot(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[]): Promise<{ success: boolean; shoot?: Shoot }> {
-    return this.updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, true, currentClassification, scores);
+  async finishShoot(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[], tieBreakRules?: TieBreakRules): Promise<{ success: boolean; shoot?: Shoot }> {
+    return this.updateParticipantScore(code, archerName, totalScore, roundName, arrowsShot, true, currentClassification, scores, tieBreakRules);
   }
 
   /**
@@ -222,7 +233,8 @@ export class ShootServiceImpl implements ShootService {
     arrowsShot: number,
     markAsFinished: boolean,
     currentClassification?: string,
-    scores?: (number | string)[]
+    scores?: (number | string)[],
+    tieBreakRules?: TieBreakRules
   ): Promise<{ success: boolean; shoot?: Shoot }> {
     const shoot = await this.repository.getShootByCode(code);
 
@@ -244,6 +256,11 @@ export class ShootServiceImpl implements ShootService {
     // Store previous position for notification
     const previousPosition = participant.currentPosition;
 
+    // Rules belong to a round, so they go with it unless new ones came along
+    if (tieBreakRules !== undefined || participant.roundName !== roundName) {
+      participant.tieBreakRules = tieBreakRules;
+    }
+
     // Update participant data
     participant.totalScore = totalScore;
     participant.arrowsShot = arrowsShot;
@@ -264,6 +281,7 @@ export class ShootServiceImpl implements ShootService {
 
     // Update positions for all participants
     this.updatePositions(shoot);
+    this.updateSetPoints(shoot);
 
     // Save the updated shoot
     await this.repository.saveShoot(shoot);
@@ -320,20 +338,29 @@ export class ShootServiceImpl implements ShootService {
   }
 
   /**
-   * Updates the positions of all participants in a shoot based on their scores
+   * Updates the positions of all participants in a shoot based on their scores, splitting ties with the round's tie-breakers
    * @param shoot The shoot to update positions for
    */
   private updatePositions(shoot: Shoot): void {
-    // Sort participants by score (descending)
-    const sortedParticipants = [...shoot.participants].sort((a, b) => b.totalScore - a.totalScore);
-
-    // Update positions
-    sortedParticipants.forEach((participant, index) => {
-      const originalParticipant = shoot.participants.find(p => p.id === participant.id);
-      if (originalParticipant) {
-        originalParticipant.previousPosition = originalParticipant.currentPosition;
-        originalParticipant.currentPosition = index + 1;
+    rankParticipants(shoot.participants).forEach(({ participant, position }) => {
+      participant.previousPosition = participant.currentPosition;
+      participant.currentPosition = position;
+    });
+  }
+
+  /**
+   * Updates set points for participants shooting a head to head match against another participant
+   * @param shoot The shoot to update set points for
+   */
+  private updateSetPoints(shoot: Shoot): void {
+    shoot.participants.forEach(participant => {
+      const opponent = shoot.participants.find(p => p.archerName === participant.opponentName);
+      if (!opponent) {
+        return;
       }
+
+      const result = calculateMatchResult([participant.scores ?? [], opponent.scores ?? []]);
+      participant.setPoints = result.setPoints[0];
     });
   }
 
@@ -3,6 +3,7 @@ import { ShootServiceImpl } from '../ShootServiceImpl.js';
 import { InMemoryShootNotificationService } from '../InMemoryShootNotificationService.js';
 import { NotificationType, PositionChangeNotification } from '../../ports/ShootNotificationService.js';
 import { InMemoryShootRepository } from '../InMemoryShootRepository.js'
+import { TieBreakRules } from '../../models/TieBreak.js';
 
 describe('ShootService', () => {
   let shootService: ShootServiceImpl;
@@ -209,4 +210,57 @@ describe('ShootService', () => {
     expect(participant!.arrowsShot).toBe(36); // Should still be the finished arrows
     expect(participant!.finished).toBe(true); // Should still be marked as finished
   });
-});
\ No newline at end of file
+
+  it('keeps set points for archers shooting a head to head match', async () => {
+    const { code } = await shootService.createShoot('Creator');
+    await shootService.joinShoot(code, 'Archer 1', 'wa 70m match', 'Archer 2');
+    await shootService.joinShoot(code, 'Archer 2', 'wa 70m match', 'Archer 1');
+    await shootService.joinShoot(code, 'Archer 3', 'Windsor');
+
+    await shootService.updateScore(code, 'Archer 1', 57, 'wa 70m match', 6, undefined, [10, 10, 9, 9, 9, 9]);
+    const result = await shootService.updateScore(code, 'Archer 2', 54, 'wa 70m match', 6, undefined, [9, 9, 9, 9, 9, 9]);
+
+    const participants = result.shoot!.participants;
+    expect(participants.find(p => p.archerName === 'Archer 1')!.setPoints).toBe(3);
+    expect(participants.find(p => p.archerName === 'Archer 2')!.setPoints).toBe(1);
+    expect(participants.find(p => p.archerName === 'Archer 3')!.setPoints).toBeUndefined();
+  });
+
+  it('splits equal scores with the round\'s tie-breakers', async () => {
+    const { code } = await shootService.createShoot('Creator');
+    await shootService.joinShoot(code, 'Archer 1', 'Windsor');
+    await shootService.joinShoot(code, 'Archer 2', 'Windsor');
+    await shootService.joinShoot(code, 'Archer 3', 'Windsor');
+
+    await shootService.updateScore(code, 'Archer 1', 27, 'Windsor', 3, undefined, [9, 9, 9]);
+    await shootService.updateScore(code, 'Archer 2', 27, 'Windsor', 6, undefined, [9, 7, 5, 3, 3, 'M']);
+    const result = await shootService.updateScore(code, 'Archer 3', 27, 'Windsor', 3, undefined, [9, 9, 9]);
+
+    const positions = Object.fromEntries(result.shoot!.participants.map(p => [p.archerName, p.currentPosition]));
+    expect(positions).toEqual({ 'Archer 2': 1, 'Archer 1': 2, 'Archer 3': 2 });
+  });
+
+  it('splits equal scores with the rules the archers\' apps sent', async () => {
+    const metric: TieBreakRules = { goldValue: 10, tieBreakers: ['golds', 'X'] };
+    const { code } = await shootService.createShoot('Creator');
+    await shootService.joinShoot(code, 'Archer 1', 'wa 18m');
+    await shootService.joinShoot(code, 'Archer 2', 'wa 18m');
+
+    // Odd scores only, which on their own look like an imperial round split on golds
+    await shootService.updateScore(code, 'Archer 1', 19, 'wa 18m', 3, undefined, [9, 9, 1], metric);
+    const result = await shootService.updateScore(code, 'Archer 2', 19, 'wa 18m', 3, undefined, [9, 5, 5], metric);
+
+    const positions = Object.fromEntries(result.shoot!.participants.map(p => [p.archerName, p.currentPosition]));
+    expect(positions).toEqual({ 'Archer 1': 1, 'Archer 2': 1 });
+  });
+
+  it('forgets the rules when an archer changes round without sending new ones', async () => {
+    const { code } = await shootService.createShoot('Creator');
+    await shootService.joinShoot(code, 'Archer 1', 'wa 18m');
+    await shootService.updateScore(code, 'Archer 1', 9, 'wa 18m', 1, undefined, [9], { goldValue: 10, tieBreakers: ['golds', 'X'] });
+
+    const result = await shootService.updateScore(code, 'Archer 1', 9, 'Windsor', 1, undefined, [9]);
+
+    expect(result.shoot!.participants[0].tieBreakRules).toBeUndefined();
+  });
+});
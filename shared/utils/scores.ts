@@ -4,10 +4,17 @@ const scoreMappings = {
   "M": 0
 };
 
+/**
+ * Works out what an X is worth from the round's name, for when the round itself isn't known.
+ * The app uses the round's config instead, see src/domain/scoring/scores
+ */
 export function convertToValue(score: number | string, gameType?: string): number {
   if (gameType?.toLowerCase().includes('worcester') && score === 'X') {
     return 5;
   }
+  if (/\bfield\b/.test(gameType?.toLowerCase() ?? '') && score === 'X') {
+    return 6;
+  }
   return (scoreMappings as any)[score] ?? score;
 }
 
@@ -144,4 +144,17 @@ describe('ArcherDetails', () => {
     expect(wrapper.find('.location-button svg').exists()).toBe(true);
     expect(wrapper.find('.location-icon').exists()).toBe(true);
   });
+
+  test('shows the setup the shoot was shot with', () => {
+    const wrapper = mount(ArcherDetails, {
+      props: {
+        name: 'John Doe',
+        equipment: { id: 's1', name: 'Indoor', bow: 'Hoyt Formula', drawWeight: 38 }
+      }
+    });
+
+    const chip = wrapper.find('[data-test="shoot-setup"]');
+    expect(chip.text()).toBe('Indoor');
+    expect(chip.attributes('title')).toBe('Hoyt Formula · 38lb');
+  });
 });
@@ -0,0 +1,43 @@
+import { describe, test, expect } from 'vitest';
+import { mount } from '@vue/test-utils';
+import GhostPace from '../scoring/GhostPace.vue';
+
+// ten ends of six on a portsmouth
+const personalBest = { score: 540, scores: Array(60).fill(9) };
+
+describe('GhostPace', () => {
+  test('shows how far ahead of the PB the shoot is', () => {
+    const wrapper = mount(GhostPace, {
+      props: { scores: Array(6).fill(10), gameType: 'portsmouth', personalBest }
+    });
+
+    expect(wrapper.find('[data-test="pace-PB"] [data-test="pace-delta"]').text()).toBe('+6');
+    // 541 - 60 over nine ends
+    expect(wrapper.find('[data-test="pace-needed"]').text()).toContain('53.4 / end to beat');
+  });
+
+  test('paces a chosen classification evenly', async () => {
+    const wrapper = mount(GhostPace, {
+      props: {
+        scores: Array(6).fill(8),
+        gameType: 'portsmouth',
+        personalBest: null,
+        classifications: [{ name: 'B1', score: 500 }, { name: 'PB', score: 540 }]
+      }
+    });
+
+    expect(wrapper.findAll('[data-test="pace-classification"] option')).toHaveLength(2);
+
+    await wrapper.find('[data-test="pace-classification"]').setValue('B1');
+
+    expect(wrapper.find('[data-test="pace-B1"] [data-test="pace-delta"]').text()).toBe('-2');
+  });
+
+  test('shows nothing without anything to pace against', () => {
+    const wrapper = mount(GhostPace, {
+      props: { scores: [], gameType: 'portsmouth', personalBest: { score: 540, scores: [] } }
+    });
+
+    expect(wrapper.find('[data-test="ghost-pace"]').exists()).toBe(false);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, test, expect } from 'vitest';
+import { mount } from '@vue/test-utils';
+import GoalProgressCard from '../GoalProgressCard.vue';
+
+const goal = { id: 'arrows', type: 'arrows', startDate: '2025-06-01', deadline: '2025-06-30', arrows: 3000 };
+
+describe('GoalProgressCard', () => {
+  test('shows the goal, its status and how far along it is', () => {
+    const wrapper = mount(GoalProgressCard, {
+      props: { progress: { goal, status: 'off-track', progress: 0.2, expected: 0.5, summary: '600 of 3,000 arrows' } }
+    });
+
+    expect(wrapper.text()).toContain('3,000 arrows');
+    expect(wrapper.find('[data-test="goal-status"]').text()).toBe('Off track');
+    expect(wrapper.find('[data-test="goal-summary"]').text()).toBe('600 of 3,000 arrows');
+    expect(wrapper.find('.goal-bar-fill').attributes('style')).toContain('width: 20%');
+  });
+
+  test('can be removed when allowed', async () => {
+    const progress = { goal, status: 'on-track', progress: 0.5, expected: 0.5, summary: '' };
+
+    expect(mount(GoalProgressCard, { props: { progress } }).find('[data-test="goal-remove"]').exists()).toBe(false);
+
+    const wrapper = mount(GoalProgressCard, { props: { progress, removable: true } });
+    await wrapper.find('[data-test="goal-remove"]').trigger('click');
+
+    expect(wrapper.emitted('remove')).toEqual([['arrows']]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { mount, RouterLinkStub } from '@vue/test-utils';
+import { setActivePinia, createPinia } from 'pinia';
+import GroupAnalysis from '@/components/scoring/GroupAnalysis.vue';
+import { useSightMarksStore } from '@/stores/sight_marks';
+
+// six arrows two rings high on a 200px portsmouth face, drawn with ten rings of 10px
+const highArrows = Array.from({ length: 6 }, (_, i) => ({
+  id: i,
+  position: { x: 100 + (i % 2 ? 2 : -2), y: 80 },
+  end: 0,
+  faceWidth: 200
+}));
+
+describe('GroupAnalysis', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    localStorage.clear();
+  });
+
+  function mountAnalysis() {
+    return mount(GroupAnalysis, {
+      props: { arrows: highArrows, gameType: 'portsmouth', bowType: 'recurve' },
+      global: { stubs: { RouterLink: RouterLinkStub } }
+    });
+  }
+
+  test('draws the group on the target face and suggests a sight change', () => {
+    const wrapper = mountAnalysis();
+
+    expect(wrapper.find('[data-test="group-centre"]').exists()).toBe(true);
+    expect(wrapper.find('[data-test="group-centre-offset"]').text()).toContain('2 high');
+    expect(wrapper.find('[data-test="sight-correction"]').text()).toContain('Move your sight up 2 rings');
+  });
+
+  test('shows the sight mark for the distance shot', () => {
+    useSightMarksStore().addMark(20, 'yd', 5, { major: 4, minor: 3, micro: 2 }, '');
+
+    const wrapper = mountAnalysis();
+
+    expect(wrapper.find('[data-test="group-sight-mark"]').text()).toContain('4.3.2');
+  });
+});
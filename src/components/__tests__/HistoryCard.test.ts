@@ -147,4 +147,34 @@ describe('HistoryCard', () => {
     // The classification appears as an indicator in the DeleteableCard
     expect(wrapper.find('[data-test="score"]').exists()).toBe(true);
   });
+
+  test('shows how the shoot held up end to end', () => {
+    const mockItem = {
+      id: 1,
+      gameType: 'portsmouth',
+      date: '2023-01-01',
+      score: 222,
+      scores: [...Array(12).fill(10), ...Array(6).fill(9), ...Array(6).fill(8)]
+    };
+
+    const wrapper = mount(HistoryCard, {
+      props: {
+        item: mockItem,
+        consistencyProfile: { shoots: 3, endAverages: [58, 58, 57, 57], trend: -0.3, halfDrop: 1, distances: [] }
+      }
+    });
+
+    expect(wrapper.find('[data-test="half-drop"]').text()).toBe('Faded 9 / end');
+    expect(wrapper.find('[data-test="vs-usual"]').text()).toBe('(8 more than usual)');
+    expect(wrapper.find('[data-test="worst-end"]').text()).toBe('Worst end 4: 48');
+  });
+
+  test('leaves out the end analysis for shoots of a single end', () => {
+    const wrapper = mount(HistoryCard, {
+      props: { item: { id: 1, gameType: 'portsmouth', date: '2023-01-01', score: 60, scores: Array(6).fill(10) } }
+    });
+
+    expect(wrapper.find('.consistency-row').exists()).toBe(false);
+  });
 });
+
@@ -25,5 +25,68 @@ describe("InteractiveTargetFace", () => {
     expect(emittedScore.position).toBeDefined();
     expect(emittedScore.position.x).toBeTypeOf("number");
     expect(emittedScore.position.y).toBeTypeOf("number");
+    expect(emittedScore.faceWidth).toBeTypeOf("number");
+  });
+
+  it("draws three spots for rounds shot on a triple spot face", () => {
+    const wrapper = mount(InteractiveTargetFace, {
+      props: {
+        validScores: ["X", 10, 9, 8, 7, 6, "M"],
+        scores: [],
+        gameType: "vegas 300",
+        maxReached: false
+      }
+    });
+
+    expect(wrapper.find("[data-face]").attributes("data-face")).toBe("triple-spot");
+    expect(wrapper.findAll("[data-test=\"spot\"]")).toHaveLength(3);
+  });
+
+  it("colours the worcester face white and black, whatever the round is called", () => {
+    const wrapper = mount(InteractiveTargetFace, {
+      props: {
+        validScores: ["X", 5, 4, 3, 2, 1, "M"],
+        scores: [],
+        gameType: "worcester (5 spot)",
+        maxReached: false
+      }
+    });
+
+    expect(wrapper.find("[data-test=\"score-5\"]").classes()).toContain("white");
+    expect(wrapper.find("[data-test=\"score-4\"]").classes()).toContain("black");
+  });
+
+  it("tags the next plotted arrow with the chosen shaft number", async () => {
+    const wrapper = mount(InteractiveTargetFace, {
+      props: {
+        validScores: [9, 7, "M"],
+        scores: [],
+        gameType: "national",
+        maxReached: false,
+        numberedArrows: 6
+      }
+    });
+
+    expect(wrapper.findAll("[data-test^=\"shaft-\"]")).toHaveLength(7);
+
+    await wrapper.find("[data-test=\"shaft-4\"]").trigger("click");
+    await wrapper.find("[data-test=\"score-9\"]").trigger("click", { clientX: 100, clientY: 100 });
+    await wrapper.find("[data-test=\"score-M\"]").trigger("click");
+
+    expect(wrapper.emitted().score[0][0].shaft).toBe(4);
+    expect(wrapper.emitted().score[1][0].shaft).toBeNull();
+  });
+
+  it("leaves arrows untagged without numbered arrows", () => {
+    const wrapper = mount(InteractiveTargetFace, {
+      props: {
+        validScores: [9, 7, "M"],
+        scores: [],
+        gameType: "national",
+        maxReached: false
+      }
+    });
+
+    expect(wrapper.find("[data-test=\"shaft-picker\"]").exists()).toBe(false);
   });
 });
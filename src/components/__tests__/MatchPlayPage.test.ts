@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { mount } from '@vue/test-utils';
+import { createPinia, setActivePinia } from 'pinia';
+import { createMemoryHistory, createRouter } from 'vue-router';
+import Toast from 'vue-toastification';
+import MatchPlayPage from '@/views/MatchPlayPage.vue';
+import { routes } from '@/routes';
+import { useMatchPlayStore } from '@/stores/match_play';
+
+describe('MatchPlayPage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActivePinia(createPinia());
+  });
+
+  test('adds up a set from the score buttons', async () => {
+    useMatchPlayStore().startMatch('wa 70m match', ['Robin', 'Marian']);
+    const router = createRouter({ history: createMemoryHistory(), routes });
+    const wrapper = mount(MatchPlayPage, { global: { plugins: [router, Toast] } });
+
+    const [robin, marian] = wrapper.findAll('.archer-scoring');
+    for (const score of [10, 9, 9]) {
+      await robin.find(`[data-test="score-${score}"]`).trigger('click');
+    }
+    for (const score of [9, 9, 9]) {
+      await marian.find(`[data-test="score-${score}"]`).trigger('click');
+    }
+
+    const firstSet = wrapper.find('.sets-table tbody tr');
+    expect(firstSet.findAll('.set-total').map(total => total.text())).toEqual(['28', '27']);
+    expect(wrapper.findAll('[data-test="set-points"] td').map(cell => cell.text())).toEqual(['Set points', '2', '0']);
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { flushPromises, mount } from '@vue/test-utils';
+import { createPinia, setActivePinia } from 'pinia';
+import { createMemoryHistory, createRouter } from 'vue-router';
+import Toast from 'vue-toastification';
+import SeasonReportPage from '@/views/SeasonReportPage.vue';
+import { routes } from '@/routes';
+import { FakeSharingService } from '@/domain/adapters/in-memory/fake_sharing_service';
+
+function printWindow() {
+  return { document: document.implementation.createHTMLDocument(''), print: vi.fn(), close: vi.fn() };
+}
+
+async function mountPage(sharingService: FakeSharingService) {
+  const router = createRouter({ history: createMemoryHistory(), routes });
+  await router.push('/');
+  return mount(SeasonReportPage, { global: { plugins: [router, Toast], provide: { sharingService } } });
+}
+
+describe('SeasonReportPage', () => {
+  let sharingService: FakeSharingService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    setActivePinia(createPinia());
+    sharingService = new FakeSharingService();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('opens the print window straight from the tap and prints once the report is drawn', async () => {
+    const opened = printWindow();
+    const open = vi.spyOn(window, 'open').mockReturnValue(opened as unknown as Window);
+    const wrapper = await mountPage(sharingService);
+
+    const pdfButton = wrapper.findAll('button').find(button => button.text().includes('PDF'))!;
+    pdfButton.trigger('click');
+    expect(open).toHaveBeenCalledTimes(1);
+    expect(sharingService.seasonReportCalls).toHaveLength(1);
+
+    await flushPromises();
+    const image = opened.document.querySelector('img')!;
+    expect(image.getAttribute('src')).toBe(sharingService.seasonReportResult);
+    expect(opened.print).not.toHaveBeenCalled();
+
+    image.dispatchEvent(new Event('load'));
+    expect(opened.print).toHaveBeenCalledTimes(1);
+  });
+
+  test("doesn't draw the report when the print window is blocked", async () => {
+    vi.spyOn(window, 'open').mockReturnValue(null);
+    const wrapper = await mountPage(sharingService);
+
+    await wrapper.findAll('button').find(button => button.text().includes('PDF'))!.trigger('click');
+    await flushPromises();
+
+    expect(sharingService.seasonReportCalls).toHaveLength(0);
+  });
+});
@@ -6,6 +6,7 @@ import { describe, test, expect, beforeEach } from 'vitest';
 import { mount } from '@vue/test-utils';
 import { setActivePinia, createPinia } from 'pinia';
 import UserData from '../../UserData.vue';
+import { calculateDefaultSeasonDates } from '@/domain/season_dates';
 
 describe('UserData', () => {
   beforeEach(() => {
@@ -60,4 +61,26 @@ describe('UserData', () => {
     // Should now be disabled
     expect(achievementStore.popupsEnabled).toBe(false);
   });
+
+  test('shows the season handicap and the shoots it came from', () => {
+    const seasonStart = new Date(calculateDefaultSeasonDates().indoor);
+    const inSeason = (days: number) => new Date(seasonStart.getTime() + days * 86400000).toISOString().slice(0, 10);
+    localStorage.setItem('history', JSON.stringify([40, 42, 47, 50].map((handicap, index) => ({
+      id: index + 1,
+      date: inSeason(index + 1),
+      score: 500,
+      gameType: 'portsmouth',
+      scores: [],
+      handicap,
+      shootStatus: 'Competition',
+      userProfile: { gender: 'male', ageGroup: 'senior', bowType: 'recurve' }
+    }))));
+
+    const wrapper = mount(UserData, { global: { stubs: { RouterLink: { template: '<a><slot /></a>' } } } });
+    const indoor = wrapper.find('[data-test="season-handicap-indoor"]');
+
+    expect(indoor.find('.handicap').text()).toBe('43');
+    expect(indoor.findAll('.handicap-shoots li')).toHaveLength(3);
+    expect(wrapper.find('[data-test="season-handicap-outdoor"]').text()).toContain('Not enough shoots yet');
+  });
 });
\ No newline at end of file
@@ -9,6 +9,7 @@ export class HistoryPage extends BasePage {
   // Navigate to the history page
   async visit() {
     await this.findByText('History', 'a').then(el => el.trigger('click'))
+    await this.waitForUpdate()
   }
 
   // Check if a score exists for a specific round
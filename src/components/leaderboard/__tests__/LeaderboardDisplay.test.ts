@@ -122,4 +122,34 @@ describe('LeaderboardDisplay', () => {
     expect(participantList.exists()).toBe(true);
     expect(participantList.text()).toBe('No best ends');
   });
+
+  test('orders archers on the same score by the round\'s tie-breakers', () => {
+    const participants = [
+      createParticipant('1', 'Alice', 'windsor', [9, 9, 9], 27),
+      createParticipant('2', 'Bob', 'windsor', [9, 7, 5, 3, 3], 27),
+    ];
+    const shoot = createShoot(participants);
+
+    const wrapper = mount(LeaderboardDisplay, {
+      props: {
+        shoot,
+        groupByRound: true
+      },
+      global: {
+        plugins: [createPinia()],
+        stubs: {
+          UnifiedGraphModal: true,
+          EndScores: true
+        },
+        mocks: {
+          $router: { push: vi.fn() }
+        }
+      }
+    });
+
+    const names = wrapper.findAll('.archer-name').map(name => name.text());
+    expect(names[0]).toContain('Bob');
+    expect(names[1]).toContain('Alice');
+    expect(wrapper.find('[data-test="tie-break"]').text()).toBe('Hits 5 · Golds 1');
+  });
 });
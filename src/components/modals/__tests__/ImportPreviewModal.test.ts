@@ -0,0 +1,47 @@
+import { describe, test, expect } from 'vitest';
+import { mount } from '@vue/test-utils';
+import ImportPreviewModal from '../ImportPreviewModal.vue';
+
+const shoot = (id: number, date: string, score: number) =>
+  ({ id, date, score, gameType: 'national', scores: [], shootStatus: 'Practice' });
+
+const current = {
+  history: [shoot(1, '2025-06-01', 500), shoot(2, '2025-06-02', 510)],
+  notes: [],
+  pendingNotes: []
+};
+const incoming = {
+  history: [shoot(1, '2025-06-01', 500), shoot(2, '2025-06-03', 520)],
+  notes: [],
+  pendingNotes: [],
+  user: { bowType: 'recurve' },
+  customRounds: [],
+  goals: []
+};
+
+describe('ImportPreviewModal', () => {
+  test('merges by default when there is history to keep', () => {
+    const wrapper = mount(ImportPreviewModal, { props: { current, incoming } });
+
+    expect((wrapper.find('[data-test="import-mode-merge"]').element as HTMLInputElement).checked).toBe(true);
+    expect(wrapper.find('[data-test="import-added"]').text()).toContain('1 shoot added');
+    expect(wrapper.find('[data-test="import-removed"]').exists()).toBe(false);
+  });
+
+  test('shows what replacing would remove', async () => {
+    const wrapper = mount(ImportPreviewModal, { props: { current, incoming } });
+    await wrapper.find('[data-test="import-mode-replace"]').setValue(true);
+
+    expect(wrapper.find('[data-test="import-removed"]').text()).toContain('2025-06-02');
+    expect(wrapper.text()).toContain('Your settings will be replaced');
+  });
+
+  test('confirms with the plan shown', async () => {
+    const wrapper = mount(ImportPreviewModal, { props: { current, incoming } });
+    await wrapper.find('[data-test="confirm-import"]').trigger('click');
+
+    const [[plan]] = wrapper.emitted('confirm') as [[{ mode: string; history: unknown[] }]];
+    expect(plan.mode).toBe('merge');
+    expect(plan.history).toHaveLength(3);
+  });
+});
@@ -14,6 +14,21 @@ describe("useButtonClass", () => {
     expect(result).toEqual({ "worcesterRest": true });
   });
 
+  it("should return field classes for field rounds", () => {
+    expect(buttonClass(6, "wa field 24 marked")).toEqual({ "fieldGold": true });
+    expect(buttonClass(3, "wa field 24 marked")).toEqual({ "fieldRest": true });
+  });
+
+  it("should not treat a round with field in its name as a field round", () => {
+    expect(buttonClass(3, "mansfield 70")).toEqual({ "score3": true });
+  });
+
+  it("should return clout classes for clout rounds", () => {
+    expect(buttonClass(5, "clout 180yd")).toEqual({ "cloutFlag": true });
+    expect(buttonClass(3, "clout 180yd")).toEqual({ "cloutRest": true });
+    expect(buttonClass(3, "my clout club round")).toEqual({ "score3": true });
+  });
+
   it("should return correct class for non-worcester game type", () => {
     const result = buttonClass(3, "otherGameType");
     expect(result).toEqual({ "score3": true });
@@ -1,12 +1,40 @@
+import { roundConfigManager } from "@/domain/scoring/game_types";
+
 export default function useButtonClass() {
   return function buttonClass(score, gameType) {
     if (gameType.toLowerCase().includes('worcester')) {
       return getWorcesterClass(score);
     }
+    if (roundConfigManager.getRound(gameType)?.isFieldRound()) {
+      return getFieldClass(score);
+    }
+    if (roundConfigManager.getRound(gameType)?.isCloutRound()) {
+      return getCloutClass(score);
+    }
     return { [`score${score}`]: true };
   };
 }
 
+function getFieldClass(score: number | string) {
+  if (score === 6 || score === 5 || score === "X") {
+    return { "fieldGold": true };
+  }
+  if (score === "M") {
+    return { "scoreM": true };
+  }
+  return { "fieldRest": true };
+}
+
+function getCloutClass(score: number | string) {
+  if (score === 5) {
+    return { "cloutFlag": true };
+  }
+  if (score === "M") {
+    return { "scoreM": true };
+  }
+  return { "cloutRest": true };
+}
+
 function getWorcesterClass(score) {
   if (score === 5 || score === "X") {
     return { "worcester5": true };
@@ -10,6 +10,7 @@ import { useInstallationStore } from './stores/installation'
 import { backupService } from './services/backupService'
 import { createRouter, routes } from '@/routes'
 import { useThemeStore } from '@/stores/theme'
+import { useCustomRoundsStore } from '@/stores/custom_rounds'
 import { BrowserSharingService } from '@/domain/adapters/browser/browser_sharing_service'
 import { HttpShootService } from '@/services/HttpShootService'
 import { BrowserLocationService } from '@/domain/adapters/browser/BrowserLocationService'
@@ -125,5 +126,8 @@ export function createAppInstance() {
   const themeStore = useThemeStore()
   themeStore.applyTheme()
 
+  // Register user-defined rounds before anything reads the round config
+  useCustomRoundsStore()
+
   return { app, router, pinia }
 }
\ No newline at end of file
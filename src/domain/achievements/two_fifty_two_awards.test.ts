@@ -13,6 +13,7 @@ import type { AchievementContext } from './types';
 // Mock the round config manager
 vi.mock('../scoring/game_types', () => ({
   roundConfigManager: {
+    getRound: vi.fn(() => undefined),
     getConfig: vi.fn((roundName: string) => {
       const configs = {
         'windsor 50': {
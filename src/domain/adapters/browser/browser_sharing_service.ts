@@ -1,10 +1,14 @@
-import { ScoresheetOptions, SharingPort, LiveShootExportOptions } from '@/domain/ports/sharing'
+import { ScoresheetOptions, SharingPort, LiveShootExportOptions, ComparisonOptions, SeasonReportOptions } from '@/domain/ports/sharing'
+import { ComparisonRow, ShootComparison } from '@/domain/scoring/shoot_comparison'
+import { SeasonReport } from '@/domain/season_report'
+import { getShootStatusDisplayName, ShootStatus } from '@/domain/shoot/shoot_status'
 import { HistoryItem } from '@/domain/repositories/player_history'
 import { Shoot, groupParticipantsByRound, getUniqueRoundNames } from '../../../../shared/models/Shoot'
 import { copyImageToClipboard, isMobileDevice, shareToWhatsApp } from '@/utils/shareUtils.js'
 import { roundConfigManager } from '@/domain/scoring/game_types'
 import { createApp, h } from 'vue'
 import { formatRoundName } from '@/domain/scoring/round/formatting'
+import { rankLeaderboard } from '@/domain/scoring/tie_break'
 import RoundScores from '@/components/RoundScores.vue'
 import {
   Chart,
@@ -195,7 +199,8 @@ export class BrowserSharingService implements SharingPort {
         const participants = participantsByRound[roundName] || []
         if (participants.length === 0) continue
         
-        const sortedParticipants = [...participants].sort((a, b) => (b.totalScore || 0) - (a.totalScore || 0))
+        const rankedParticipants = rankLeaderboard(participants)
+        const sortedParticipants = rankedParticipants.map(({ participant }) => participant)
         
         html += `
           <div style="margin-bottom: 50px; page-break-inside: avoid;">
@@ -217,14 +222,14 @@ export class BrowserSharingService implements SharingPort {
         `
         
         // Add leaderboard rows
-        sortedParticipants.forEach((participant, index) => {
+        rankedParticipants.forEach(({ participant, position }, index) => {
           const colors = ['#FFD700', '#C0C0C0', '#CD7F32']
-          const posColor = index < 3 ? colors[index] : '#333'
+          const posColor = position <= 3 ? colors[position - 1] : '#333'
           const bgColor = index % 2 === 0 ? 'white' : '#f8f9fa'
           
           html += `
             <tr style="background-color: ${bgColor};">
-              <td style="padding: 10px 12px; border-bottom: 1px solid #eee; font-weight: bold; color: ${posColor};">${index + 1}.</td>
+              <td style="padding: 10px 12px; border-bottom: 1px solid #eee; font-weight: bold; color: ${posColor};">${position}.</td>
               <td style="padding: 10px 12px; border-bottom: 1px solid #eee;">${participant.archerName}</td>
               <td style="padding: 10px 12px; border-bottom: 1px solid #eee; text-align: center; font-weight: bold; font-size: 1.1em;">${participant.totalScore || 0}</td>
               <td style="padding: 10px 12px; border-bottom: 1px solid #eee; text-align: center;">${participant.arrowsShot || 0}</td>
@@ -281,6 +286,103 @@ export class BrowserSharingService implements SharingPort {
     }
   }
 
+  async generateComparison(comparison: ShootComparison, options: ComparisonOptions): Promise<string> {
+    try {
+      const cell = 'padding: 8px 12px; border-bottom: 1px solid #eee; text-align: center;'
+      const heading = 'padding: 10px 12px; border-bottom: 2px solid #ddd; text-align: center; font-weight: bold;'
+      const delta = (value: number | null) => value === null || value === 0
+        ? ''
+        : `<span style="color: ${value > 0 ? '#2e7d32' : '#c62828'}; font-size: 0.85em; margin-left: 4px;">${value > 0 ? '+' : ''}${value}</span>`
+      const rows = (comparisonRows: ComparisonRow[], bold = false) => comparisonRows.map(row => `
+        <tr${bold ? ' style="font-weight: bold; background-color: #f8f9fa;"' : ''}>
+          <td style="${cell} text-align: left;">${row.label}</td>
+          ${row.values.map((value, index) => `<td style="${cell}">${value ?? '–'}${index > 0 ? delta(row.deltas[index]) : ''}</td>`).join('')}
+        </tr>
+      `).join('')
+
+      const html = `
+        <div style="background: white; padding: 30px; font-family: Arial, sans-serif; color: black; line-height: 1.4;">
+          <div style="text-align: center; margin-bottom: 20px; border-bottom: 2px solid #333; padding-bottom: 15px;">
+            <h1 style="margin: 0 0 8px 0; font-size: 1.8em; color: #333;">${options.roundName}</h1>
+            <p style="margin: 0; color: #666;">${options.archerName}</p>
+          </div>
+          <table style="width: 100%; border-collapse: collapse; background-color: white;">
+            <thead>
+              <tr style="background-color: #f8f9fa;">
+                <th style="${heading} text-align: left;"></th>
+                ${comparison.shoots.map(shoot => `<th style="${heading}">${new Date(shoot.date).toLocaleDateString()}</th>`).join('')}
+              </tr>
+            </thead>
+            <tbody>
+              ${rows(comparison.ends)}
+              ${rows(comparison.distances, true)}
+              ${rows([comparison.totals], true)}
+            </tbody>
+          </table>
+        </div>
+      `
+
+      const svgData = await htmlToSvg(html)
+      return await svgToPng(svgData)
+    } catch (error) {
+      console.error('Error generating shoot comparison:', error)
+      throw error
+    }
+  }
+
+  async generateSeasonReport(report: SeasonReport, options: SeasonReportOptions): Promise<string> {
+    try {
+      const heading = 'margin: 20px 0 8px 0; font-size: 1.1em; color: #333; border-bottom: 1px solid #ddd; padding-bottom: 4px;'
+      const item = 'padding: 4px 0;'
+      const stat = (value: number | string, label: string) => `
+        <div style="flex: 1; text-align: center; padding: 10px; background-color: #f8f9fa; border-radius: 8px;">
+          <div style="font-size: 1.8em; font-weight: bold;">${value}</div>
+          <div style="color: #666; font-size: 0.9em;">${label}</div>
+        </div>
+      `
+      const section = (title: string, items: string[]) => items.length === 0 ? '' : `
+        <h2 style="${heading}">${title}</h2>
+        ${items.map(text => `<div style="${item}">${text}</div>`).join('')}
+      `
+      const date = (value: string) => new Date(value).toLocaleDateString()
+      const handicapChange = (change: number | null) => change === null || change === 0
+        ? ''
+        : ` <span style="color: ${change < 0 ? '#2e7d32' : '#c62828'};">(${change > 0 ? '+' : ''}${change})</span>`
+
+      const html = `
+        <div style="background: white; padding: 30px; font-family: Arial, sans-serif; color: black; line-height: 1.4; width: 600px;">
+          <div style="text-align: center; margin-bottom: 20px; border-bottom: 2px solid #333; padding-bottom: 15px;">
+            <h1 style="margin: 0 0 8px 0; font-size: 1.8em; color: #333;">${report.period.label} in review</h1>
+            <p style="margin: 0; color: #666;">${options.archerName}</p>
+          </div>
+          <div style="display: flex; gap: 10px;">
+            ${stat(report.shoots, 'Shoots')}
+            ${stat(report.arrowsShot, 'Arrows')}
+            ${stat(report.personalBests.length, 'PBs')}
+          </div>
+          ${section('Shoots', Object.entries(report.shootsByStatus)
+            .filter(([, count]) => count > 0)
+            .map(([status, count]) => `${getShootStatusDisplayName(status as ShootStatus)}: ${count}`))}
+          ${section('Handicap', report.handicaps.map(handicap =>
+            `${handicap.environment === 'indoor' ? 'Indoor' : 'Outdoor'}: ${handicap.start ?? '–'} → ${handicap.end}${handicapChange(handicap.change)}`))}
+          ${section('Personal bests', report.personalBests.map(pb =>
+            `${formatRoundName(pb.gameType)}: ${pb.score} (was ${pb.previousBest}) on ${date(pb.date)}`))}
+          ${section('Classifications', report.classificationsGained.map(gained =>
+            `${generateClassificationPill(gained.name)} ${gained.bowType} ${gained.environment}, ${formatRoundName(gained.gameType)} on ${date(gained.date)}`))}
+          ${section('Most shot rounds', report.mostShotRounds.map(round => `${formatRoundName(round.gameType)}: ${round.shoots}`))}
+          ${section('New venues', report.newVenues.map(venue => `${venue.location.placeName} on ${date(venue.date)}`))}
+          ${section('Achievements', report.achievements.map(achievement => `${achievement.name} on ${date(achievement.achievedDate)}`))}
+        </div>
+      `
+
+      const svgData = await htmlToSvg(html)
+      return await svgToPng(svgData)
+    } catch (error) {
+      console.error('Error generating season report:', error)
+      throw error
+    }
+  }
+
   async shareLiveShootResults(dataUrl: string, text: string): Promise<void> {
     try {
       // Try to use Web Share API on mobile devices
@@ -1061,7 +1163,7 @@ function createExportHTML(shoot: any, options: any, roundGroups: any, roundNames
   // Round-by-round results
   roundNames.forEach(roundName => {
     const participants = roundGroups[roundName] || []
-    const sortedParticipants = [...participants].sort((a: any, b: any) => b.totalScore - a.totalScore)
+    const rankedParticipants = rankLeaderboard(participants)
     
     html += `
       <div style="margin-bottom: 40px;">
@@ -1082,14 +1184,14 @@ function createExportHTML(shoot: any, options: any, roundGroups: any, roundNames
             <tbody>
     `
 
-    sortedParticipants.forEach((participant: any, index: number) => {
+    rankedParticipants.forEach(({ participant, position }, index) => {
       const colors = ['#FFD700', '#C0C0C0', '#CD7F32']
-      const posColor = index < 3 ? colors[index] : '#333'
+      const posColor = position <= 3 ? colors[position - 1] : '#333'
       const bgColor = index % 2 === 0 ? 'white' : '#f8f9fa'
       
       html += `
         <tr style="background-color: ${bgColor};">
-          <td style="padding: 10px 12px; border-bottom: 1px solid #eee; font-weight: bold; color: ${posColor};">${index + 1}.</td>
+          <td style="padding: 10px 12px; border-bottom: 1px solid #eee; font-weight: bold; color: ${posColor};">${position}.</td>
           <td style="padding: 10px 12px; border-bottom: 1px solid #eee;">${participant.archerName}</td>
           <td style="padding: 10px 12px; border-bottom: 1px solid #eee; text-align: center; font-weight: bold; font-size: 1.1em;">${participant.totalScore}</td>
           <td style="padding: 10px 12px; border-bottom: 1px solid #eee; text-align: center;">${participant.arrowsShot}</td>
@@ -1115,7 +1217,7 @@ function createExportHTML(shoot: any, options: any, roundGroups: any, roundNames
     }
 
     // Add participant scorecards
-    sortedParticipants.forEach((participant: any) => {
+    rankedParticipants.forEach(({ participant }) => {
       if (participantScorecards[participant.id]) {
         html += `<div style="margin-bottom: 30px;">${participantScorecards[participant.id]}</div>`
       }
@@ -0,0 +1,84 @@
+import type { KeyValueStoragePort, StoredData } from '../../ports/key_value_storage';
+
+const DATABASE_NAME = 'archery-data';
+const STORE_NAME = 'keyval';
+// The shape of the database itself. The shape of the data in it is versioned by the migrations
+const DATABASE_VERSION = 1;
+
+function completed<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function committed(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    // A write over quota aborts the transaction rather than failing a request
+    transaction.onabort = () => reject(transaction.error ?? new DOMException('Transaction aborted', 'AbortError'));
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export class IndexedDbStorage implements KeyValueStoragePort {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private readonly name: string = DATABASE_NAME,
+    private readonly factory: IDBFactory = globalThis.indexedDB
+  ) {}
+
+  static isAvailable(): boolean {
+    return typeof globalThis.indexedDB !== 'undefined';
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = this.factory.open(this.name, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      this.database = completed(request);
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private async transaction(mode: IDBTransactionMode): Promise<IDBTransaction> {
+    return (await this.open()).transaction(STORE_NAME, mode);
+  }
+
+  async getAll(): Promise<StoredData> {
+    const store = (await this.transaction('readonly')).objectStore(STORE_NAME);
+    const [keys, values] = await Promise.all([completed(store.getAllKeys()), completed(store.getAll())]);
+    return Object.fromEntries(keys.map((key, index) => [String(key), values[index]]));
+  }
+
+  async setMany(entries: StoredData): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    Object.entries(entries).forEach(([key, value]) => store.put(value, key));
+    await committed(transaction);
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await this.setMany({ [key]: value });
+  }
+
+  async remove(key: string): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    transaction.objectStore(STORE_NAME).delete(key);
+    await committed(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const transaction = await this.transaction('readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await committed(transaction);
+  }
+}
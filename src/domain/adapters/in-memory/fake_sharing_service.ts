@@ -1,4 +1,6 @@
-import { SharingPort, ScoresheetOptions, LiveShootExportOptions } from '@/domain/ports/sharing'
+import { SharingPort, ScoresheetOptions, LiveShootExportOptions, ComparisonOptions, SeasonReportOptions } from '@/domain/ports/sharing'
+import { ShootComparison } from '@/domain/scoring/shoot_comparison'
+import { SeasonReport } from '@/domain/season_report'
 import { HistoryItem } from '@/domain/repositories/player_history'
 import { Shoot } from '../../../../shared/models/Shoot'
 
@@ -8,9 +10,13 @@ export class FakeSharingService implements SharingPort {
   public copyCalls: string[] = []
   public liveShootExportCalls: { shoot: Shoot, options: LiveShootExportOptions }[] = []
   public liveShootShareCalls: { dataUrl: string, text: string }[] = []
+  public comparisonCalls: { comparison: ShootComparison, options: ComparisonOptions }[] = []
+  public seasonReportCalls: { report: SeasonReport, options: SeasonReportOptions }[] = []
 
   public scoresheetResult = 'data:image/png;base64,fakeData'
   public liveShootExportResult = 'data:image/png;base64,fakeLiveShootData'
+  public comparisonResult = 'data:image/png;base64,fakeComparisonData'
+  public seasonReportResult = 'data:image/png;base64,fakeSeasonReportData'
   public copySuccess = true
   public isNativeSharingSupported = false
 
@@ -37,6 +43,16 @@ export class FakeSharingService implements SharingPort {
     this.liveShootShareCalls.push({ dataUrl, text })
   }
 
+  async generateComparison(comparison: ShootComparison, options: ComparisonOptions): Promise<string> {
+    this.comparisonCalls.push({ comparison, options })
+    return this.comparisonResult
+  }
+
+  async generateSeasonReport(report: SeasonReport, options: SeasonReportOptions): Promise<string> {
+    this.seasonReportCalls.push({ report, options })
+    return this.seasonReportResult
+  }
+
   canShareNatively(): boolean {
     return this.isNativeSharingSupported
   }
@@ -0,0 +1,39 @@
+import type { KeyValueStoragePort, StoredData } from '../../ports/key_value_storage';
+
+export class InMemoryStorage implements KeyValueStoragePort {
+  private data: StoredData;
+  private quota: number | null = null;
+
+  constructor(initial: StoredData = {}) {
+    this.data = structuredClone(initial);
+  }
+
+  async getAll(): Promise<StoredData> {
+    return structuredClone(this.data);
+  }
+
+  async setMany(entries: StoredData): Promise<void> {
+    const next = { ...this.data, ...structuredClone(entries) };
+    if (this.quota !== null && JSON.stringify(next).length > this.quota) {
+      throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    }
+    this.data = next;
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    await this.setMany({ [key]: value });
+  }
+
+  async remove(key: string): Promise<void> {
+    delete this.data[key];
+  }
+
+  async clear(): Promise<void> {
+    this.data = {};
+  }
+
+  // Test helper methods
+  setQuota(characters: number | null): void {
+    this.quota = characters;
+  }
+}
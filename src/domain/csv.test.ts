@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv, toCsv } from "@/domain/csv";
+
+describe("toCsv", () => {
+  it("quotes only the cells that need it", () => {
+    expect(toCsv([["Round", "Venue"], ["national", "Field, \"North\""], [1, null]]))
+      .toBe("Round,Venue\r\nnational,\"Field, \"\"North\"\"\"\r\n1,");
+  });
+});
+
+describe("parseCsv", () => {
+  it("reads back what toCsv writes", () => {
+    const rows = [["Round", "Venue"], ["national", "Field, \"North\"\non the hill"]];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+
+  it("reads semicolon and tab separated spreadsheets", () => {
+    expect(parseCsv("Date;Score\n01/06/2025;512\n")).toEqual([["Date", "Score"], ["01/06/2025", "512"]]);
+    expect(parseCsv("Date\tScore\r\n01/06/2025\t512")).toEqual([["Date", "Score"], ["01/06/2025", "512"]]);
+  });
+
+  it("drops blank lines and a byte order mark", () => {
+    expect(parseCsv("\uFEFFDate,Score\n\n,\n2025-06-01,512\n")).toEqual([["Date", "Score"], ["2025-06-01", "512"]]);
+  });
+});
@@ -0,0 +1,73 @@
+export type CsvValue = string | number | null | undefined;
+
+function formatValue(value: CsvValue): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
+
+/**
+ * Comma separated, quoting only where needed, with Windows line endings as spreadsheets expect
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(formatValue).join(",")).join("\r\n");
+}
+
+/**
+ * The separator a spreadsheet used, going by the first line. Continental spreadsheets use semicolons
+ */
+function detectSeparator(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [",", ";", "\t"].map(separator => ({ separator, count: firstLine.split(separator).length - 1 }));
+  return counts.reduce((best, candidate) => candidate.count > best.count ? candidate : best).separator;
+}
+
+/**
+ * Rows of cells, handling quoted cells with separators, quotes and line breaks in them. Blank lines are dropped
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const separator = detectSeparator(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(value => value.trim() !== "")) {
+      rows.push(row);
+    }
+    row = [];
+    cell = "";
+  };
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (quoted) {
+      if (char === "\"" && source[index + 1] === "\"") {
+        cell += "\"";
+        index++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index++;
+      }
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { importedUserSettings, parseExport, planImport, type CurrentData, type ExportedData } from "@/domain/data_import";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+function shoot(id: number, date: string, score: number, overrides: Partial<HistoryItem> = {}): HistoryItem {
+  return { id, date, score, gameType: "national", scores: [], shootStatus: "Practice", ...overrides };
+}
+
+function exported(overrides: Partial<ExportedData>): ExportedData {
+  return { history: [], notes: [], pendingNotes: [], user: null, customRounds: [], goals: [], equipment: { setups: [] }, ...overrides };
+}
+
+describe("parseExport", () => {
+  it("accepts a backup file the app saved", () => {
+    const backup = {
+      history: [{ id: 1, date: "2023-06-28", score: 318, gameType: "national 40", scores: [7, 5, 3, "M"] }],
+      notes: [{ id: "123", endNumber: 1, text: "Test note", shootId: 1, highlighted: true }],
+      user: { ageGroup: "senior", gender: "male", bowType: "recurve", classification: "A1", name: "Test Archer" }
+    };
+
+    const { data, errors } = parseExport(JSON.stringify(backup));
+
+    expect(errors).toEqual([]);
+    expect(data?.history).toEqual(backup.history);
+    expect(data?.notes[0].text).toBe("Test note");
+    expect(data?.goals).toEqual([]);
+    expect(data?.equipment).toEqual({ setups: [] });
+  });
+
+  it("says where a file doesn't fit the format", () => {
+    const { data, errors } = parseExport(JSON.stringify({
+      history: [{ id: 1, date: "someday", score: "lots", gameType: "national", scores: [] }],
+      notes: [{ id: "a" }],
+      user: []
+    }));
+
+    expect(data).toBeNull();
+    expect(errors).toEqual([
+      "history[0].date should be a date",
+      "history[0].score should be a number",
+      "notes[0].text should be text",
+      "user should be your profile"
+    ]);
+  });
+
+  it("turns away files that aren't backups", () => {
+    expect(parseExport("not json").errors).toEqual(["This isn't a backup file: it can't be read as JSON"]);
+    expect(parseExport("{}").errors).toEqual(["history should be a list of shoots"]);
+  });
+});
+
+describe("planImport", () => {
+  const current: CurrentData = {
+    history: [shoot(1, "2025-06-01", 500), shoot(2, "2025-06-02", 510)],
+    notes: [{ id: "n1", shootId: 1, text: "windy" }],
+    pendingNotes: []
+  };
+  const incoming = exported({
+    history: [
+      shoot(1, "2025-06-01", 500, { shootStatus: "Competition" }),
+      shoot(2, "2025-06-03", 520)
+    ],
+    notes: [{ id: "n2", shootId: 2, text: "new bow" }]
+  });
+
+  it("shows what replacing adds, changes and removes", () => {
+    const plan = planImport(current, incoming, "replace");
+
+    expect(plan.history).toBe(incoming.history);
+    expect(plan.added.map(item => item.date)).toEqual(["2025-06-03"]);
+    expect(plan.changed.map(item => item.date)).toEqual(["2025-06-01"]);
+    expect(plan.removed.map(item => item.date)).toEqual(["2025-06-02"]);
+    expect(plan).toMatchObject({ notesAdded: 1, notesRemoved: 1 });
+  });
+
+  it("merges in only the shoots that aren't already here, with their notes", () => {
+    const plan = planImport(current, incoming, "merge");
+
+    expect(plan.history.map(item => [item.id, item.date])).toEqual([
+      [1, "2025-06-01"], [2, "2025-06-02"], [3, "2025-06-03"]
+    ]);
+    expect(plan.notes).toEqual([...current.notes, { id: "n2", shootId: 3, text: "new bow" }]);
+    expect(plan).toMatchObject({ changed: [], removed: [], notesAdded: 1 });
+  });
+
+  it("keeps the notes of a shoot that was already here with that shoot", () => {
+    const plan = planImport(current, exported({
+      history: [shoot(7, "2025-06-02", 510)],
+      notes: [{ id: "n3", shootId: 7, text: "tired" }]
+    }), "merge");
+
+    expect(plan.added).toEqual([]);
+    expect(plan.notes[1]).toMatchObject({ shootId: 2 });
+  });
+});
+
+describe("importedUserSettings", () => {
+  it("brings an old single classification over as outdoor", () => {
+    const settings = importedUserSettings({ bowType: "recurve", classification: "A1" });
+
+    expect(settings.outdoorClassifications).toEqual({ recurve: "A1" });
+    expect(settings.indoorClassifications).toEqual({ recurve: "Unclassified" });
+    expect(settings).toMatchObject({ constructiveCriticism: true, knockColor: "#FF69B4", numberedArrows: 0 });
+  });
+});
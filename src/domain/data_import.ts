@@ -0,0 +1,301 @@
+import type { EquipmentSetup } from "@/domain/equipment";
+import type { Goal } from "@/domain/goals";
+import { shootKey } from "@/domain/history_csv";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+import type { GameTypeBase } from "@/domain/scoring/game_types";
+import { calculateDefaultSeasonDates } from "@/domain/season_dates";
+import { isValidShootStatus } from "@/domain/shoot/shoot_status";
+
+export interface ExportedNote {
+  id: string | number;
+  shootId?: number | string;
+  endNumber?: number;
+  text: string;
+  timestamp?: string;
+  highlighted?: boolean;
+}
+
+export interface ExportedUser {
+  ageGroup?: string;
+  gender?: string;
+  bowType?: string;
+  classification?: string; // before classifications were kept by bow and season
+  indoorClassifications?: Record<string, string>;
+  outdoorClassifications?: Record<string, string>;
+  indoorSeasonStartDate?: string;
+  outdoorSeasonStartDate?: string;
+  name?: string;
+  constructiveCriticism?: boolean;
+  experimentalTargetFace?: boolean;
+  knockColor?: string;
+  numberedArrows?: number;
+}
+
+export interface ExportedEquipment {
+  setups: EquipmentSetup[];
+  activeSetupId?: string;
+}
+
+/**
+ * A backup file, as Data Management saves it, with anything older files leave out filled in
+ */
+export interface ExportedData {
+  history: HistoryItem[];
+  notes: ExportedNote[];
+  pendingNotes: ExportedNote[];
+  user: ExportedUser | null;
+  customRounds: GameTypeBase[];
+  goals: Goal[];
+  equipment: ExportedEquipment;
+}
+
+// Enough to see what is wrong without listing every shoot of a broken file
+const MAX_ERRORS = 10;
+
+type Fields = Record<string, unknown>;
+
+function isObject(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isId(value: unknown): boolean {
+  return typeof value === "string" || (typeof value === "number" && Number.isFinite(value));
+}
+
+class SchemaErrors {
+  readonly messages: string[] = [];
+
+  check(valid: boolean, path: string, expected: string) {
+    if (!valid && this.messages.length < MAX_ERRORS) {
+      this.messages.push(`${path} should be ${expected}`);
+    }
+  }
+}
+
+function checkShoot(item: unknown, path: string, errors: SchemaErrors) {
+  if (!isObject(item)) {
+    errors.check(false, path, "a shoot");
+    return;
+  }
+  errors.check(isId(item.id), `${path}.id`, "a number or text");
+  errors.check(typeof item.date === "string" && !isNaN(Date.parse(item.date)), `${path}.date`, "a date");
+  errors.check(typeof item.score === "number" && Number.isFinite(item.score), `${path}.score`, "a number");
+  errors.check(typeof item.gameType === "string" && item.gameType !== "", `${path}.gameType`, "a round name");
+  errors.check(item.scores === undefined || Array.isArray(item.scores), `${path}.scores`, "a list of arrow scores");
+  errors.check(
+    item.shootStatus === undefined || (typeof item.shootStatus === "string" && isValidShootStatus(item.shootStatus)),
+    `${path}.shootStatus`, "Practice, Competition or RecordStatus"
+  );
+}
+
+function checkNote(note: unknown, path: string, errors: SchemaErrors) {
+  if (!isObject(note)) {
+    errors.check(false, path, "a note");
+    return;
+  }
+  errors.check(isId(note.id), `${path}.id`, "a number or text");
+  errors.check(typeof note.text === "string", `${path}.text`, "text");
+  errors.check(note.shootId === undefined || isId(note.shootId), `${path}.shootId`, "a number or text");
+}
+
+function checkList(value: unknown, path: string, errors: SchemaErrors, checkItem: (item: unknown, path: string, errors: SchemaErrors) => void) {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    errors.check(false, path, "a list");
+    return;
+  }
+  value.forEach((item, index) => checkItem(item, `${path}[${index}]`, errors));
+}
+
+/**
+ * Check a backup file is one the app can import before anything is changed
+ * @returns the data, or what is wrong with it
+ */
+export function parseExport(text: string): { data: ExportedData | null; errors: string[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { data: null, errors: ["This isn't a backup file: it can't be read as JSON"] };
+  }
+  if (!isObject(raw)) {
+    return { data: null, errors: ["This isn't a backup file"] };
+  }
+
+  const errors = new SchemaErrors();
+  errors.check(Array.isArray(raw.history), "history", "a list of shoots");
+  checkList(raw.history, "history", errors, checkShoot);
+  checkList(raw.notes, "notes", errors, checkNote);
+  checkList(raw.pendingNotes, "pendingNotes", errors, checkNote);
+  errors.check(raw.user === undefined || isObject(raw.user), "user", "your profile");
+  checkList(raw.customRounds, "customRounds", errors, (round, path) => {
+    errors.check(isObject(round) && typeof round.name === "string", `${path}.name`, "a round name");
+  });
+  checkList(raw.goals, "goals", errors, (goal, path) => {
+    errors.check(isObject(goal) && isId(goal.id) && typeof goal.type === "string", path, "a goal");
+  });
+  errors.check(raw.equipment === undefined || isObject(raw.equipment), "equipment", "your equipment");
+  if (isObject(raw.equipment)) {
+    checkList(raw.equipment.setups, "equipment.setups", errors, (setup, path) => {
+      errors.check(isObject(setup) && typeof setup.id === "string" && typeof setup.name === "string", path, "a setup");
+    });
+  }
+
+  if (errors.messages.length > 0) {
+    return { data: null, errors: errors.messages };
+  }
+
+  return {
+    data: {
+      history: (raw.history as HistoryItem[]).map(item => ({ ...item, scores: item.scores ?? [] })),
+      notes: (raw.notes as ExportedNote[] | undefined) ?? [],
+      pendingNotes: (raw.pendingNotes as ExportedNote[] | undefined) ?? [],
+      user: (raw.user as ExportedUser | undefined) ?? null,
+      customRounds: (raw.customRounds as GameTypeBase[] | undefined) ?? [],
+      goals: (raw.goals as Goal[] | undefined) ?? [],
+      equipment: isObject(raw.equipment)
+        ? { ...raw.equipment, setups: (raw.equipment.setups as EquipmentSetup[] | undefined) ?? [] }
+        : { setups: [] }
+    },
+    errors: []
+  };
+}
+
+export type ImportMode = "replace" | "merge";
+
+export interface ImportPlan {
+  mode: ImportMode;
+  history: HistoryItem[];
+  notes: ExportedNote[];
+  pendingNotes: ExportedNote[];
+  added: HistoryItem[];
+  changed: HistoryItem[]; // in both, but saved differently
+  removed: HistoryItem[];
+  notesAdded: number;
+  notesRemoved: number;
+}
+
+export interface CurrentData {
+  history: HistoryItem[];
+  notes: ExportedNote[];
+  pendingNotes: ExportedNote[];
+}
+
+const editable = (item: HistoryItem) => JSON.stringify([item.shootStatus, item.scores, item.userProfile?.bowType]);
+
+function savedDifferently(a: HistoryItem, b: HistoryItem): boolean {
+  return editable(a) !== editable(b);
+}
+
+/**
+ * The shoots in a history and what can be changed about them, to tell whether anything has been shot, edited or
+ * deleted since
+ */
+export function historyFingerprint(history: HistoryItem[]): string {
+  return history
+    .map(item => `${item.id}|${shootKey(item)}|${editable(item)}`)
+    .sort()
+    .join("\n");
+}
+
+function planReplace(current: CurrentData, incoming: ExportedData): ImportPlan {
+  const currentByKey = new Map(current.history.map(item => [shootKey(item), item]));
+  const incomingKeys = new Set(incoming.history.map(shootKey));
+  const currentNoteIds = new Set(current.notes.map(note => note.id));
+  const incomingNoteIds = new Set(incoming.notes.map(note => note.id));
+
+  return {
+    mode: "replace",
+    history: incoming.history,
+    notes: incoming.notes,
+    pendingNotes: incoming.pendingNotes,
+    added: incoming.history.filter(item => !currentByKey.has(shootKey(item))),
+    changed: incoming.history.filter(item => {
+      const existing = currentByKey.get(shootKey(item));
+      return existing !== undefined && savedDifferently(existing, item);
+    }),
+    removed: current.history.filter(item => !incomingKeys.has(shootKey(item))),
+    notesAdded: incoming.notes.filter(note => !currentNoteIds.has(note.id)).length,
+    notesRemoved: current.notes.filter(note => !incomingNoteIds.has(note.id)).length
+  };
+}
+
+function planMerge(current: CurrentData, incoming: ExportedData): ImportPlan {
+  const currentByKey = new Map(current.history.map(item => [shootKey(item), item]));
+  let lastId = Math.max(0, ...current.history.map(item => Number(item.id)).filter(id => !isNaN(id)));
+
+  // Where each imported shoot ends up, so its notes follow it
+  const shootIds = new Map<number | string, number | string>();
+  const added: HistoryItem[] = [];
+  incoming.history.forEach(item => {
+    const existing = currentByKey.get(shootKey(item));
+    if (existing) {
+      shootIds.set(item.id, existing.id);
+      return;
+    }
+    const shoot = { ...item, id: ++lastId };
+    currentByKey.set(shootKey(shoot), shoot);
+    shootIds.set(item.id, shoot.id);
+    added.push(shoot);
+  });
+
+  const noteIds = new Set(current.notes.map(note => note.id));
+  const notes = incoming.notes
+    .filter(note => !noteIds.has(note.id))
+    .map(note => note.shootId === undefined ? note : { ...note, shootId: shootIds.get(note.shootId) ?? note.shootId });
+
+  return {
+    mode: "merge",
+    history: [...current.history, ...added],
+    notes: [...current.notes, ...notes],
+    pendingNotes: current.pendingNotes,
+    added,
+    changed: [],
+    removed: [],
+    notesAdded: notes.length,
+    notesRemoved: 0
+  };
+}
+
+/**
+ * What importing a backup would do. Replacing swaps everything for the backup; merging adds the shoots and notes
+ * that aren't already here, matching shoots by round, day and score
+ */
+export function planImport(current: CurrentData, incoming: ExportedData, mode: ImportMode): ImportPlan {
+  return mode === "replace" ? planReplace(current, incoming) : planMerge(current, incoming);
+}
+
+/**
+ * The profile from a backup, with older files brought up to date and anything missing defaulted
+ */
+export function importedUserSettings(user: ExportedUser) {
+  let indoorClassifications = user.indoorClassifications || {};
+  let outdoorClassifications = user.outdoorClassifications || {};
+
+  // Before classifications were kept by bow and season, the one classification was outdoor
+  if (user.classification && user.bowType &&
+    (!outdoorClassifications[user.bowType] || outdoorClassifications[user.bowType] === "Unclassified")) {
+    outdoorClassifications = { ...outdoorClassifications, [user.bowType]: user.classification };
+    if (!indoorClassifications[user.bowType]) {
+      indoorClassifications = { ...indoorClassifications, [user.bowType]: "Unclassified" };
+    }
+  }
+
+  const defaultSeasons = calculateDefaultSeasonDates();
+  return {
+    ageGroup: user.ageGroup,
+    gender: user.gender,
+    bowType: user.bowType,
+    indoorClassifications,
+    outdoorClassifications,
+    indoorSeasonStartDate: user.indoorSeasonStartDate || defaultSeasons.indoor,
+    outdoorSeasonStartDate: user.outdoorSeasonStartDate || defaultSeasons.outdoor,
+    name: user.name || "",
+    constructiveCriticism: user.constructiveCriticism !== undefined ? user.constructiveCriticism : true,
+    experimentalTargetFace: user.experimentalTargetFace || false,
+    knockColor: user.knockColor || "#FF69B4",
+    numberedArrows: user.numberedArrows || 0
+  };
+}
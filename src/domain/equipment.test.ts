@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { compareSetups, describeSetup, setupsUsed, validateSetup, type EquipmentSetup } from "@/domain/equipment";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+const outdoor: EquipmentSetup = {
+  id: "outdoor",
+  name: "Outdoor",
+  bow: "Hoyt Formula",
+  drawWeight: 38,
+  arrows: "X10",
+  spine: "600",
+  arrowLength: 29,
+  pointWeight: 110,
+  sight: "Shibuya"
+};
+
+function shoot(date: string, handicap: number | undefined, equipment?: EquipmentSetup): HistoryItem {
+  return { id: date, date, score: 500, gameType: "wa 70", scores: Array(72).fill(8), handicap, equipment };
+}
+
+describe("validateSetup", () => {
+  it("needs a name no other setup has", () => {
+    expect(validateSetup({ name: " " }, [])).toEqual(["Give the setup a name"]);
+    expect(validateSetup({ name: "outdoor" }, [outdoor])).toEqual(["There is already a setup called outdoor"]);
+    expect(validateSetup({ name: "Indoor" }, [outdoor])).toEqual([]);
+  });
+
+  it("turns away measurements that can't be right", () => {
+    expect(validateSetup({ name: "Indoor", drawWeight: 0, arrowLength: -1, pointWeight: NaN }, [])).toEqual([
+      "Draw weight should be more than 0lb",
+      "Arrow length should be more than 0 inches",
+      "Point weight should be more than 0 grains"
+    ]);
+  });
+});
+
+describe("describeSetup", () => {
+  it("puts what is known on one line", () => {
+    expect(describeSetup(outdoor)).toBe("Hoyt Formula · 38lb · X10 600 spine 29in 110gr · Shibuya");
+    expect(describeSetup({ id: "bare", name: "Bare", drawWeight: 30 })).toBe("30lb");
+  });
+});
+
+describe("setupsUsed", () => {
+  it("lists each setup once, by the name it was last shot under", () => {
+    const history = [
+      shoot("2025-05-01", 40, { ...outdoor, name: "Summer" }),
+      shoot("2025-06-01", 38, outdoor),
+      shoot("2025-04-01", 45, { id: "old", name: "Old limbs" }),
+      shoot("2025-06-02", 50)
+    ];
+
+    expect(setupsUsed(history)).toEqual([{ id: "outdoor", name: "Outdoor" }, { id: "old", name: "Old limbs" }]);
+  });
+});
+
+describe("compareSetups", () => {
+  it("sums up how each setup has shot", () => {
+    const history = [
+      shoot("2025-05-01", 40, outdoor),
+      shoot("2025-06-01", 37, outdoor),
+      shoot("2025-06-10", undefined, outdoor),
+      shoot("2025-04-01", 45, { id: "old", name: "Old limbs" })
+    ];
+
+    expect(compareSetups(history)).toEqual([
+      {
+        setup: { id: "outdoor", name: "Outdoor" },
+        shoots: 3,
+        arrows: 216,
+        averageHandicap: 38.5,
+        bestHandicap: 37,
+        firstUsed: "2025-05-01",
+        lastUsed: "2025-06-10"
+      },
+      {
+        setup: { id: "old", name: "Old limbs" },
+        shoots: 1,
+        arrows: 72,
+        averageHandicap: 45,
+        bestHandicap: 45,
+        firstUsed: "2025-04-01",
+        lastUsed: "2025-04-01"
+      }
+    ]);
+  });
+});
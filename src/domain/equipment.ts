@@ -0,0 +1,118 @@
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+/**
+ * A bow as it is set up. Each shoot keeps a copy, so changing the setup later doesn't rewrite what was shot with it
+ */
+export interface EquipmentSetup {
+  id: string;
+  name: string;
+  bowType?: string;
+  bow?: string; // riser and limbs
+  drawWeight?: number; // pounds, on the fingers
+  arrows?: string; // make and model
+  spine?: string;
+  arrowLength?: number; // inches
+  pointWeight?: number; // grains
+  sight?: string;
+  tabOrRelease?: string;
+}
+
+// Enough of a setup to show and filter by, as sight marks keep it
+export type EquipmentStamp = Pick<EquipmentSetup, "id" | "name">;
+
+function isPositiveOrBlank(value: number | undefined): boolean {
+  return value === undefined || (Number.isFinite(value) && value > 0);
+}
+
+/**
+ * @returns what is wrong with a setup, empty when it can be saved
+ */
+export function validateSetup(setup: Omit<EquipmentSetup, "id">, otherSetups: EquipmentSetup[]): string[] {
+  const errors: string[] = [];
+  const name = setup.name.trim();
+  if (name === "") {
+    errors.push("Give the setup a name");
+  } else if (otherSetups.some(other => other.name.trim().toLowerCase() === name.toLowerCase())) {
+    errors.push(`There is already a setup called ${name}`);
+  }
+  if (!isPositiveOrBlank(setup.drawWeight)) {
+    errors.push("Draw weight should be more than 0lb");
+  }
+  if (!isPositiveOrBlank(setup.arrowLength)) {
+    errors.push("Arrow length should be more than 0 inches");
+  }
+  if (!isPositiveOrBlank(setup.pointWeight)) {
+    errors.push("Point weight should be more than 0 grains");
+  }
+  return errors;
+}
+
+/**
+ * One line for a setup, such as "Hoyt Formula · 38lb · X10 600 spine 29in 110gr · Shibuya"
+ */
+export function describeSetup(setup: EquipmentSetup): string {
+  const arrows = [
+    setup.arrows,
+    setup.spine && `${setup.spine} spine`,
+    setup.arrowLength && `${setup.arrowLength}in`,
+    setup.pointWeight && `${setup.pointWeight}gr`
+  ].filter(Boolean).join(" ");
+  return [setup.bow, setup.drawWeight && `${setup.drawWeight}lb`, arrows, setup.sight, setup.tabOrRelease]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * The setups shoots were shot with, the most recently used first, each by the name it was last shot under
+ */
+export function setupsUsed(history: HistoryItem[]): EquipmentStamp[] {
+  const latest = new Map<string, { name: string; date: string }>();
+  history.forEach(item => {
+    const equipment = item.equipment;
+    if (!equipment) {
+      return;
+    }
+    const seen = latest.get(equipment.id);
+    if (!seen || item.date > seen.date) {
+      latest.set(equipment.id, { name: equipment.name, date: item.date });
+    }
+  });
+  return [...latest.entries()]
+    .sort(([, a], [, b]) => b.date.localeCompare(a.date))
+    .map(([id, { name }]) => ({ id, name }));
+}
+
+export interface SetupComparison {
+  setup: EquipmentStamp;
+  shoots: number;
+  arrows: number;
+  averageHandicap: number | null;
+  bestHandicap: number | null;
+  firstUsed: string;
+  lastUsed: string;
+}
+
+/**
+ * How each setup has shot. Handicaps line up across rounds, so they are what is compared, lower being better
+ */
+export function compareSetups(history: HistoryItem[]): SetupComparison[] {
+  return setupsUsed(history).map(setup => {
+    const shoots = history
+      .filter(item => item.equipment?.id === setup.id)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const handicaps = shoots
+      .map(item => item.handicap)
+      .filter((handicap): handicap is number => typeof handicap === "number" && Number.isFinite(handicap));
+    return {
+      setup,
+      shoots: shoots.length,
+      arrows: shoots.reduce((total, item) => total + (item.scores?.length ?? 0), 0),
+      averageHandicap: handicaps.length
+        ? Math.round(handicaps.reduce((total, handicap) => total + handicap, 0) / handicaps.length * 10) / 10
+        : null,
+      bestHandicap: handicaps.length ? Math.min(...handicaps) : null,
+      firstUsed: shoots[0].date.substring(0, 10),
+      lastUsed: shoots[shoots.length - 1].date.substring(0, 10)
+    };
+  });
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { describeGoal, goalProgress, goalsToRemind, validateGoal, type Goal, type GoalContext } from "@/domain/goals";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+let nextId = 1;
+
+function shoot(date: string, gameType: string, overrides: Partial<HistoryItem> = {}): HistoryItem {
+  return {
+    id: nextId++,
+    date,
+    score: 0,
+    gameType,
+    scores: Array(72).fill(9),
+    shootStatus: "Competition",
+    userProfile: { bowType: "recurve" },
+    ...overrides
+  };
+}
+
+function context(history: HistoryItem[], today: string): GoalContext {
+  return {
+    history,
+    indoorSeasonStartDate: "2024-10-01",
+    outdoorSeasonStartDate: "2025-04-01",
+    today: new Date(`${today}T12:00:00`)
+  };
+}
+
+const arrowsThisMonth: Goal = { id: "arrows", type: "arrows", startDate: "2025-06-01", deadline: "2025-06-30", arrows: 1000 };
+
+describe("goalProgress", () => {
+  it("counts the arrows shot since the goal started", () => {
+    const history = [shoot("2025-05-31", "national"), shoot("2025-06-02", "national"), shoot("2025-06-10", "national")];
+
+    const progress = goalProgress(arrowsThisMonth, context(history, "2025-06-10"));
+
+    expect(progress.summary).toBe("144 of 1,000 arrows");
+    expect(progress.progress).toBeCloseTo(0.144);
+  });
+
+  it("is on track while keeping up with the deadline", () => {
+    const history = Array.from({ length: 5 }, (_, day) => shoot(`2025-06-0${day + 1}`, "national"));
+
+    expect(goalProgress(arrowsThisMonth, context(history, "2025-06-10")).status).toBe("on-track");
+  });
+
+  it("is off track when falling behind", () => {
+    expect(goalProgress(arrowsThisMonth, context([shoot("2025-06-02", "national")], "2025-06-20")).status).toBe("off-track");
+  });
+
+  it("is achieved once reached", () => {
+    const history = Array.from({ length: 14 }, (_, day) => shoot(`2025-06-${String(day + 1).padStart(2, "0")}`, "national"));
+
+    expect(goalProgress(arrowsThisMonth, context(history, "2025-06-15")).status).toBe("achieved");
+  });
+
+  it("is missed after the deadline", () => {
+    expect(goalProgress(arrowsThisMonth, context([], "2025-07-01")).status).toBe("missed");
+  });
+
+  it("is reached with one shoot at the standard on the round", () => {
+    const goal: Goal = {
+      id: "b2", type: "classification", startDate: "2025-04-01", deadline: "2025-07-31",
+      bowType: "recurve", classification: "B2", gameType: "western"
+    };
+    const history = [
+      shoot("2025-03-01", "western", { classification: { name: "A1", scheme: "AGB" } }),
+      shoot("2025-05-01", "western", { classification: { name: "B3", scheme: "AGB" } })
+    ];
+
+    const progress = goalProgress(goal, context(history, "2025-05-02"));
+
+    // A1 to B3 is half way to B2
+    expect(progress.progress).toBe(0.5);
+    expect(progress.summary).toBe("Best so far B3");
+
+    history.push(shoot("2025-06-01", "western", { classification: { name: "B1", scheme: "AGB" } }));
+    expect(goalProgress(goal, context(history, "2025-06-02")).status).toBe("achieved");
+  });
+
+  it("tracks a classification by the dozens shot at its standard this season", () => {
+    const goal: Goal = {
+      id: "b3", type: "classification", startDate: "2025-04-01", deadline: "2025-09-30",
+      bowType: "recurve", environment: "outdoor", classification: "B3"
+    };
+    const history = [shoot("2025-05-01", "western", { classification: { name: "B3", scheme: "AGB" } })];
+
+    const progress = goalProgress(goal, context(history, "2025-05-02"));
+
+    // six dozen of the eighteen a B3 asks for
+    expect(progress.summary).toBe("6 of 18 dozen at B3 standard");
+  });
+
+  it("closes the gap to a handicap", () => {
+    const goal: Goal = {
+      id: "hc", type: "handicap", startDate: "2025-04-01", deadline: "2025-09-30",
+      bowType: "recurve", environment: "outdoor", handicap: 40
+    };
+    const history = [
+      ...["2025-01-01", "2025-02-01", "2025-03-01"].map(date => shoot(date, "western", { handicap: 50, scores: [] })),
+      ...["2025-05-01", "2025-06-01"].map(date => shoot(date, "western", { handicap: 40, scores: [] }))
+    ];
+
+    const progress = goalProgress(goal, context(history, "2025-06-02"));
+
+    // best three of 50, 40, 40 is 44 rounded up, six of the ten points from 50
+    expect(progress.progress).toBeCloseTo(0.6);
+    expect(progress.summary).toBe("Handicap 44, aiming for 40");
+  });
+});
+
+describe("goalsToRemind", () => {
+  const offTrack = goalProgress(arrowsThisMonth, context([], "2025-06-20"));
+
+  it("reminds about off track goals", () => {
+    expect(goalsToRemind([offTrack], {}, new Date("2025-06-20"))).toHaveLength(1);
+  });
+
+  it("waits a week between reminders", () => {
+    expect(goalsToRemind([offTrack], { arrows: "2025-06-15" }, new Date("2025-06-20"))).toHaveLength(0);
+    expect(goalsToRemind([offTrack], { arrows: "2025-06-12" }, new Date("2025-06-20"))).toHaveLength(1);
+  });
+});
+
+describe("describeGoal", () => {
+  it("reads like the goal was set", () => {
+    expect(describeGoal({ ...arrowsThisMonth, arrows: 3000 })).toBe("3,000 arrows");
+    expect(describeGoal({ ...arrowsThisMonth, type: "classification", classification: "B2", gameType: "western" })).toBe("B2 on a Western");
+    expect(describeGoal({ ...arrowsThisMonth, type: "handicap", handicap: 40, environment: "outdoor" })).toBe("Handicap 40 outdoor");
+  });
+});
+
+describe("validateGoal", () => {
+  it("needs a target and a deadline after the start", () => {
+    expect(validateGoal({ ...arrowsThisMonth, arrows: 0 })).toEqual(["Set how many arrows to shoot"]);
+    expect(validateGoal({ ...arrowsThisMonth, deadline: "2025-05-01" })).toEqual(["The deadline must be after the start date"]);
+    expect(validateGoal({ type: "classification", startDate: "2025-06-01", deadline: "2025-07-01", classification: "PB" }))
+      .toEqual(["Choose a classification", "Choose a bow"]);
+  });
+});
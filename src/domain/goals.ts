@@ -0,0 +1,209 @@
+import type { HistoryItem } from "@/domain/repositories/player_history";
+import { calculateClassificationProgress } from "@/domain/scoring/classification_progress";
+import { classificationList, classificationListWithoutPB, getClassificationIndex } from "@/domain/scoring/classificationList";
+import { calculateRollingHandicap, type Environment } from "@/domain/scoring/season_handicap";
+import { roundConfigManager } from "@/domain/scoring/game_types";
+import { formatRoundName } from "@/domain/scoring/round/formatting";
+
+export type GoalType = "classification" | "arrows" | "handicap";
+export type GoalStatus = "achieved" | "on-track" | "off-track" | "missed";
+
+export interface Goal {
+  id: string;
+  type: GoalType;
+  startDate: string; // YYYY-MM-DD, only shooting from here on counts
+  deadline: string; // YYYY-MM-DD, the last day to do it on
+  bowType?: string;
+  environment?: Environment;
+  classification?: string; // classification goals
+  gameType?: string | null; // classification goals on one round, otherwise the classification itself
+  arrows?: number; // arrow count goals
+  handicap?: number; // handicap goals
+}
+
+export interface GoalContext {
+  history: HistoryItem[];
+  indoorSeasonStartDate: string;
+  outdoorSeasonStartDate: string;
+  today?: Date;
+}
+
+export interface GoalProgress {
+  goal: Goal;
+  status: GoalStatus;
+  progress: number; // 0 to 1
+  expected: number; // how far along it should be by now, 0 to 1
+  summary: string;
+}
+
+// A little behind the straight line to the deadline is still on track
+const OFF_TRACK_SLACK = 0.1;
+export const REMINDER_INTERVAL_DAYS = 7;
+const DAY = 24 * 60 * 60 * 1000;
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function startOfDay(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+function endOfDay(date: string): number {
+  return startOfDay(date) + DAY;
+}
+
+function shotDuring(item: HistoryItem, goal: Goal, today: Date): boolean {
+  const time = new Date(item.date).getTime();
+  return time >= startOfDay(goal.startDate) && time < Math.min(endOfDay(goal.deadline), today.getTime() + DAY);
+}
+
+function withBow(history: HistoryItem[], goal: Goal): HistoryItem[] {
+  return goal.bowType ? history.filter(item => item.userProfile?.bowType === goal.bowType) : history;
+}
+
+export function describeGoal(goal: Goal): string {
+  switch (goal.type) {
+    case "classification":
+      return goal.gameType
+        ? `${goal.classification} on a ${formatRoundName(goal.gameType)}`
+        : `${goal.classification} ${goal.environment ?? ""} classification`.replace(/\s+/g, " ");
+    case "arrows":
+      return `${(goal.arrows ?? 0).toLocaleString()} arrows`;
+    case "handicap":
+      return `Handicap ${goal.handicap}${goal.environment ? ` ${goal.environment}` : ""}`;
+  }
+}
+
+function arrowsProgress(goal: Goal, context: GoalContext, today: Date): Pick<GoalProgress, "progress" | "summary"> {
+  const shot = withBow(context.history, goal)
+    .filter(item => shotDuring(item, goal, today))
+    .reduce((total, item) => total + (item.scores?.length ?? 0), 0);
+  const target = goal.arrows ?? 0;
+  return {
+    progress: target > 0 ? clamp(shot / target) : 1,
+    summary: `${shot.toLocaleString()} of ${target.toLocaleString()} arrows`
+  };
+}
+
+function handicapProgress(goal: Goal, context: GoalContext, today: Date): Pick<GoalProgress, "progress" | "summary"> {
+  const target = goal.handicap ?? 0;
+  const points = calculateRollingHandicap(context.history, goal.bowType ?? "", goal.environment ?? "outdoor");
+  const before = points.filter(point => new Date(point.date).getTime() < startOfDay(goal.startDate));
+  const during = points.filter(point => {
+    const time = new Date(point.date).getTime();
+    return time >= startOfDay(goal.startDate) && time <= today.getTime() + DAY;
+  });
+  const current = during.length ? during[during.length - 1].handicap : before[before.length - 1]?.handicap;
+  if (current === undefined) {
+    return { progress: 0, summary: "No handicap yet" };
+  }
+
+  // Lower is better, so progress is how much of the gap from the starting handicap has closed
+  const start = before.length ? before[before.length - 1].handicap : (during[0]?.handicap ?? current);
+  const progress = current <= target ? 1 : start <= target || start === current ? 0 : clamp((start - current) / (start - target));
+  return { progress, summary: `Handicap ${current}, aiming for ${target}` };
+}
+
+function classificationProgress(goal: Goal, context: GoalContext, today: Date): Pick<GoalProgress, "progress" | "summary"> {
+  const target = goal.classification ?? "";
+  const targetIndex = getClassificationIndex(target);
+  const shoots = withBow(context.history, goal);
+
+  if (goal.gameType) {
+    // One shoot of the round at the standard does it
+    const bestIndex = (items: HistoryItem[]) => Math.max(-1, ...items
+      .filter(item => item.gameType === goal.gameType && item.classification?.name)
+      .map(item => getClassificationIndex(item.classification!.name)));
+    const startIndex = bestIndex(shoots.filter(item => new Date(item.date).getTime() < startOfDay(goal.startDate)));
+    const best = bestIndex(shoots.filter(item => shotDuring(item, goal, today)));
+    const progress = best >= targetIndex ? 1 : best <= startIndex ? 0 : clamp((best - startIndex) / (targetIndex - startIndex));
+    return {
+      progress,
+      summary: best >= 0 ? `Best so far ${classificationList[best]}` : "Not shot at a classification standard yet"
+    };
+  }
+
+  // Otherwise it takes the dozens of arrows at that standard the classification asks for in a season
+  const environment = goal.environment ?? "outdoor";
+  const seasonStartDate = environment === "indoor" ? context.indoorSeasonStartDate : context.outdoorSeasonStartDate;
+  const classificationBelow = targetIndex > 0 ? classificationList[targetIndex - 1] : "Unclassified";
+  const { dozenArrowsShot, dozenArrowsRequired } = calculateClassificationProgress(
+    shoots, goal.bowType, classificationBelow, environment, seasonStartDate
+  );
+  return {
+    progress: dozenArrowsRequired > 0 ? clamp(dozenArrowsShot / dozenArrowsRequired) : 0,
+    summary: `${Math.floor(dozenArrowsShot)} of ${dozenArrowsRequired} dozen at ${target} standard`
+  };
+}
+
+/**
+ * How a goal is coming along, against a steady line from its start to its deadline
+ */
+export function goalProgress(goal: Goal, context: GoalContext): GoalProgress {
+  const today = context.today ?? new Date();
+  const { progress, summary } = goal.type === "arrows"
+    ? arrowsProgress(goal, context, today)
+    : goal.type === "handicap"
+      ? handicapProgress(goal, context, today)
+      : classificationProgress(goal, context, today);
+
+  const length = endOfDay(goal.deadline) - startOfDay(goal.startDate);
+  const expected = length > 0 ? clamp((today.getTime() - startOfDay(goal.startDate)) / length) : 1;
+
+  let status: GoalStatus = "on-track";
+  if (progress >= 1) {
+    status = "achieved";
+  } else if (today.getTime() >= endOfDay(goal.deadline)) {
+    status = "missed";
+  } else if (progress < expected - OFF_TRACK_SLACK) {
+    status = "off-track";
+  }
+
+  return { goal, status, progress, expected, summary };
+}
+
+/**
+ * Off-track goals the archer hasn't been reminded about for a while
+ * @param lastReminded when each goal was last reminded about, by goal id
+ */
+export function goalsToRemind(progresses: GoalProgress[], lastReminded: Record<string, string>, today = new Date()): GoalProgress[] {
+  return progresses.filter(progress => {
+    if (progress.status !== "off-track") {
+      return false;
+    }
+    const reminded = lastReminded[progress.goal.id];
+    return !reminded || today.getTime() - new Date(reminded).getTime() >= REMINDER_INTERVAL_DAYS * DAY;
+  });
+}
+
+/**
+ * @returns what is wrong with a goal, empty when it can be saved
+ */
+export function validateGoal(goal: Omit<Goal, "id">): string[] {
+  const errors: string[] = [];
+  if (!goal.startDate || !goal.deadline) {
+    errors.push("A goal needs a start date and a deadline");
+  } else if (goal.deadline < goal.startDate) {
+    errors.push("The deadline must be after the start date");
+  }
+
+  if (goal.type === "arrows" && !(Number(goal.arrows) > 0)) {
+    errors.push("Set how many arrows to shoot");
+  }
+  if (goal.type === "handicap" && !(Number(goal.handicap) >= 0)) {
+    errors.push("Set the handicap to reach");
+  }
+  if (goal.type === "classification") {
+    if (!classificationListWithoutPB.includes(goal.classification ?? "")) {
+      errors.push("Choose a classification");
+    }
+    if (goal.gameType && !roundConfigManager.getRound(goal.gameType)) {
+      errors.push("Choose a round");
+    }
+  }
+  if ((goal.type === "handicap" || goal.type === "classification") && !goal.bowType) {
+    errors.push("Choose a bow");
+  }
+  return errors;
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "@/domain/csv";
+import {
+  addImportedShoots,
+  arrowsToCsv,
+  guessColumnMapping,
+  historyToCsv,
+  parseImportDate,
+  readShoots,
+  validateMapping,
+  withoutDuplicates
+} from "@/domain/history_csv";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+const shoot: HistoryItem = {
+  id: 3,
+  date: "2025-06-01",
+  score: 28,
+  gameType: "portsmouth",
+  scores: ["X", 10, 8],
+  shootStatus: "RecordStatus",
+  classification: { name: "B3", scheme: "AGB" },
+  handicap: 45,
+  location: { latitude: 0, longitude: 0, placeName: "Field, North", timestamp: 0 },
+  userProfile: { bowType: "compound" }
+};
+
+describe("historyToCsv", () => {
+  it("writes a row a shoot", () => {
+    expect(parseCsv(historyToCsv([shoot]))).toEqual([
+      ["Date", "Round", "Score", "Hits", "Golds", "Xs", "Status", "Classification", "Handicap", "Venue", "Bow type"],
+      ["2025-06-01", "Portsmouth", "28", "3", "2", "1", "Record Status", "B3", "45", "Field, North", "compound"]
+    ]);
+  });
+
+  it("leaves the arrow counts blank for a score entered as a total", () => {
+    const [, row] = parseCsv(historyToCsv([{ ...shoot, scores: [] }]));
+
+    expect(row.slice(3, 6)).toEqual(["", "", ""]);
+  });
+});
+
+describe("arrowsToCsv", () => {
+  it("writes a row an arrow, with where it landed when the whole end was plotted", () => {
+    const plots = [
+      { end: 0, position: { x: 10, y: 20 }, faceWidth: 300 },
+      { end: 0, position: { x: 11, y: 21 }, faceWidth: 300, shaft: 4 },
+      { end: 0, position: { x: 12, y: 22 }, faceWidth: 300 }
+    ];
+
+    const [, , second] = parseCsv(arrowsToCsv([shoot], () => plots));
+
+    expect(second).toEqual(["3", "2025-06-01", "Portsmouth", "1", "2", "10", "11", "21", "300", "4"]);
+  });
+
+  it("leaves out positions when only some of the end was plotted", () => {
+    const [, first] = parseCsv(arrowsToCsv([shoot], () => [{ end: 0, position: { x: 10, y: 20 } }]));
+
+    expect(first.slice(6)).toEqual(["", "", "", ""]);
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("recognises the usual column names", () => {
+    expect(guessColumnMapping(["Date", "Round Name", "Total", "Notes", "Bow"]))
+      .toEqual(["date", "round", "score", null, "bowType"]);
+  });
+});
+
+describe("validateMapping", () => {
+  it("needs a date, round and score, once each", () => {
+    expect(validateMapping(["date", "round", "score"])).toEqual([]);
+    expect(validateMapping(["date", "date", null])).toEqual([
+      "Choose the column with the round",
+      "Choose the column with the score",
+      "Only one column can be the date"
+    ]);
+  });
+});
+
+describe("parseImportDate", () => {
+  it("reads ISO and day first dates", () => {
+    expect(parseImportDate("2025-06-01T10:00:00Z")).toBe("2025-06-01");
+    expect(parseImportDate("01/06/2025")).toBe("2025-06-01");
+    expect(parseImportDate("1.6.25")).toBe("2025-06-01");
+    expect(parseImportDate("1 June 2025")).toBe("2025-06-01");
+  });
+
+  it("rejects dates that don't exist", () => {
+    expect(parseImportDate("31/02/2025")).toBeNull();
+    expect(parseImportDate("yesterday")).toBeNull();
+  });
+});
+
+describe("readShoots", () => {
+  const mapping = ["date", "round", "score", "status", "bowType"] as const;
+
+  it("reads each row as a shoot entered as a total", () => {
+    const { shoots, errors } = readShoots([["01/06/2025", "National 50", "512", "Record Status", "Barebow"]], [...mapping], {
+      bowType: "recurve",
+      gender: "female"
+    });
+
+    expect(errors).toEqual([]);
+    expect(shoots).toEqual([{
+      date: "2025-06-01",
+      score: 512,
+      gameType: "national 50",
+      scores: [],
+      unit: "yd",
+      userProfile: { bowType: "barebow", gender: "female" },
+      shootStatus: "RecordStatus"
+    }]);
+  });
+
+  it("reports the rows it can't read by spreadsheet line", () => {
+    const { shoots, errors } = readShoots([
+      ["soon", "national", "512", "", ""],
+      ["01/06/2025", "national 200", "512", "", ""],
+      ["01/06/2025", "national", "lots", "", ""],
+      ["01/06/2025", "national", "512", "", ""]
+    ], [...mapping], { bowType: "recurve" });
+
+    expect(errors).toEqual([
+      { line: 2, message: "Can't read the date \"soon\"" },
+      { line: 3, message: "Unknown round \"national 200\"" },
+      { line: 4, message: "Can't read the score \"lots\"" }
+    ]);
+    expect(shoots).toHaveLength(1);
+    expect(shoots[0]).toMatchObject({ shootStatus: "Practice", userProfile: { bowType: "recurve" } });
+  });
+
+  it("refuses scores the round can't make and bows it doesn't know", () => {
+    const { shoots, errors } = readShoots([
+      ["01/06/2025", "national", "9999", "", ""],
+      ["01/06/2025", "national", "400", "", "American Flatbow"],
+      ["01/06/2025", "national", "648", "", "Olympic Recurve"]
+    ], [...mapping], { bowType: "barebow" });
+
+    expect(errors).toEqual([
+      { line: 2, message: "9999 is more than a National can score (648)" },
+      { line: 3, message: "Unknown bow type \"American Flatbow\"" }
+    ]);
+    expect(shoots).toMatchObject([{ score: 648, userProfile: { bowType: "recurve" } }]);
+  });
+});
+
+describe("withoutDuplicates", () => {
+  it("leaves out shoots already in the history or in the import twice", () => {
+    const imported = { date: "2025-06-01", gameType: "portsmouth", score: 28, scores: [] };
+    const other = { ...imported, score: 30 };
+
+    expect(withoutDuplicates([imported, other, other], [shoot])).toEqual({ fresh: [other], duplicates: 2 });
+  });
+});
+
+describe("addImportedShoots", () => {
+  it("numbers the imported shoots on from the last", () => {
+    const imported = { date: "2025-06-02", gameType: "portsmouth", score: 30, scores: [] };
+
+    expect(addImportedShoots([shoot], [imported, imported]).map(item => item.id)).toEqual([3, 4, 5]);
+  });
+});
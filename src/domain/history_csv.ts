@@ -0,0 +1,278 @@
+import { toCsv, type CsvValue } from "@/domain/csv";
+import type { HistoryItem, UserProfile } from "@/domain/repositories/player_history";
+import { gameTypes, roundConfigManager } from "@/domain/scoring/game_types";
+import { formatRoundName } from "@/domain/scoring/round/formatting";
+import { calculateMaxPossibleScore } from "@/domain/scoring/scores";
+import type { TaggedArrow } from "@/domain/scoring/shaft_analysis";
+import { calculateSubtotals, type Subtotals } from "@/domain/scoring/subtotals";
+import { DEFAULT_SHOOT_STATUS, getAllShootStatuses, getShootStatusDisplayName, type ShootStatus } from "@/domain/shoot/shoot_status";
+
+export const HISTORY_CSV_HEADERS = [
+  "Date", "Round", "Score", "Hits", "Golds", "Xs", "Status", "Classification", "Handicap", "Venue", "Bow type"
+];
+export const ARROWS_CSV_HEADERS = ["Shoot", "Date", "Round", "End", "Arrow", "Score", "X", "Y", "Face width", "Shaft"];
+
+function subtotalsFor(item: HistoryItem): Subtotals | null {
+  if (!item.scores?.length) {
+    return null;
+  }
+  try {
+    return calculateSubtotals(item.scores, item.gameType);
+  } catch {
+    // A custom round that has since been deleted
+    return null;
+  }
+}
+
+function byDate(history: HistoryItem[]): HistoryItem[] {
+  return [...history].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * One row a shoot, oldest first. Shoots entered as a total leave the hits, golds and Xs blank
+ */
+export function historyToCsv(history: HistoryItem[]): string {
+  const rows: CsvValue[][] = byDate(history).map(item => {
+    const subtotals = subtotalsFor(item);
+    return [
+      item.date.substring(0, 10),
+      formatRoundName(item.gameType),
+      item.score,
+      subtotals?.hits,
+      subtotals?.golds,
+      subtotals?.X,
+      getShootStatusDisplayName(item.shootStatus ?? DEFAULT_SHOOT_STATUS),
+      item.classification?.name,
+      item.handicap,
+      item.location?.placeName,
+      item.userProfile?.bowType
+    ];
+  });
+  return toCsv([HISTORY_CSV_HEADERS, ...rows]);
+}
+
+/**
+ * One row an arrow. Where every arrow of an end was plotted, the row has where it landed
+ * @param plotsForShoot the arrows plotted in a shoot, in the order they were shot
+ */
+export function arrowsToCsv(history: HistoryItem[], plotsForShoot: (shootId: number | string) => TaggedArrow[]): string {
+  const rows: CsvValue[][] = [];
+  byDate(history).forEach(item => {
+    const endSize = roundConfigManager.getRound(item.gameType)?.endSize ?? 6;
+    const plots = plotsForShoot(item.id);
+    (item.scores ?? []).forEach((score, index) => {
+      const end = Math.floor(index / endSize);
+      const arrowInEnd = index % endSize;
+      const endPlots = plots.filter(plot => plot.end === end);
+      const endScores = item.scores.slice(end * endSize, (end + 1) * endSize);
+      const plot = endPlots.length === endScores.length ? endPlots[arrowInEnd] : undefined;
+      rows.push([
+        item.id,
+        item.date.substring(0, 10),
+        formatRoundName(item.gameType),
+        end + 1,
+        arrowInEnd + 1,
+        score,
+        plot?.position ? Math.round(plot.position.x * 10) / 10 : null,
+        plot?.position ? Math.round(plot.position.y * 10) / 10 : null,
+        plot?.faceWidth,
+        plot?.shaft
+      ]);
+    });
+  });
+  return toCsv([ARROWS_CSV_HEADERS, ...rows]);
+}
+
+export type ImportField = "date" | "round" | "score" | "status" | "bowType";
+// What each column of the spreadsheet holds, null for columns to leave out
+export type ColumnMapping = (ImportField | null)[];
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+  { field: "date", label: "Date", required: true },
+  { field: "round", label: "Round", required: true },
+  { field: "score", label: "Score", required: true },
+  { field: "status", label: "Status", required: false },
+  { field: "bowType", label: "Bow type", required: false }
+];
+
+// What other scoring apps and spreadsheets tend to call each column
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ["date", "shot on", "day", "when"],
+  round: ["round", "round name", "round type", "game type", "gametype"],
+  score: ["score", "total", "total score", "result"],
+  status: ["status", "shoot status", "shoot type", "type"],
+  bowType: ["bow type", "bowtype", "bow", "bowstyle", "bow style", "division"]
+};
+
+function normalise(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * A first guess at the mapping from the header row, for the archer to correct
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const field = IMPORT_FIELDS
+      .map(({ field }) => field)
+      .find(field => !used.has(field) && HEADER_ALIASES[field].includes(normalise(header)));
+    if (!field) {
+      return null;
+    }
+    used.add(field);
+    return field;
+  });
+}
+
+/**
+ * @returns what is missing from a mapping, empty when it can be used
+ */
+export function validateMapping(mapping: ColumnMapping): string[] {
+  const errors = IMPORT_FIELDS
+    .filter(({ field, required }) => required && !mapping.includes(field))
+    .map(({ label }) => `Choose the column with the ${label.toLowerCase()}`);
+  const doubled = IMPORT_FIELDS.filter(({ field }) => mapping.filter(mapped => mapped === field).length > 1);
+  return [...errors, ...doubled.map(({ label }) => `Only one column can be the ${label.toLowerCase()}`)];
+}
+
+function formatDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * A date as YYYY-MM-DD. Numeric dates that aren't ISO are read day first
+ */
+export function parseImportDate(text: string): string | null {
+  const value = text.trim();
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return formatDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+  const dayFirst = value.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (dayFirst) {
+    const year = Number(dayFirst[3]);
+    return formatDate(year < 100 ? 2000 + year : year, Number(dayFirst[2]), Number(dayFirst[1]));
+  }
+  if (/[a-z]/i.test(value) && !isNaN(Date.parse(value))) {
+    const date = new Date(value);
+    return formatDate(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+  return null;
+}
+
+/**
+ * The app's name for a round, however the spreadsheet capitalised it
+ */
+export function resolveRound(text: string): string | null {
+  const name = normalise(text);
+  return gameTypes.find(gameType => normalise(gameType) === name) ?? null;
+}
+
+const BOW_TYPES = ["recurve", "barebow", "longbow", "compound"];
+
+/**
+ * The app's name for a bow type, from a spreadsheet's, e.g. "Olympic Recurve" or "Bare Bow"
+ */
+export function resolveBowType(text: string): string | null {
+  const name = normalise(text);
+  const matches = BOW_TYPES.filter(bowType => name.replace(/[\s-]/g, "").includes(bowType));
+  return matches.length === 1 ? matches[0] : null;
+}
+
+function resolveStatus(text: string): ShootStatus {
+  const name = normalise(text).replace(/\s/g, "");
+  return getAllShootStatuses().find(status => status.toLowerCase() === name) ?? DEFAULT_SHOOT_STATUS;
+}
+
+export type ImportedShoot = Omit<HistoryItem, "id">;
+
+export interface ImportRowError {
+  line: number; // the spreadsheet line, counting the header as line 1
+  message: string;
+}
+
+export interface CsvImport {
+  shoots: ImportedShoot[];
+  errors: ImportRowError[];
+}
+
+/**
+ * Turn the rows under the header into shoots entered as a total, like a manually entered score
+ * @param profile the archer's profile, for rows without a bow type
+ */
+export function readShoots(rows: string[][], mapping: ColumnMapping, profile: UserProfile): CsvImport {
+  const column = (row: string[], field: ImportField) => {
+    const index = mapping.indexOf(field);
+    return index === -1 ? "" : (row[index] ?? "").trim();
+  };
+
+  const shoots: ImportedShoot[] = [];
+  const errors: ImportRowError[] = [];
+  rows.forEach((row, index) => {
+    const line = index + 2;
+    const date = parseImportDate(column(row, "date"));
+    const gameType = resolveRound(column(row, "round"));
+    const score = Number(column(row, "score").replace(/,/g, ""));
+    const bowType = column(row, "bowType") === "" ? profile.bowType : resolveBowType(column(row, "bowType"));
+    const maxScore = gameType ? calculateMaxPossibleScore(0, roundConfigManager.getRound(gameType)?.maxArrows, gameType) : 0;
+
+    if (!date) {
+      errors.push({ line, message: `Can't read the date "${column(row, "date")}"` });
+    } else if (!gameType) {
+      errors.push({ line, message: `Unknown round "${column(row, "round")}"` });
+    } else if (column(row, "score") === "" || !Number.isInteger(score) || score < 0) {
+      errors.push({ line, message: `Can't read the score "${column(row, "score")}"` });
+    } else if (score > maxScore) {
+      errors.push({ line, message: `${score} is more than a ${formatRoundName(gameType)} can score (${maxScore})` });
+    } else if (!bowType) {
+      errors.push({ line, message: `Unknown bow type "${column(row, "bowType")}"` });
+    } else {
+      shoots.push({
+        date,
+        score,
+        gameType,
+        scores: [],
+        unit: roundConfigManager.getRound(gameType)?.unit,
+        userProfile: { ...profile, bowType },
+        shootStatus: resolveStatus(column(row, "status"))
+      });
+    }
+  });
+  return { shoots, errors };
+}
+
+/**
+ * Shoots are taken to be the same when they are of the same round, on the same day, with the same score
+ */
+export function shootKey(shoot: ImportedShoot | HistoryItem): string {
+  return `${shoot.date.substring(0, 10)}|${shoot.gameType}|${shoot.score}`;
+}
+
+/**
+ * Leave out shoots already in the history, or in the import twice: the same round, score and day
+ */
+export function withoutDuplicates(shoots: ImportedShoot[], history: HistoryItem[]): { fresh: ImportedShoot[]; duplicates: number } {
+  const seen = new Set(history.map(shootKey));
+  const fresh = shoots.filter(shoot => {
+    const key = shootKey(shoot);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  return { fresh, duplicates: shoots.length - fresh.length };
+}
+
+/**
+ * The history with the imported shoots added, numbered on from the last shoot
+ */
+export function addImportedShoots(history: HistoryItem[], shoots: ImportedShoot[]): HistoryItem[] {
+  const lastId = Math.max(0, ...history.map(item => Number(item.id)).filter(id => !isNaN(id)));
+  return [...history, ...shoots.map((shoot, index) => ({ ...shoot, id: lastId + index + 1 }))];
+}
@@ -19,6 +19,14 @@ export function filterByDateRange(history, dateRange) {
   });
 }
 
+export function filterByBowType(history, bowType) {
+  return bowType ? history.filter(shoot => shoot.userProfile?.bowType === bowType) : history;
+}
+
+export function filterBySetup(history, setupId) {
+  return setupId ? history.filter(shoot => shoot.equipment?.id === setupId) : history;
+}
+
 export function filterByClassification(history, classification) {
   return classification
     ? history.filter(shoot => shoot.classification?.name === classification)
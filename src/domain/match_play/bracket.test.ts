@@ -0,0 +1,105 @@
+import { describe, expect, test } from "vitest";
+import {
+  bracketSizeFor,
+  bracketWinner,
+  generateBracket,
+  readyMatches,
+  recordMatchResult,
+  seedOrder
+} from "@/domain/match_play/bracket";
+
+const archers = (count: number) => Array.from({ length: count }, (_, i) => `Archer ${i + 1}`);
+
+const firstArcherWins: [(number | string)[], (number | string)[]] = [Array(9).fill(10), Array(9).fill(9)];
+const secondArcherWins: [(number | string)[], (number | string)[]] = [Array(9).fill(9), Array(9).fill(10)];
+
+describe("seedOrder", () => {
+  test("keeps the top seeds apart", () => {
+    expect(seedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    expect(seedOrder(16).slice(0, 4)).toEqual([1, 16, 8, 9]);
+  });
+});
+
+describe("bracketSizeFor", () => {
+  test("rounds up to the next bracket size", () => {
+    expect(bracketSizeFor(2)).toEqual(2);
+    expect(bracketSizeFor(3)).toEqual(4);
+    expect(bracketSizeFor(5)).toEqual(8);
+    expect(bracketSizeFor(9)).toEqual(16);
+    expect(bracketSizeFor(32)).toEqual(32);
+  });
+
+  test("refuses brackets that are too big or too small", () => {
+    expect(() => bracketSizeFor(33)).toThrow("Brackets are for 2 to 32 archers, not 33");
+    expect(() => bracketSizeFor(1)).toThrow();
+  });
+});
+
+describe("generateBracket", () => {
+  test("pairs a full bracket by seed", () => {
+    const bracket = generateBracket(archers(8));
+
+    expect(bracket.rounds.map(round => round.length)).toEqual([4, 2, 1]);
+    expect(bracket.rounds[0].map(match => match.archers)).toEqual([
+      ["Archer 1", "Archer 8"],
+      ["Archer 4", "Archer 5"],
+      ["Archer 2", "Archer 7"],
+      ["Archer 3", "Archer 6"]
+    ]);
+  });
+
+  test("gives the top seeds byes when the bracket is not full", () => {
+    const bracket = generateBracket(archers(6));
+
+    expect(bracket.rounds[0][0]).toMatchObject({ archers: ["Archer 1", null], winner: "Archer 1" });
+    expect(bracket.rounds[1][0].archers).toEqual(["Archer 1", null]);
+    expect(readyMatches(bracket).map(match => match.id)).toEqual(["0-1", "0-3"]);
+  });
+});
+
+describe("recordMatchResult", () => {
+  test("moves winners through to a champion", () => {
+    let bracket = generateBracket(archers(8));
+
+    bracket = recordMatchResult(bracket, "0-0", firstArcherWins);
+    bracket = recordMatchResult(bracket, "0-1", secondArcherWins);
+    expect(bracket.rounds[1][0].archers).toEqual(["Archer 1", "Archer 5"]);
+    expect(bracket.rounds[0][0].setPoints).toEqual([6, 0]);
+
+    bracket = recordMatchResult(bracket, "0-2", firstArcherWins);
+    bracket = recordMatchResult(bracket, "0-3", firstArcherWins);
+    bracket = recordMatchResult(bracket, "1-0", secondArcherWins);
+    bracket = recordMatchResult(bracket, "1-1", firstArcherWins);
+    bracket = recordMatchResult(bracket, "2-0", firstArcherWins);
+
+    expect(bracketWinner(bracket)).toEqual("Archer 5");
+    expect(readyMatches(bracket)).toEqual([]);
+  });
+
+  test("plays a three archer bracket through to the final", () => {
+    let bracket = generateBracket(archers(3));
+
+    expect(bracket.rounds.map(round => round.length)).toEqual([2, 1]);
+    expect(readyMatches(bracket).map(match => match.id)).toEqual(["0-1"]);
+
+    bracket = recordMatchResult(bracket, "0-1", secondArcherWins);
+    expect(bracket.rounds[1][0].archers).toEqual(["Archer 1", "Archer 3"]);
+
+    bracket = recordMatchResult(bracket, "1-0", secondArcherWins);
+    expect(bracketWinner(bracket)).toEqual("Archer 3");
+  });
+
+  test("does not change the bracket it was given", () => {
+    const bracket = generateBracket(archers(8));
+    recordMatchResult(bracket, "0-0", firstArcherWins);
+
+    expect(bracket.rounds[0][0].winner).toBeUndefined();
+  });
+
+  test("refuses unfinished matches", () => {
+    const bracket = generateBracket(archers(8));
+
+    expect(() => recordMatchResult(bracket, "0-0", [[10, 10, 10], [9, 9, 9]])).toThrow("Match is not finished yet");
+    expect(() => recordMatchResult(bracket, "9-9", firstArcherWins)).toThrow("Unknown match: 9-9");
+  });
+});
@@ -0,0 +1,124 @@
+import { calculateMatchResult, ShootOff } from "@shared/models/MatchPlay";
+
+// Each size is at most twice the archers it is picked for, so every first round match has someone in it
+export const BRACKET_SIZES = [2, 4, 8, 16, 32];
+
+export interface BracketMatch {
+  id: string;
+  round: number;
+  archers: [string | null, string | null];
+  scores?: [(number | string)[], (number | string)[]];
+  shootOff?: ShootOff;
+  setPoints?: [number, number];
+  winner?: string;
+}
+
+export interface Bracket {
+  size: number;
+  rounds: BracketMatch[][];
+}
+
+/**
+ * Seed positions for a bracket so the top seeds can only meet in the later rounds, e.g. 1v8, 4v5, 2v7, 3v6
+ */
+export function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const fieldSize = order.length * 2;
+    order = order.flatMap(seed => [seed, fieldSize + 1 - seed]);
+  }
+  return order;
+}
+
+export function bracketSizeFor(archerCount: number): number {
+  const size = BRACKET_SIZES.find(s => s >= archerCount);
+  if (!size || archerCount < 2) {
+    throw new Error(`Brackets are for 2 to ${BRACKET_SIZES[BRACKET_SIZES.length - 1]} archers, not ${archerCount}`);
+  }
+  return size;
+}
+
+/**
+ * Builds an elimination bracket, the archers listed in seed order. Missing seeds are byes.
+ */
+export function generateBracket(archers: string[]): Bracket {
+  const size = bracketSizeFor(archers.length);
+  const seeds = seedOrder(size);
+
+  const rounds: BracketMatch[][] = [];
+  for (let round = 0, matches = size / 2; matches >= 1; round++, matches /= 2) {
+    rounds.push(Array.from({ length: matches }, (_, index) => ({
+      id: `${round}-${index}`,
+      round,
+      archers: [null, null]
+    })));
+  }
+
+  rounds[0].forEach((match, index) => {
+    match.archers = [archers[seeds[index * 2] - 1] ?? null, archers[seeds[index * 2 + 1] - 1] ?? null];
+  });
+
+  return advanceByes({ size, rounds });
+}
+
+function advanceWinner(bracket: Bracket, match: BracketMatch, winner: string) {
+  match.winner = winner;
+  const nextRound = bracket.rounds[match.round + 1];
+  if (!nextRound) {
+    return;
+  }
+
+  const index = Number(match.id.split("-")[1]);
+  const nextMatch = nextRound[Math.floor(index / 2)];
+  nextMatch.archers[index % 2] = winner;
+}
+
+function advanceByes(bracket: Bracket): Bracket {
+  bracket.rounds[0].forEach(match => {
+    const [first, second] = match.archers;
+    if (!first !== !second) {
+      advanceWinner(bracket, match, (first ?? second) as string);
+    }
+  });
+  return bracket;
+}
+
+/**
+ * Records a finished match and moves its winner into the next round
+ * @returns a new bracket, the one passed in is left alone
+ */
+export function recordMatchResult(
+  bracket: Bracket,
+  matchId: string,
+  scores: [(number | string)[], (number | string)[]],
+  shootOff?: ShootOff
+): Bracket {
+  const updated: Bracket = JSON.parse(JSON.stringify(bracket));
+  const match = updated.rounds.flat().find(m => m.id === matchId);
+  if (!match) {
+    throw new Error(`Unknown match: ${matchId}`);
+  }
+
+  const result = calculateMatchResult(scores, shootOff);
+  if (!result.finished || result.winner === undefined) {
+    throw new Error("Match is not finished yet");
+  }
+
+  match.scores = scores;
+  match.shootOff = shootOff;
+  match.setPoints = result.setPoints;
+  advanceWinner(updated, match, match.archers[result.winner] as string);
+
+  return updated;
+}
+
+/**
+ * Matches that have both archers and no result yet
+ */
+export function readyMatches(bracket: Bracket): BracketMatch[] {
+  return bracket.rounds.flat().filter(match => match.archers[0] && match.archers[1] && !match.winner);
+}
+
+export function bracketWinner(bracket: Bracket): string | undefined {
+  return bracket.rounds[bracket.rounds.length - 1][0]?.winner;
+}
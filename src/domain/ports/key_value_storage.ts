@@ -0,0 +1,25 @@
+export type StoredData = Record<string, unknown>;
+
+export interface KeyValueStoragePort {
+  /**
+   * Everything stored, by key
+   */
+  getAll(): Promise<StoredData>;
+
+  /**
+   * Store several values at once, so either all of them are saved or none are
+   */
+  setMany(entries: StoredData): Promise<void>;
+
+  set(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Whether a failed write was because the device has run out of space for the app's data
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  const name = (error as { name?: string } | null)?.name;
+  return name === "QuotaExceededError" || name === "NS_ERROR_DOM_QUOTA_REACHED";
+}
@@ -1,5 +1,7 @@
 import { HistoryItem, UserProfile } from '@/domain/repositories/player_history'
 import { Shoot } from '../../../shared/models/Shoot'
+import { ShootComparison } from '@/domain/scoring/shoot_comparison'
+import { SeasonReport } from '@/domain/season_report'
 
 export interface ScoresheetOptions {
   location?: string
@@ -12,6 +14,15 @@ export interface LiveShootExportOptions {
   includeScorecards?: boolean
 }
 
+export interface ComparisonOptions {
+  archerName: string
+  roundName: string
+}
+
+export interface SeasonReportOptions {
+  archerName: string
+}
+
 export interface SharingPort {
   /**
    * Generate a shareable representation of a score sheet
@@ -56,4 +67,20 @@ export interface SharingPort {
    * @returns A Promise that resolves when sharing is complete
    */
   shareLiveShootResults(dataUrl: string, text: string): Promise<void>
-}
\ No newline at end of file
+
+  /**
+   * Generate a shareable image of shoots of one round lined up against each other
+   * @param comparison The shoots and how they compare end by end
+   * @param options Additional options for the image
+   * @returns A Promise resolving to a data URL of the comparison, shared with shareScoresheet
+   */
+  generateComparison(comparison: ShootComparison, options: ComparisonOptions): Promise<string>
+
+  /**
+   * Generate a shareable image of a season or year in review
+   * @param report What the archer did over the season
+   * @param options Additional options for the image
+   * @returns A Promise resolving to a data URL of the report, shared with shareScoresheet
+   */
+  generateSeasonReport(report: SeasonReport, options: SeasonReportOptions): Promise<string>
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { moveShoot, parseProfileStorageKey, profileStorageKey, validateProfileName } from "@/domain/profiles";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+function shoot(id: number, score: number): HistoryItem {
+  return {
+    id,
+    date: "2025-06-01",
+    score,
+    gameType: "national",
+    scores: [],
+    userProfile: { gender: "male", ageGroup: "senior", bowType: "barebow" },
+    classification: { name: "B3", scheme: "AGB" }
+  };
+}
+
+describe("profile storage keys", () => {
+  it("leaves the first archer's keys as they were", () => {
+    expect(profileStorageKey("history", "default")).toBe("history");
+    expect(parseProfileStorageKey("arrow-history")).toEqual({ key: "arrow-history", profileId: "default" });
+  });
+
+  it("tags everyone else's keys with their profile", () => {
+    expect(profileStorageKey("history", "p1")).toBe("history@p1");
+    expect(parseProfileStorageKey("arrow-history@p1")).toEqual({ key: "arrow-history", profileId: "p1" });
+  });
+});
+
+describe("validateProfileName", () => {
+  it("needs a name no other archer has", () => {
+    const others = [{ id: "default", name: "Sam" }];
+
+    expect(validateProfileName("  ", others)).toEqual(["Enter a name for the archer"]);
+    expect(validateProfileName("sam ", others)).toEqual(["There is already an archer called sam"]);
+    expect(validateProfileName("Alex", others)).toEqual([]);
+  });
+});
+
+describe("moveShoot", () => {
+  const from = {
+    history: [shoot(1, 500), shoot(2, 510)],
+    notes: [{ id: "a", shootId: 2, text: "windy" }, { id: "b", shootId: 1, text: "calm" }],
+    arrowHistory: { 2: [{ score: 9 }] }
+  };
+  const to = { history: [shoot(4, 300)], notes: [], arrowHistory: {} };
+  const junior = { gender: "female", ageGroup: "under 15", bowType: "recurve" };
+
+  it("takes the shoot, its notes and its arrows over to the other archer", () => {
+    const moved = moveShoot(from, to, 2, junior);
+
+    expect(moved.movedId).toBe(5);
+    expect(moved.from.history.map(item => item.id)).toEqual([1]);
+    expect(moved.from.notes.map(note => note.id)).toEqual(["b"]);
+    expect(moved.from.arrowHistory).toEqual({});
+    expect(moved.to.notes).toEqual([{ id: "a", shootId: 5, text: "windy" }]);
+    expect(moved.to.arrowHistory).toEqual({ 5: [{ score: 9 }] });
+  });
+
+  it("classifies the shoot for the archer it moves to, keeping the bow it was shot with", () => {
+    const [, moved] = moveShoot(from, to, 2, junior).to.history;
+
+    expect(moved.userProfile).toEqual({ gender: "female", ageGroup: "under 15", bowType: "barebow" });
+    expect(moved.classification).toBeUndefined();
+  });
+
+  it("changes nothing when the shoot isn't there", () => {
+    expect(moveShoot(from, to, 9, junior)).toEqual({ from, to, movedId: null });
+  });
+});
@@ -0,0 +1,105 @@
+import type { HistoryItem, UserProfile } from "@/domain/repositories/player_history";
+
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+// The archer who was using the app before there were profiles, whose data keeps its original keys
+export const DEFAULT_PROFILE_ID = "default";
+
+const PROFILE_SEPARATOR = "@";
+
+/**
+ * Where a profile keeps something: the original key for the first archer, the key tagged with the profile for the rest
+ */
+export function profileStorageKey(key: string, profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? key : `${key}${PROFILE_SEPARATOR}${profileId}`;
+}
+
+/**
+ * The key and profile a stored key belongs to, the reverse of profileStorageKey
+ */
+export function parseProfileStorageKey(storageKey: string): { key: string; profileId: string } {
+  const separator = storageKey.lastIndexOf(PROFILE_SEPARATOR);
+  if (separator <= 0) {
+    return { key: storageKey, profileId: DEFAULT_PROFILE_ID };
+  }
+  return { key: storageKey.substring(0, separator), profileId: storageKey.substring(separator + 1) };
+}
+
+/**
+ * @returns what is wrong with a name for a profile, empty when it can be used
+ */
+export function validateProfileName(name: string, otherProfiles: Profile[]): string[] {
+  const trimmed = name.trim();
+  if (trimmed === "") {
+    return ["Enter a name for the archer"];
+  }
+  if (otherProfiles.some(profile => profile.name.trim().toLowerCase() === trimmed.toLowerCase())) {
+    return [`There is already an archer called ${trimmed}`];
+  }
+  return [];
+}
+
+export interface ProfileNote {
+  id: string | number;
+  shootId?: number | string;
+  [field: string]: unknown;
+}
+
+// The parts of a profile a shoot is kept in
+export interface ShootData {
+  history: HistoryItem[];
+  notes: ProfileNote[];
+  arrowHistory: Record<string, unknown>;
+}
+
+/**
+ * A shoot as it goes into another archer's history: numbered on from their last shoot and with their age group and
+ * gender, so its classification is worked out for them
+ */
+export function shootForArcher(history: HistoryItem[], shoot: Omit<HistoryItem, "id">, archer: UserProfile): HistoryItem {
+  const { classification: _classification, ...rest } = shoot;
+  return {
+    ...rest,
+    id: Math.max(0, ...history.map(item => Number(item.id)).filter(id => !isNaN(id))) + 1,
+    userProfile: {
+      gender: archer.gender,
+      ageGroup: archer.ageGroup,
+      bowType: shoot.userProfile?.bowType ?? archer.bowType
+    }
+  };
+}
+
+/**
+ * Move a shoot, with its notes and plotted arrows, from one archer to another. The shoot is numbered on from the
+ * other archer's last shoot and takes their age group and gender, so its classification is worked out for them
+ * @returns both archers' data after the move, unchanged when the shoot isn't found
+ */
+export function moveShoot(from: ShootData, to: ShootData, shootId: number | string, archer: UserProfile): { from: ShootData; to: ShootData; movedId: number | null } {
+  const shoot = from.history.find(item => item.id === shootId);
+  if (!shoot) {
+    return { from, to, movedId: null };
+  }
+
+  const moved = shootForArcher(to.history, shoot, archer);
+  const movedId = moved.id as number;
+
+  const isMoving = (note: ProfileNote) => note.shootId !== undefined && String(note.shootId) === String(shootId);
+  const { [String(shootId)]: plots, ...remainingPlots } = from.arrowHistory;
+
+  return {
+    from: {
+      history: from.history.filter(item => item !== shoot),
+      notes: from.notes.filter(note => !isMoving(note)),
+      arrowHistory: remainingPlots
+    },
+    to: {
+      history: [...to.history, moved],
+      notes: [...to.notes, ...from.notes.filter(isMoving).map(note => ({ ...note, shootId: movedId }))],
+      arrowHistory: plots === undefined ? to.arrowHistory : { ...to.arrowHistory, [movedId]: plots }
+    },
+    movedId
+  };
+}
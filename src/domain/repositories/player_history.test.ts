@@ -80,6 +80,17 @@ describe("player history", () => {
     expect(playerHistory.personalBest("frostbite")).toBeUndefined();
   });
 
+  test('it can retrieve the shoot your personal best was set in', async () => {
+    const playerHistory = createPlayerHistory();
+
+    await playerHistory.add("2024-02-01", 456, 'national 50', [9, 9, 9], 'yd')
+    await playerHistory.add("2024-01-01", 456, 'national 50', [10, 9, 8], 'yd')
+    await playerHistory.add("2024-03-01", 455, 'national 50', [1, 2, 3], 'yd')
+
+    expect(playerHistory.personalBestShoot("national 50")?.scores).toEqual([10, 9, 8]);
+    expect(playerHistory.personalBestShoot("frostbite")).toBeUndefined();
+  });
+
   test('it can total up the number of arrows shot', async () => {
     const playerHistory = createPlayerHistory();
     await playerHistory.add(new Date(), 456, 'national 50', [1, 2, 3], 'yd')
@@ -321,6 +332,23 @@ describe("Classification with changing age groups", () => {
   });
 });
 
+describe("getConsistencyProfile", () => {
+  test("profiles a round from the archer's shoots of it with that bow", async () => {
+    const playerHistory = createPlayerHistory();
+    const fading = [...Array(12).fill(10), ...Array(12).fill(8)];
+    const steady = Array(24).fill(9);
+    const recurve = { gender: "male", ageGroup: "senior", bowType: "recurve" };
+
+    await playerHistory.add("2024-01-01", 216, "portsmouth", fading, "m", recurve);
+    await playerHistory.add("2024-01-08", 216, "portsmouth", steady, "m", recurve);
+    await playerHistory.add("2024-01-15", 216, "portsmouth", steady, "m", { ...recurve, bowType: "barebow" });
+
+    expect(playerHistory.getConsistencyProfile("portsmouth", "recurve")).toMatchObject({ shoots: 2, halfDrop: 6 });
+    expect(playerHistory.getConsistencyProfile("portsmouth", "barebow")).toBeNull();
+    expect(playerHistory.getConsistencyProfile("not a round")).toBeNull();
+  });
+});
+
 describe("getBowTypesUsed", () => {
   test('returns all bow types from history plus the current one', async () => {
     const playerHistory = createPlayerHistory();
@@ -434,6 +462,19 @@ describe("Shoot Status", () => {
     expect(filtered[0].shootStatus).toEqual("Competition");
   });
 
+  test("it can filter history by bow type", async () => {
+    const playerHistory = createPlayerHistory();
+    const recurve = { gender: "male", ageGroup: "senior", bowType: "recurve" };
+    const barebow = { gender: "male", ageGroup: "senior", bowType: "barebow" };
+
+    await playerHistory.add(new Date(), 100, 'national', [1, 2, 3], 'yd', recurve, 'Practice')
+    await playerHistory.add(new Date(), 200, 'national', [1, 2, 3], 'yd', barebow, 'Practice')
+
+    const filtered = playerHistory.getFilteredHistory({ bowType: "barebow" }, recurve)
+
+    expect(filtered.map(shoot => shoot.score)).toEqual([200]);
+  });
+
   test('it can get all unique shoot statuses used in history', async () => {
     const playerHistory = createPlayerHistory();
 
@@ -689,4 +730,34 @@ describe("location functionality", () => {
     const shoot = playerHistory.getById(id as number);
     expect(shoot?.shootDuration).toBeUndefined();
   });
+
+  test("stores how many were shooting in a live shoot", async () => {
+    const playerHistory = createPlayerHistory(
+      { value: [] },
+      null,
+      { emit: vi.fn() },
+      null
+    );
+
+    const id = await playerHistory.add('2023-01-01', 123, 'national 50', [1, 2, 3], 'yd', undefined, 'Practice', 60 * 60 * 1000, 4);
+
+    expect(playerHistory.getById(id as number)?.archers).toBe(4);
+  });
+
+  test("keeps the setup the shoot was shot with, and filters by it", async () => {
+    const playerHistory = createPlayerHistory(
+      { value: [] },
+      null,
+      { emit: vi.fn() },
+      null
+    );
+    const setup = { id: 'indoor', name: 'Indoor recurve', drawWeight: 36 };
+
+    const id = await playerHistory.add('2023-01-01', 123, 'portsmouth', [9, 9, 9], 'm', undefined, 'Practice', undefined, undefined, setup);
+    await playerHistory.add('2023-01-02', 456, 'portsmouth', [10, 10, 10], 'm', undefined, 'Practice');
+
+    expect(playerHistory.getById(id as number)?.equipment).toEqual(setup);
+    expect(playerHistory.getFilteredHistory({ equipment: 'indoor' }).map(item => item.id)).toEqual([id]);
+    expect(playerHistory.getFilteredHistory({ equipment: null })).toHaveLength(2);
+  });
 });
@@ -1,11 +1,13 @@
-import { gameTypeConfig } from '@/domain/scoring/game_types.js'
+import { gameTypeConfig, roundConfigManager } from '@/domain/scoring/game_types.js'
 import { backfillUserProfiles, userDataFixer } from '@/domain/user_data_fixer'
 import { addTopScoreIndicator } from '@/domain/scoring/topscores'
 import { addClassificationsToHistory } from '@/domain/scoring/classification'
-import { filterByClassification, filterByDateRange, filterByPB, filterByRound } from '@/domain/history_filters'
+import { filterByBowType, filterByClassification, filterByDateRange, filterByPB, filterByRound, filterBySetup } from '@/domain/history_filters'
 import { addHandicapToHistory } from '@/domain/scoring/handicap'
+import { consistencyProfile, ConsistencyProfile } from '@/domain/scoring/consistency'
 import { DEFAULT_SHOOT_STATUS, ShootStatus } from '@/domain/shoot/shoot_status'
 import type { LocationData, LocationPort } from '@/domain/ports/location.js'
+import { setupsUsed, type EquipmentSetup, type EquipmentStamp } from '@/domain/equipment'
 
 // Extend Date prototype with addDays method
 declare global {
@@ -42,10 +44,20 @@ export interface HistoryItem {
     scheme: string;
   };
   handicap?: number;
+  handicapScheme?: string;
   averagePerEnd?: number | null;
   shootStatus?: ShootStatus;
   location?: LocationData;
   shootDuration?: number; // Duration in milliseconds from first to last arrow
+  archers?: number; // How many were shooting, when scored in a live shoot
+  equipment?: EquipmentSetup; // The setup in use when it was saved
+  match?: MatchHistory;
+}
+
+export interface MatchHistory {
+  opponent: string;
+  setPoints: [number, number]; // this archer's set points first
+  won: boolean;
 }
 
 export interface HistoryFilters {
@@ -57,6 +69,8 @@ export interface HistoryFilters {
   };
   classification?: string | null;
   shootStatus?: ShootStatus | null;
+  bowType?: string | null;
+  equipment?: string | null; // a setup id
 }
 
 export interface StorageInterface {
@@ -70,13 +84,17 @@ export interface NavigationInfo {
 }
 
 export interface PlayerHistoryRepository {
-  add(date: string, score: number, gameType: string, scores: any[], unit?: string, userProfile?: UserProfile, shootStatus?: ShootStatus, shootDuration?: number): Promise<number | string>;
+  add(date: string, score: number, gameType: string, scores: any[], unit?: string, userProfile?: UserProfile, shootStatus?: ShootStatus, shootDuration?: number, archers?: number, equipment?: EquipmentSetup): Promise<number | string>;
   remove(id: number | string): void;
   getById(id: number): HistoryItem | undefined;
   importHistory(history: HistoryItem[], currentUserProfile?: UserProfile | null): void;
 
   sortedHistory(): HistoryItem[];
   personalBest(round: string): number | undefined;
+  // The shoot the personal best was set in, the earliest if it has been equalled
+  personalBestShoot(round: string): HistoryItem | undefined;
+  // How the archer usually shoots a round end to end, null until they have shot it enough
+  getConsistencyProfile(round: string, bowType?: string | null): ConsistencyProfile | null;
   totalArrows(): number;
   getRecentGameTypes(): string[];
   getAvailableRounds(): string[];
@@ -85,9 +103,12 @@ export interface PlayerHistoryRepository {
   getFilteredHistory(filters: HistoryFilters, userProfile?: UserProfile): HistoryItem[];
   getShootStatusesUsed(): ShootStatus[];
   getBowTypesUsed(currentBowType?: string | null): string[];
+  getSetupsUsed(): EquipmentStamp[];
   updateShoot(id: number | string, updates: Partial<HistoryItem>): boolean;
 
   backfillClassifications(): Promise<void>;
+  // Reclassify and re-handicap every shoot with today's tables, or with the tables in force when each was shot
+  useCurrentTables(enabled: boolean): Promise<void>;
   getNavigationInfo(id: number | string): NavigationInfo;
 }
 
@@ -111,10 +132,11 @@ export function createPlayerHistory(
 ): PlayerHistoryRepository {
   // Initialize the data
   storage.value = prepareHistoryData(storage.value, currentUserProfile);
+  let currentTables = false;
 
   // Return an object with all the repository methods
   return {
-    async add(date, score, gameType, scores, unit, userProfile, shootStatus = DEFAULT_SHOOT_STATUS, shootDuration?: number) {
+    async add(date, score, gameType, scores, unit, userProfile, shootStatus = DEFAULT_SHOOT_STATUS, shootDuration?: number, archers?: number, equipment?: EquipmentSetup) {
       const nextId = generateNextId(storage.value);
       storage.value.push({
         id: nextId,
@@ -126,7 +148,9 @@ export function createPlayerHistory(
         userProfile,
         shootStatus,
         location: undefined, // Will be updated asynchronously if location service is available
-        shootDuration
+        shootDuration,
+        archers,
+        equipment
       });
 
       // Update location asynchronously (fire-and-forget)
@@ -169,6 +193,22 @@ export function createPlayerHistory(
       return getHighestScore(roundScores);
     },
 
+    personalBestShoot(round) {
+      return storage.value
+        .filter(item => item.gameType === round)
+        .reduce<HistoryItem | undefined>((best, item) => !best || item.score > best.score ||
+          (item.score === best.score && new Date(item.date) < new Date(best.date)) ? item : best, undefined);
+    },
+
+    getConsistencyProfile(round, bowType = null) {
+      const roundConfig = roundConfigManager.getRound(round);
+      if (!roundConfig) {
+        return null;
+      }
+      const shoots = filterByBowType(storage.value.filter(item => item.gameType === round), bowType);
+      return consistencyProfile(shoots, roundConfig);
+    },
+
     totalArrows() {
       return storage.value.reduce((acc, item) => acc + item.scores.length, 0);
     },
@@ -212,7 +252,9 @@ export function createPlayerHistory(
       const filteredByRound = filterByRound(filteredByPB, filters.round);
       const filteredByDateRange = filterByDateRange(filteredByRound, filters.dateRange);
       const filteredByClassification = filterByClassification(filteredByDateRange, filters.classification);
-      return filterByShootStatus(filteredByClassification, filters.shootStatus || null)
+      const filteredByBowType = filterByBowType(filteredByClassification, filters.bowType);
+      const filteredBySetup = filterBySetup(filteredByBowType, filters.equipment);
+      return filterByShootStatus(filteredBySetup, filters.shootStatus || null)
     },
 
     getShootStatusesUsed() {
@@ -244,6 +286,10 @@ export function createPlayerHistory(
       return Array.from(bowTypesSet);
     },
 
+    getSetupsUsed() {
+      return setupsUsed(storage.value);
+    },
+
     updateShoot(id, updates) {
       const shootIndex = storage.value.findIndex(item => item.id === id);
 
@@ -264,8 +310,16 @@ export function createPlayerHistory(
     },
 
     async backfillClassifications() {
-      const withClassifications = await addClassificationsToHistory(storage.value)
-      storage.value = await addHandicapToHistory(withClassifications)
+      const withClassifications = await addClassificationsToHistory(storage.value, { currentTables })
+      storage.value = await addHandicapToHistory(withClassifications, { currentTables })
+    },
+
+    async useCurrentTables(enabled) {
+      if (currentTables === enabled) {
+        return;
+      }
+      currentTables = enabled;
+      await this.backfillClassifications();
     },
 
     getNavigationInfo(id) {
@@ -77,6 +77,18 @@ describe("SightMarksManager", () => {
     expect(storage.value[0].vertical.minor).toBe(7);
   });
 
+  it("keeps the setup a mark was taken with through updates", () => {
+    const storage = { value: [] };
+    const manager = new SightMarksManager(storage);
+
+    manager.add(30, "m", 4, { major: 4, minor: 2, micro: 0 }, "", { id: "s1", name: "Indoor" });
+    manager.add(50, "m", 4, { major: 3, minor: 1, micro: 0 });
+    manager.update(storage.value[0].id, 30, "m", 5, { major: 4, minor: 3, micro: 0 }, "windy");
+
+    expect(storage.value[0]).toMatchObject({ notches: 5, label: "windy", equipment: { id: "s1", name: "Indoor" } });
+    expect(storage.value[1]).not.toHaveProperty("equipment");
+  });
+
   it("deletes sight marks", () => {
     const id = "123";
     const storage = {
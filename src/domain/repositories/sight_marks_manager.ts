@@ -16,7 +16,7 @@ export class SightMarksManager {
     });
   }
 
-  add(distance, unit, notches, vertical, label = "") {
+  add(distance, unit, notches, vertical, label = "", equipment?) {
     const mark = {
       id: generateId(),
       distance,
@@ -24,7 +24,9 @@ export class SightMarksManager {
       notches,
       vertical: { ...vertical }, // Create a shallow copy of the vertical object
       priority: false,
-      label
+      label,
+      // The setup the mark was taken with, { id, name }
+      ...(equipment ? { equipment } : {})
     };
     this.storage.value = [...this.storage.value, mark];
   }
@@ -32,15 +34,16 @@ export class SightMarksManager {
   update(id, distance, unit, notches, vertical, label) {
     const index = this.storage.value.findIndex(m => m.id === id);
     if (index >= 0) {
-      const currentPriority = this.storage.value[index].priority;
+      const { priority, equipment } = this.storage.value[index];
       this.storage.value[index] = {
         id,
         distance,
         unit,
         notches,
         vertical,
-        priority: currentPriority,
-        label
+        priority,
+        label,
+        ...(equipment ? { equipment } : {})
       };
     }
   }
@@ -1,5 +1,6 @@
 import { describe, expect, test, vi, beforeEach } from "vitest";
 import {
+  addClassificationsToHistory,
   calculateClassification,
   createClassificationCalculator,
   getRelevantClassifications,
@@ -7,6 +8,7 @@ import {
   calculatePotentialClassificationWithoutOutliers
 } from "@/domain/scoring/classification";
 import { calculateTotal } from "@shared/utils/subtotals";
+import { classificationTableVersions } from "@/domain/scoring/classification_table_versions";
 
 beforeEach(() => {
   global.fetch = vi.fn(() =>
@@ -204,4 +206,70 @@ describe("calculatePotentialClassificationWithoutOutliers", () => {
     );
     expect(potential).toBe(null);
   });
-});
\ No newline at end of file
+});
+describe("classification for clout", () => {
+  test("looks up the clout tables rather than the target ones", async () => {
+    global.fetch = vi.fn(() =>
+      Promise.resolve({
+        json: () => Promise.resolve([
+          { id: 1, gender: "Men", bowType: "Recurve", age: "Senior", round: "clout 180yd", score: 60 },
+          { id: 2, gender: "Men", bowType: "Recurve", age: "Senior", round: "clout 180yd", score: 80 }
+        ])
+      })
+    );
+
+    const calculator = await createClassificationCalculator("clout 180yd", "male", "senior", "recurve");
+
+    expect(global.fetch).toHaveBeenCalledWith("/data/classifications/clout/Men/Recurve/Senior.json");
+    expect(calculator(70, 12)).toEqual([
+      { name: "A3", score: 60, achieved: true, shortBy: null, scorePerEnd: 10, perEndDiff: 2, scheme: "AGB Clout" },
+      { name: "A2", score: 80, achieved: false, shortBy: 10, scorePerEnd: 14, perEndDiff: -2, scheme: "AGB Clout" }
+    ]);
+  });
+
+  test("has no classifications when there is no clout table", async () => {
+    global.fetch = vi.fn(() => Promise.resolve({ json: () => Promise.reject(new SyntaxError("not json")) }));
+
+    expect(await createClassificationCalculator("clout 140yd", "female", "u12", "longbow")).toBeUndefined();
+  });
+});
+
+describe("classification table versions", () => {
+  beforeEach(() => {
+    classificationTableVersions.push({ name: "AGB 2030", effectiveFrom: "2030-01-01", folder: "2030-01-01/" });
+    return () => {
+      classificationTableVersions.pop();
+    };
+  });
+
+  test("uses the tables in force on the day the round was shot", async () => {
+    await createClassificationCalculator("windsor", "female", "u18", "barebow", undefined, "2029-06-01");
+    expect(global.fetch).toHaveBeenLastCalledWith("/data/classifications/Women/Barebow/U18.json");
+
+    await createClassificationCalculator("windsor", "female", "u18", "barebow", undefined, "2030-06-01");
+    expect(global.fetch).toHaveBeenLastCalledWith("/data/classifications/2030-01-01/Women/Barebow/U18.json");
+  });
+
+  test("uses today's tables when the date isn't known", async () => {
+    await createClassificationCalculator("windsor", "female", "u16", "barebow");
+
+    expect(global.fetch).toHaveBeenLastCalledWith("/data/classifications/2030-01-01/Women/Barebow/U16.json");
+  });
+
+  test("can judge an old shoot by today's tables", async () => {
+    const history = [{
+      id: 1,
+      date: "2029-06-01",
+      score: 650,
+      gameType: "windsor",
+      scores: [],
+      userProfile: { gender: "female", ageGroup: "u15", bowType: "barebow" }
+    }];
+
+    await addClassificationsToHistory(history);
+    expect(global.fetch).toHaveBeenLastCalledWith("/data/classifications/Women/Barebow/U15.json");
+
+    await addClassificationsToHistory(history, { currentTables: true });
+    expect(global.fetch).toHaveBeenLastCalledWith("/data/classifications/2030-01-01/Women/Barebow/U15.json");
+  });
+});
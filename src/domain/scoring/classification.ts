@@ -1,15 +1,20 @@
 import { gameTypeConfig } from "@/domain/scoring/game_types";
-import { convertToValue } from "@shared/utils/scores";
+import { convertToValue } from "@/domain/scoring/scores";
 import {
   classificationList,
   getNextClassification,
   isHigherOrEqualClassification
 } from "@/domain/scoring/classificationList";
 import { HistoryItem } from '@/domain/repositories/player_history'
+import { classificationTableVersions } from "@/domain/scoring/classification_table_versions";
+import { currentVersion, versionInForce } from "@/domain/scoring/table_versions";
 
 const sortByScore = (a, b) => a.score - b.score;
 
-export async function createClassificationCalculator(roundName, sex, age, bowtype, personalBest) {
+/**
+ * @param date when the round was shot, to use the tables in force then. Today's tables when not given.
+ */
+export async function createClassificationCalculator(roundName, sex, age, bowtype, personalBest, date?: string | Date | null) {
   if (!roundName || !sex || !age || !bowtype) {
     return null;
   }
@@ -18,7 +23,13 @@ export async function createClassificationCalculator(roundName, sex, age, bowtyp
     return createFrostbiteClassificationCalculator(roundName, sex, age, bowtype, personalBest);
   }
 
-  const roundScores = await calculateRoundScores(sex, bowtype, age, roundName, personalBest);
+  const isClout = gameTypeConfig[roundName]?.isClout;
+  const load = isClout ? loadCloutClassificationData : loadClassificationData;
+  const scheme = isClout ? "AGB Clout" : "AGB";
+  const { folder } = versionInForce(classificationTableVersions, date);
+  const loadData = (sex: string, bowtype: string, age: string) => load(sex, bowtype, age, folder);
+
+  const roundScores = await calculateRoundScores(sex, bowtype, age, roundName, personalBest, loadData);
   const numberOfEnds = gameTypeConfig[roundName].numberOfEnds;
 
   if (roundScores.length === 0) {
@@ -36,7 +47,7 @@ export async function createClassificationCalculator(roundName, sex, age, bowtyp
       }
       const scorePerEnd = Math.ceil(classification['score'] / numberOfEnds);
       const perEndDiff = avgPerEnd - scorePerEnd;
-      const item = { name, score: classification["score"], achieved, shortBy, scorePerEnd, perEndDiff, scheme: "AGB" };
+      const item = { name, score: classification["score"], achieved, shortBy, scorePerEnd, perEndDiff, scheme };
       result.push(item);
     })
     return result;
@@ -90,7 +101,7 @@ function createFrostbiteClassificationCalculator(roundName, sex, age, bowtype, p
   };
 }
 
-export async function calculateRoundScores(sex, bowtype, age, roundName, personalBest?: Number) {
+export async function calculateRoundScores(sex, bowtype, age, roundName, personalBest?: Number, loadData = loadClassificationData) {
   if (sex === "male") {
     sex = "Men";
   }
@@ -99,7 +110,7 @@ export async function calculateRoundScores(sex, bowtype, age, roundName, persona
     sex = "Women";
   }
 
-  const roundScores = await loadClassificationData(sex, bowtype, age);
+  const roundScores = await loadData(sex, bowtype, age);
 
   const filteredScores = roundScores.filter(c => {
     return c.round.toLowerCase() === roundName.toLowerCase();
@@ -121,28 +132,40 @@ export async function calculateRoundScores(sex, bowtype, age, roundName, persona
 
 const classificationDataCache = new Map();
 
-async function loadClassificationData(sex, bowtype, age) {
+async function loadClassificationData(sex, bowtype, age, folder = currentVersion(classificationTableVersions).folder) {
   if (sex === "male") sex = "men";
   if (sex === "female") sex = "women";
 
   bowtype = bowtype.charAt(0).toUpperCase() + bowtype.slice(1);
   age = age.charAt(0).toUpperCase() + age.slice(1);
 
-  const cacheKey = `${sex}/${bowtype}/${age}`;
+  const cacheKey = `${folder}${sex}/${bowtype}/${age}`;
   if (classificationDataCache.has(cacheKey)) {
     return classificationDataCache.get(cacheKey);
   }
 
-  const path = `/data/classifications/${sex}/${bowtype}/${age}.json`;
+  const path = `/data/classifications/${folder}${sex}/${bowtype}/${age}.json`;
   const response = await fetch(path);
   const data = await response.json();
   classificationDataCache.set(cacheKey, data);
   return data;
 }
 
+/**
+ * Clout has its own AGB tables under /data/classifications/clout.
+ * Categories without a clout table get no classifications rather than target ones.
+ */
+async function loadCloutClassificationData(sex: string, bowtype: string, age: string, folder = currentVersion(classificationTableVersions).folder) {
+  try {
+    return await loadClassificationData(sex, bowtype, age, `${folder}clout/`);
+  } catch {
+    return [];
+  }
+}
+
 export function calculateClassification(sex, age, bowtype) {
-  return async (roundName, score) => {
-    const calculator = await createClassificationCalculator(roundName, sex, age, bowtype);
+  return async (roundName, score, date?: string | Date | null) => {
+    const calculator = await createClassificationCalculator(roundName, sex, age, bowtype, undefined, date);
     if (calculator) {
       const classifications = calculator(score, 1);
       const sorted = classifications.sort((a, b) => {
@@ -154,7 +177,10 @@ export function calculateClassification(sex, age, bowtype) {
   };
 }
 
-export async function addClassificationsToHistory(scoringHistory: HistoryItem[]): Promise<HistoryItem[]> {
+/**
+ * @param options.currentTables classify every shoot with today's tables rather than those in force when it was shot
+ */
+export async function addClassificationsToHistory(scoringHistory: HistoryItem[], { currentTables = false } = {}): Promise<HistoryItem[]> {
   const updatedHistory = [];
 
   for (const item of scoringHistory) {
@@ -172,7 +198,7 @@ export async function addClassificationsToHistory(scoringHistory: HistoryItem[])
     }
 
     const classificationCalculator = calculateClassification(gender, ageGroup, bowType);
-    const classification = await classificationCalculator(item.gameType, item.score);
+    const classification = await classificationCalculator(item.gameType, item.score, currentTables ? null : item.date);
 
     updatedHistory.push({ ...item, classification });
   }
@@ -0,0 +1,14 @@
+// Generated by scripts/split-classifications.ts, add new versions by running it rather than by hand
+import type { TableVersion } from "@/domain/scoring/table_versions";
+
+export interface ClassificationTableVersion extends TableVersion {
+  folder: string; // under /data/classifications, empty for the tables from before they were versioned
+}
+
+export const classificationTableVersions: ClassificationTableVersion[] = [
+  {
+    "name": "AGB 2023",
+    "effectiveFrom": "2023-01-01",
+    "folder": ""
+  }
+];
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "vitest";
+import {
+  analyseConsistency,
+  compareWithProfile,
+  consistencyProfile,
+  endTotals,
+  steadiestDistance
+} from "@/domain/scoring/consistency";
+import { roundConfigManager } from "@/domain/scoring/game_types";
+
+// six arrow ends, each arrow scoring the same
+function ends(...arrowScores: (number | string)[]) {
+  return arrowScores.flatMap(score => Array(6).fill(score));
+}
+
+describe("endTotals", () => {
+  test("totals whole ends, leaving out one still being shot", () => {
+    const round = roundConfigManager.getRound("portsmouth")!;
+
+    expect(endTotals([...ends(10, 9), "X", 10], round)).toEqual([60, 54]);
+  });
+
+  test("scores X as the round does", () => {
+    const round = roundConfigManager.getRound("worcester")!;
+
+    expect(endTotals(["X", 5, 4, 3, 2], round)).toEqual([19]);
+  });
+});
+
+describe("analyseConsistency", () => {
+  const portsmouth = roundConfigManager.getRound("portsmouth")!;
+
+  test("finds a fade through the shoot", () => {
+    const analysis = analyseConsistency(ends(10, 10, 9, 8), portsmouth);
+
+    expect(analysis?.firstHalfAverage).toBe(60);
+    expect(analysis?.secondHalfAverage).toBe(51);
+    expect(analysis?.halfDrop).toBe(9);
+    expect(analysis?.trend).toBeLessThan(0);
+    expect(analysis?.worstEnd).toEqual({ end: 3, total: 48 });
+  });
+
+  test("takes the first worst end when there is a tie", () => {
+    expect(analyseConsistency(ends(9, 7, 10, 7), portsmouth)?.worstEnd).toEqual({ end: 1, total: 42 });
+  });
+
+  test("needs more than one end", () => {
+    expect(analyseConsistency(ends(9), portsmouth)).toBeNull();
+  });
+
+  test("compares how steady each distance was", () => {
+    const national = roundConfigManager.getRound("national")!;
+    // eight ends at 60yd, then four at 50yd
+    const scores = ends(9, 7, 9, 7, 9, 7, 9, 7, 7, 7, 7, 7);
+
+    const analysis = analyseConsistency(scores, national);
+
+    expect(analysis?.distances).toEqual([
+      { distanceIndex: 0, label: "60yd", averageEnd: 48, standardDeviation: 6.4 },
+      { distanceIndex: 1, label: "50yd", averageEnd: 42, standardDeviation: 0 }
+    ]);
+    expect(steadiestDistance(analysis!.distances)?.label).toBe("50yd");
+  });
+
+  test("doesn't split single distance rounds by distance", () => {
+    expect(analyseConsistency(ends(9, 8), portsmouth)?.distances).toEqual([]);
+  });
+});
+
+describe("consistencyProfile", () => {
+  const portsmouth = roundConfigManager.getRound("portsmouth")!;
+
+  test("averages what usually happens on a round", () => {
+    const profile = consistencyProfile([
+      { scores: ends(10, 10, 8, 8) },
+      { scores: ends(10, 10, 10, 10) }
+    ], portsmouth);
+
+    expect(profile?.shoots).toBe(2);
+    expect(profile?.endAverages).toEqual([60, 60, 54, 54]);
+    expect(profile?.halfDrop).toBe(6);
+  });
+
+  test("needs a couple of shoots", () => {
+    expect(consistencyProfile([{ scores: ends(10, 10, 8, 8) }, { scores: ends(10) }], portsmouth)).toBeNull();
+  });
+
+  test("compares a shoot with the usual", () => {
+    const profile = consistencyProfile([{ scores: ends(10, 10, 8, 8) }, { scores: ends(10, 10, 10, 10) }], portsmouth)!;
+    const analysis = analyseConsistency(ends(10, 10, 7, 7, 7), portsmouth)!;
+
+    const comparison = compareWithProfile(analysis, profile);
+
+    expect(comparison.ends).toEqual([0, 0, -12, -12, null]);
+    // a drop of 18 points an end against the usual 6
+    expect(comparison.halfDrop).toBe(12);
+  });
+});
@@ -0,0 +1,174 @@
+import { Round } from "@/domain/scoring/round/round";
+import { shotDistances } from "@/domain/scoring/group_analysis";
+import { convertToValue } from "@/domain/scoring/scores";
+import { mean, round1, standardDeviation } from "@/domain/scoring/statistics";
+
+export interface DistanceConsistency {
+  distanceIndex: number;
+  label: string;
+  averageEnd: number;
+  standardDeviation: number; // of the end totals, lower is steadier
+}
+
+export interface WorstEnd {
+  end: number; // zero based
+  total: number;
+}
+
+export interface ConsistencyAnalysis {
+  ends: number[]; // total of each whole end
+  trend: number; // points per end the end totals rise (or fall, when negative) through the shoot
+  firstHalfAverage: number;
+  secondHalfAverage: number;
+  halfDrop: number; // how much lower an average end was in the second half, negative when the archer finished stronger
+  distances: DistanceConsistency[]; // empty for field rounds and rounds shot at one distance
+  worstEnd: WorstEnd;
+}
+
+export interface ConsistencyProfile {
+  shoots: number;
+  endAverages: number[];
+  trend: number;
+  halfDrop: number;
+  distances: DistanceConsistency[];
+}
+
+export interface ConsistencyComparison {
+  ends: (number | null)[]; // each end against the typical end, null past the end of the profile
+  trend: number;
+  halfDrop: number; // positive when this shoot faded more than usual
+}
+
+export const MIN_ENDS_FOR_ANALYSIS = 2;
+// One shoot is just a shoot, it takes a couple to see what usually happens
+export const MIN_SHOOTS_FOR_PROFILE = 2;
+
+// Least squares slope of the end totals against the end number
+function slope(values: number[]): number {
+  const xMean = (values.length - 1) / 2;
+  const yMean = mean(values);
+  const numerator = values.reduce((total, value, index) => total + (index - xMean) * (value - yMean), 0);
+  const denominator = values.reduce((total, _, index) => total + Math.pow(index - xMean, 2), 0);
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * The total of every whole end, leaving out an end still being shot
+ */
+export function endTotals(scores: (number | string)[], round: Round): number[] {
+  const totals = [];
+  for (let start = 0; start + round.endSize <= scores.length; start += round.endSize) {
+    totals.push(scores.slice(start, start + round.endSize)
+      .reduce((total: number, score) => total + Number(convertToValue(score, round.name)), 0));
+  }
+  return totals;
+}
+
+/**
+ * How a shoot held up from end to end and distance to distance
+ * @returns null until enough ends have been shot to say anything
+ */
+export function analyseConsistency(scores: (number | string)[], round: Round): ConsistencyAnalysis | null {
+  const ends = endTotals(scores, round);
+  if (ends.length < MIN_ENDS_FOR_ANALYSIS) {
+    return null;
+  }
+
+  const half = Math.floor(ends.length / 2);
+  const firstHalfAverage = mean(ends.slice(0, half));
+  const secondHalfAverage = mean(ends.slice(ends.length - half));
+  const worstTotal = Math.min(...ends);
+
+  return {
+    ends,
+    trend: round1(slope(ends)),
+    firstHalfAverage: round1(firstHalfAverage),
+    secondHalfAverage: round1(secondHalfAverage),
+    halfDrop: round1(firstHalfAverage - secondHalfAverage),
+    distances: distanceConsistency(ends, round),
+    worstEnd: { end: ends.indexOf(worstTotal), total: worstTotal }
+  };
+}
+
+function distanceConsistency(ends: number[], round: Round): DistanceConsistency[] {
+  // Each field target is at its own distance, so there are no distances to compare
+  if (round.isFieldRound()) {
+    return [];
+  }
+
+  const endsByDistance = new Map<number, number[]>();
+  ends.forEach((total, end) => {
+    const distanceIndex = round.distanceIndexForArrow(end * round.endSize);
+    endsByDistance.set(distanceIndex, [...(endsByDistance.get(distanceIndex) ?? []), total]);
+  });
+  if (endsByDistance.size < 2) {
+    return [];
+  }
+
+  const distances = shotDistances(round);
+  return [...endsByDistance.entries()].map(([distanceIndex, totals]) => ({
+    distanceIndex,
+    label: distances[distanceIndex]?.label ?? `Distance ${distanceIndex + 1}`,
+    averageEnd: round1(mean(totals)),
+    standardDeviation: round1(standardDeviation(totals))
+  }));
+}
+
+/**
+ * What the archer usually does on a round, averaged over their shoots of it
+ * @returns null until there are enough shoots to call it typical
+ */
+export function consistencyProfile(shoots: { scores: (number | string)[] }[], round: Round): ConsistencyProfile | null {
+  const analyses = shoots
+    .map(shoot => analyseConsistency(shoot.scores ?? [], round))
+    .filter((analysis): analysis is ConsistencyAnalysis => analysis !== null);
+  if (analyses.length < MIN_SHOOTS_FOR_PROFILE) {
+    return null;
+  }
+
+  const longest = Math.max(...analyses.map(analysis => analysis.ends.length));
+  const endAverages = Array.from({ length: longest }, (_, end) =>
+    round1(mean(analyses.filter(analysis => end < analysis.ends.length).map(analysis => analysis.ends[end])))
+  );
+
+  const distances = [...new Set(analyses.flatMap(analysis => analysis.distances.map(distance => distance.distanceIndex)))]
+    .sort((a, b) => a - b)
+    .map(distanceIndex => {
+      const shotAtDistance = analyses.flatMap(analysis => analysis.distances.filter(distance => distance.distanceIndex === distanceIndex));
+      return {
+        distanceIndex,
+        label: shotAtDistance[0].label,
+        averageEnd: round1(mean(shotAtDistance.map(distance => distance.averageEnd))),
+        standardDeviation: round1(mean(shotAtDistance.map(distance => distance.standardDeviation)))
+      };
+    });
+
+  return {
+    shoots: analyses.length,
+    endAverages,
+    trend: round1(mean(analyses.map(analysis => analysis.trend))),
+    halfDrop: round1(mean(analyses.map(analysis => analysis.halfDrop))),
+    distances
+  };
+}
+
+/**
+ * A shoot against what the archer usually does on that round
+ */
+export function compareWithProfile(analysis: ConsistencyAnalysis, profile: ConsistencyProfile): ConsistencyComparison {
+  return {
+    ends: analysis.ends.map((total, end) => end < profile.endAverages.length ? round1(total - profile.endAverages[end]) : null),
+    trend: round1(analysis.trend - profile.trend),
+    halfDrop: round1(analysis.halfDrop - profile.halfDrop)
+  };
+}
+
+/**
+ * The distance the archer's ends varied least at
+ */
+export function steadiestDistance(distances: DistanceConsistency[]): DistanceConsistency | null {
+  return distances.reduce<DistanceConsistency | null>(
+    (steadiest, distance) => !steadiest || distance.standardDeviation < steadiest.standardDeviation ? distance : steadiest,
+    null
+  );
+}
@@ -0,0 +1,130 @@
+import { afterEach, describe, expect, test } from "vitest";
+import {
+  CustomRoundDefinition,
+  toCustomRoundDefinition,
+  toGameTypeBase,
+  validateCustomRound,
+  withFaceTypes
+} from "@/domain/scoring/custom_rounds";
+import { gameTypeConfig, gameTypes, registerRound, roundConfigManager, unregisterRound } from "@/domain/scoring/game_types";
+import { calculateDistanceTotals } from "@/domain/scoring/distance_totals";
+import { getRoundDetails } from "@/domain/scoring/round/round_details";
+
+const clubRound: CustomRoundDefinition = {
+  name: "  Club   Handicap ",
+  isImperial: true,
+  isOutdoor: true,
+  endSize: 6,
+  scoring: "imperial",
+  distances: [
+    { distance: 70, dozens: 3 },
+    { distance: 45, dozens: 1.5 }
+  ]
+};
+
+describe("validateCustomRound", () => {
+  test("accepts a sensible round", () => {
+    expect(validateCustomRound(clubRound, gameTypes)).toEqual([]);
+  });
+
+  test("accepts club names that happen to contain a kind of round", () => {
+    expect(validateCustomRound({ ...clubRound, name: "Mansfield 70" }, gameTypes)).toEqual([]);
+    expect(validateCustomRound({ ...clubRound, name: "Sheffield" }, gameTypes)).toEqual([]);
+  });
+
+  test("rejects names that clash with existing rounds", () => {
+    expect(validateCustomRound({ ...clubRound, name: "York" }, gameTypes))
+      .toContain('A round called "york" already exists');
+  });
+
+  test("rejects practice names, missing names and odd end sizes", () => {
+    expect(validateCustomRound({ ...clubRound, name: "my practice" })).toContain("Round name cannot contain \"practice\"");
+    expect(validateCustomRound({ ...clubRound, name: " " })).toContain("Round needs a name");
+    expect(validateCustomRound({ ...clubRound, endSize: 4 })).toContain("End size must be one of 3, 6");
+  });
+
+  test("requires distances longest first in whole or half dozens", () => {
+    expect(validateCustomRound({ ...clubRound, distances: [] })).toContain("Round needs at least one distance");
+    expect(validateCustomRound({
+      ...clubRound,
+      distances: [{ distance: 40, dozens: 2 }, { distance: 50, dozens: 1.25 }]
+    })).toEqual([
+      "Distance 2 must be a whole or half number of dozens",
+      "Distances must be different and listed longest first"
+    ]);
+  });
+});
+
+describe("toGameTypeBase", () => {
+  test("builds an imperial round measured in dozens", () => {
+    expect(toGameTypeBase(clubRound)).toEqual({
+      name: "club handicap",
+      isOutdoor: true,
+      isImperial: true,
+      endSize: 6,
+      scores: [9, 7, 5, 3, 1, "M"],
+      distancesRoundSizes: [3, 1.5],
+      maxDistanceYards: 70,
+      otherDistancesYards: [45],
+      faceTypes: ["imperial", "imperial"]
+    });
+  });
+
+  test("uses pairs of ends as the round size for three arrow ends", () => {
+    const round = toGameTypeBase({
+      ...clubRound,
+      isImperial: false,
+      isOutdoor: false,
+      endSize: 3,
+      scoring: "metric-indoor",
+      distances: [{ distance: 18, dozens: 2.5 }]
+    });
+
+    expect(round.distancesRoundSizes).toEqual([5]);
+    expect(round.maxDistanceMetres).toEqual(18);
+    expect(round.otherDistancesMetres).toEqual([]);
+  });
+
+  test("round trips back to a definition", () => {
+    expect(toCustomRoundDefinition(toGameTypeBase(clubRound))).toEqual({
+      ...clubRound,
+      name: "club handicap"
+    });
+  });
+});
+
+describe("withFaceTypes", () => {
+  test("works out the faces of rounds saved before faces were recorded", () => {
+    const { faceTypes, ...savedRound } = toGameTypeBase({ ...clubRound, scoring: "worcester" });
+
+    expect(faceTypes).toEqual(["worcester", "worcester"]);
+    expect(withFaceTypes(savedRound).faceTypes).toEqual(["worcester", "worcester"]);
+  });
+});
+
+describe("registering a custom round", () => {
+  afterEach(() => {
+    unregisterRound("club handicap");
+  });
+
+  test("behaves like a built in round", () => {
+    registerRound(toGameTypeBase(clubRound));
+
+    expect(gameTypes).toContain("club handicap");
+    expect(gameTypeConfig["club handicap"]).toMatchObject({ maxArrows: 54, unit: "yd", isPracticeRound: false });
+    expect(roundConfigManager.getRound("Club Handicap")?.scores).toEqual([9, 7, 5, 3, 1, "M"]);
+    expect(getRoundDetails("club handicap")?.totalArrows).toEqual(54);
+
+    const scores = Array(54).fill(9);
+    const totals = calculateDistanceTotals(scores, "club handicap", 6);
+    expect(totals.map(d => [d.distance, d.subTotals.totalScore])).toEqual([[70, 324], [45, 162]]);
+  });
+
+  test("can be removed again", () => {
+    registerRound(toGameTypeBase(clubRound));
+    unregisterRound("club handicap");
+
+    expect(gameTypes).not.toContain("club handicap");
+    expect(roundConfigManager.getConfig("club handicap")).toBeUndefined();
+  });
+});
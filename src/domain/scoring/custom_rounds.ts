@@ -0,0 +1,147 @@
+import { FaceType, GameTypeBase } from "@/domain/scoring/game_types";
+import { MISS, X } from "@/domain/scoring/game_type_config";
+
+export type ScoringScheme = "imperial" | "metric" | "metric-indoor" | "worcester";
+
+export const scoringSchemes: Record<ScoringScheme, { label: string; scores: (number | string)[]; faceType: FaceType }> = {
+  "imperial": { label: "Imperial (9-7-5-3-1)", scores: [9, 7, 5, 3, 1, MISS], faceType: "imperial" },
+  "metric": { label: "Metric 10 zone with X", scores: [X, 10, 9, 8, 7, 6, 5, 4, 3, 2, 1, MISS], faceType: "ten-zone" },
+  "metric-indoor": { label: "Metric 10 zone", scores: [10, 9, 8, 7, 6, 5, 4, 3, 2, 1, MISS], faceType: "ten-zone" },
+  "worcester": { label: "Worcester (5-4-3-2-1)", scores: [5, 4, 3, 2, 1, MISS], faceType: "worcester" }
+};
+
+export const CUSTOM_ROUND_END_SIZES = [3, 6];
+
+export interface CustomRoundDistance {
+  distance: number;
+  dozens: number;
+}
+
+/**
+ * What the round builder collects from the archer, before it is turned into a GameTypeBase
+ */
+export interface CustomRoundDefinition {
+  name: string;
+  isImperial: boolean;
+  isOutdoor: boolean;
+  endSize: number;
+  scoring: ScoringScheme;
+  distances: CustomRoundDistance[];
+}
+
+export function normaliseRoundName(name: string): string {
+  return (name ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Validates a round definition, returning a list of problems (empty when valid)
+ * @param definition The round the archer has described
+ * @param existingRoundNames Names already taken by built-in or other custom rounds
+ */
+export function validateCustomRound(definition: CustomRoundDefinition, existingRoundNames: string[] = []): string[] {
+  const errors: string[] = [];
+  const name = normaliseRoundName(definition.name);
+
+  if (!name) {
+    errors.push("Round needs a name");
+  } else if (name.includes("practice")) {
+    errors.push("Round name cannot contain \"practice\"");
+  } else if (existingRoundNames.some(existing => existing.toLowerCase() === name)) {
+    errors.push(`A round called "${name}" already exists`);
+  }
+
+  if (!CUSTOM_ROUND_END_SIZES.includes(definition.endSize)) {
+    errors.push(`End size must be one of ${CUSTOM_ROUND_END_SIZES.join(", ")}`);
+  }
+
+  if (!scoringSchemes[definition.scoring]) {
+    errors.push("Unknown scoring scheme");
+  }
+
+  if (!definition.distances?.length) {
+    errors.push("Round needs at least one distance");
+    return errors;
+  }
+
+  definition.distances.forEach((d, index) => {
+    if (!(d.distance > 0)) {
+      errors.push(`Distance ${index + 1} must be greater than zero`);
+    }
+    // half dozens keep every distance made of whole pairs of ends for both end sizes
+    if (!(d.dozens > 0) || !Number.isInteger(d.dozens * 2)) {
+      errors.push(`Distance ${index + 1} must be a whole or half number of dozens`);
+    }
+  });
+
+  const isLongestFirst = definition.distances.every((d, index, all) => index === 0 || all[index - 1].distance > d.distance);
+  if (!isLongestFirst) {
+    errors.push("Distances must be different and listed longest first");
+  }
+
+  return errors;
+}
+
+/**
+ * Turns a round definition into a GameTypeBase that RoundConfigManager understands.
+ * Round sizes are measured in pairs of ends, which is a dozen arrows for six arrow ends.
+ */
+export function toGameTypeBase(definition: CustomRoundDefinition): GameTypeBase {
+  const [longest, ...others] = definition.distances;
+  const endsPerDozen = 12 / (definition.endSize * 2);
+
+  const round: GameTypeBase = {
+    name: normaliseRoundName(definition.name),
+    isOutdoor: definition.isOutdoor,
+    isImperial: definition.isImperial,
+    endSize: definition.endSize,
+    scores: [...scoringSchemes[definition.scoring].scores],
+    distancesRoundSizes: definition.distances.map(d => d.dozens * endsPerDozen),
+    faceTypes: definition.distances.map(() => scoringSchemes[definition.scoring].faceType)
+  };
+
+  if (definition.isImperial) {
+    round.maxDistanceYards = longest.distance;
+    round.otherDistancesYards = others.map(d => d.distance);
+  } else {
+    round.maxDistanceMetres = longest.distance;
+    round.otherDistancesMetres = others.map(d => d.distance);
+  }
+
+  return round;
+}
+
+/**
+ * The reverse of toGameTypeBase, used when editing or validating a stored round
+ */
+export function toCustomRoundDefinition(round: GameTypeBase): CustomRoundDefinition {
+  const endSize = round.endSize ?? 6;
+  const endsPerDozen = 12 / (endSize * 2);
+  const distances = round.isImperial
+    ? [round.maxDistanceYards, ...(round.otherDistancesYards ?? [])]
+    : [round.maxDistanceMetres, ...(round.otherDistancesMetres ?? [])];
+  const scoring = (Object.keys(scoringSchemes) as ScoringScheme[])
+    .find(key => JSON.stringify(scoringSchemes[key].scores) === JSON.stringify(round.scores)) ?? "metric";
+
+  return {
+    name: round.name,
+    isImperial: !!round.isImperial,
+    isOutdoor: !!round.isOutdoor,
+    endSize,
+    scoring,
+    distances: (round.distancesRoundSizes ?? []).map((roundSize, index) => ({
+      distance: distances[index] ?? 0,
+      dozens: roundSize / endsPerDozen
+    }))
+  };
+}
+
+/**
+ * Rounds saved before faces were recorded only have their scoring to say which face they were shot on
+ */
+export function withFaceTypes(round: GameTypeBase): GameTypeBase {
+  if (round.faceTypes) {
+    return round;
+  }
+  const { scoring } = toCustomRoundDefinition(round);
+  return { ...round, faceTypes: (round.distancesRoundSizes ?? []).map(() => scoringSchemes[scoring].faceType) };
+}
@@ -2,7 +2,7 @@ import { splitIntoChunks } from "@shared/utils/splitter";
 import { gameTypeConfig } from "@/domain/scoring/game_types";
 import { calculateSubtotals, Subtotals } from "@/domain/scoring/subtotals";
 import { calculateTotal } from "@shared/utils/subtotals";
-import { convertToValues } from "@shared/utils/scores";
+import { convertToValues } from "@/domain/scoring/scores";
 
 export interface EndPairBreakdown {
   firstEnd: any[];
@@ -67,14 +67,15 @@ export function calculateDistanceTotals(scores: any[], gameType: string = "natio
       }
     }
 
-    // Make sure we have the right number of distances
-    if (distances.length !== distancesRoundSizes.length) {
+    // Make sure we have the right number of distances, field rounds keep theirs per target
+    if (!config.targets && distances.length !== distancesRoundSizes.length) {
       console.warn(`Distance count mismatch for ${gameType}: expected ${distancesRoundSizes.length}, got ${distances.length}`)
     }
 
     for (let i = 0; i < distancesRoundSizes.length; i++) {
-      const dozens = distancesRoundSizes[i]
-      const arrowsPerDistance = Math.round(dozens * 12);
+      // a round size is two ends, which is a dozen for the usual six arrow end
+      const roundSize = distancesRoundSizes[i]
+      const arrowsPerDistance = Math.round(roundSize * config.endSize * 2);
       const distanceScores = remainingScores.slice(0, arrowsPerDistance);
       remainingScores = remainingScores.slice(arrowsPerDistance);
 
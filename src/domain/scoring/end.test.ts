@@ -1,5 +1,6 @@
 import { describe, expect, test } from "vitest";
 import { calculateScoreIsValidForEnd } from "@/domain/scoring/end";
+import { registerRound, unregisterRound } from "@/domain/scoring/game_types";
 
 //todo: custom matchers maybe?
 
@@ -77,5 +78,29 @@ describe("calculateScoreIsHigherThanPreviousInEnd", () => {
             expect(isValid("3")).toBeFalsy();
             expect(isValid("3")).toBeFalsy();
         });
+
+        test("any round shot on a worcester face ignores it, whatever it is called", () => {
+            registerRound({
+                name: "club fives",
+                isOutdoor: false,
+                endSize: 5,
+                scores: [5, 4, 3, 2, 1, "M"],
+                distancesRoundSizes: [2],
+                maxDistanceYards: 20,
+                faceTypes: ["worcester"]
+            });
+            const isValid = calculateScoreIsValidForEnd(["3", "3", "2"], "club fives");
+
+            expect(isValid("3")).toBeFalsy();
+            unregisterRound("club fives");
+        });
+    });
+
+    test("clout arrows can be entered in any order", () => {
+        const scores = [1, 3];
+        const isValid = calculateScoreIsValidForEnd(scores, "clout 180yd");
+
+        expect(isValid(5)).toBeTruthy();
+        expect(isValid(2)).toBeTruthy();
     });
 })
\ No newline at end of file
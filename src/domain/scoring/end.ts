@@ -1,5 +1,5 @@
-import { convertToValue } from "@shared/utils/scores";
-import { gameTypeConfig } from "@/domain/scoring/game_types";
+import { convertToValue } from "@/domain/scoring/scores";
+import { roundConfigManager } from "@/domain/scoring/game_types";
 
 const MAX_SCORE = Infinity;
 
@@ -10,12 +10,13 @@ function convertScore(score, round) {
     return convertToValue(score, round);
 }
 
-function getEndSize(round) {
-    const roundConfig = gameTypeConfig[round];
-  if (!roundConfig?.isOutdoor && round !== 'worcester' && round !== 'worcester (5 spot)') {
+// Indoor arrows are shot three at a time, except on the Worcester face
+function getEndSize(roundName) {
+    const round = roundConfigManager.getRound(roundName);
+    if (!round?.isOutdoor && !round?.usesWorcesterFace()) {
         return 3;
     }
-    return roundConfig.endSize;
+    return round.endSize;
 }
 
 function getLowestScoreForRecentEnd(scores, endSize = 6, round) {
@@ -32,6 +33,11 @@ function getLowestScoreForRecentEnd(scores, endSize = 6, round) {
 }
 
 export function calculateScoreIsValidForEnd(scores, round) {
+    // clout arrows are scored in the order they are called, not highest first
+    if (roundConfigManager.getRound(round)?.isCloutRound()) {
+        return () => true;
+    }
+
     return (score) => {
         const endSize = getEndSize(round);
         const lowestScore = getLowestScoreForRecentEnd(scores, endSize);
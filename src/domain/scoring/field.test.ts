@@ -0,0 +1,69 @@
+import { describe, expect, test } from "vitest";
+import { calculateFieldTargetTotals, currentFieldTarget, describeFieldTarget } from "@/domain/scoring/field";
+import { calculateSubtotals } from "@/domain/scoring/subtotals";
+import { gameTypeConfig } from "@/domain/scoring/game_types";
+import { calculateDistanceTotals } from "@/domain/scoring/distance_totals";
+
+describe("field rounds", () => {
+  test("are 3 arrow ends with one end per target", () => {
+    expect(gameTypeConfig["wa field 12 marked"]).toMatchObject({
+      endSize: 3,
+      maxArrows: 36,
+      scores: ["X", 6, 5, 4, 3, 2, 1, "M"]
+    });
+    expect(gameTypeConfig["wa field 24 mixed"].maxArrows).toEqual(72);
+    expect(gameTypeConfig["wa field 24 mixed"].targets?.map(t => t.peg).slice(11, 13)).toEqual(["unmarked", "marked"]);
+  });
+
+  test("count X as six and sixes as golds", () => {
+    expect(calculateSubtotals(["X", 6, 5, 4, "M"], "wa field 12 marked")).toMatchObject({
+      hits: 4,
+      totalScore: 21,
+      golds: 2,
+      X: 1
+    });
+  });
+
+  test("total a full course", () => {
+    const totals = calculateDistanceTotals(Array(72).fill(6), "wa field 24 marked", 3);
+    expect(totals.map(d => d.subTotals.totalScore)).toEqual([216, 216]);
+  });
+});
+
+describe("calculateFieldTargetTotals", () => {
+  test("scores each target with a running total", () => {
+    const totals = calculateFieldTargetTotals(["X", 6, 5, 4, 4, "M", 3], "wa field 12 marked");
+
+    expect(totals).toHaveLength(12);
+    expect(totals.slice(0, 4).map(t => [t.number, t.target.distance, t.total, t.runningTotal])).toEqual([
+      [1, 60, 17, 17],
+      [2, 55, 8, 25],
+      [3, 50, 3, 28],
+      [4, 45, 0, 28]
+    ]);
+    expect(totals[3].target.faceSize).toEqual(60);
+  });
+
+  test("is empty for rounds that are not field rounds", () => {
+    expect(calculateFieldTargetTotals([9, 9, 9], "national")).toEqual([]);
+  });
+});
+
+describe("currentFieldTarget", () => {
+  test("moves on a target every three arrows", () => {
+    expect(currentFieldTarget(0, "wa field 12 unmarked")?.number).toEqual(1);
+    expect(currentFieldTarget(5, "wa field 12 unmarked")?.number).toEqual(2);
+    expect(currentFieldTarget(36, "wa field 12 unmarked")).toBeUndefined();
+    expect(currentFieldTarget(0, "national")).toBeUndefined();
+  });
+});
+
+describe("describeFieldTarget", () => {
+  test.each([
+    [{ faceSize: 80, peg: "marked" as const, distance: 60 }, "80cm · 60m"],
+    [{ faceSize: 20, peg: "unmarked" as const, maxDistance: 15 }, "20cm · unmarked, up to 15m"],
+    [{ faceSize: 40, peg: "unknown" as const }, "40cm · unknown distance"]
+  ])("describes %o", (target, expected) => {
+    expect(describeFieldTarget(target)).toEqual(expected);
+  });
+});
@@ -0,0 +1,66 @@
+import { splitIntoChunks } from "@shared/utils/splitter";
+import { FieldTarget, roundConfigManager } from "@/domain/scoring/game_types";
+import { calculateTotal } from "@/domain/scoring/subtotals";
+import { convertToValues } from "@/domain/scoring/scores";
+
+export interface FieldTargetScore {
+  number: number;
+  target: FieldTarget;
+  scores: (number | string)[];
+  total: number;
+  runningTotal: number;
+}
+
+/**
+ * Splits a field round into one entry per target, each target being a single end
+ * @param scores The arrows shot so far
+ * @param gameType The field round being shot
+ */
+export function calculateFieldTargetTotals(scores: (number | string)[], gameType: string): FieldTargetScore[] {
+  const round = roundConfigManager.getRound(gameType);
+  if (!round?.targets) {
+    return [];
+  }
+
+  const ends = splitIntoChunks(scores, round.endSize);
+  let runningTotal = 0;
+
+  return round.targets.map((target, index) => {
+    const targetScores = ends[index] ?? [];
+    const total = calculateTotal(convertToValues(targetScores, gameType));
+    runningTotal += total;
+
+    return {
+      number: index + 1,
+      target,
+      scores: targetScores,
+      total,
+      runningTotal
+    };
+  });
+}
+
+/**
+ * The target the archer is currently shooting at, or undefined once the course is finished
+ */
+export function currentFieldTarget(arrowsShot: number, gameType: string): { number: number; target: FieldTarget } | undefined {
+  const round = roundConfigManager.getRound(gameType);
+  if (!round?.targets) {
+    return undefined;
+  }
+
+  const index = Math.floor(arrowsShot / round.endSize);
+  const target = round.targets[index];
+  return target ? { number: index + 1, target } : undefined;
+}
+
+export function describeFieldTarget(target: FieldTarget): string {
+  const face = `${target.faceSize}cm`;
+  if (target.peg === "marked") {
+    return `${face} · ${target.distance}m`;
+  }
+  if (target.peg === "unmarked") {
+    return `${face} · unmarked, up to ${target.maxDistance}m`;
+  }
+  return `${face} · unknown distance`;
+}
@@ -1,4 +1,4 @@
-import { GameTypeBase } from "@/domain/scoring/game_types";
+import { FieldPeg, FieldTarget, GameTypeBase } from "@/domain/scoring/game_types";
 
 const standardDistances = [
   "10", "20", "30", "40", "50", "60", "70", "80", "90", "100"
@@ -18,6 +18,86 @@ export const metricPractices: GameTypeBase[] = standardDistances.map(distance =>
   maxDistanceMetres: distance
 }));
 
+// A field unit is 12 targets, three on each face size, distances are for the red peg
+const fieldUnitLayout: { faceSize: number; markedDistances: number[]; maxUnmarkedDistance: number }[] = [
+  { faceSize: 80, markedDistances: [60, 55, 50], maxUnmarkedDistance: 55 },
+  { faceSize: 60, markedDistances: [45, 40, 35], maxUnmarkedDistance: 45 },
+  { faceSize: 40, markedDistances: [30, 25, 20], maxUnmarkedDistance: 25 },
+  { faceSize: 20, markedDistances: [15, 12, 10], maxUnmarkedDistance: 15 }
+];
+
+function fieldUnit(peg: FieldPeg): FieldTarget[] {
+  return fieldUnitLayout.flatMap(({ faceSize, markedDistances, maxUnmarkedDistance }) =>
+    markedDistances.map(distance => {
+      if (peg === "marked") {
+        return { faceSize, peg, distance };
+      }
+      if (peg === "unmarked") {
+        return { faceSize, peg, maxDistance: maxUnmarkedDistance };
+      }
+      return { faceSize, peg };
+    })
+  );
+}
+
+function fieldRound(name: string, units: FieldPeg[]): GameTypeBase {
+  const targets = units.flatMap(fieldUnit);
+  return {
+    name,
+    isOutdoor: true,
+    isImperial: false,
+    endSize: 3,
+    // one end per target, so a unit of 12 targets is 6 pairs of ends
+    distancesRoundSizes: units.map(() => 6),
+    maxDistanceMetres: Math.max(...fieldUnitLayout.flatMap(f => f.markedDistances)),
+    targets
+  };
+}
+
+export const fieldRounds: GameTypeBase[] = [
+  fieldRound("wa field 12 marked", ["marked"]),
+  fieldRound("wa field 12 unmarked", ["unmarked"]),
+  fieldRound("wa field 24 marked", ["marked", "marked"]),
+  fieldRound("wa field 24 unmarked", ["unmarked", "unmarked"]),
+  fieldRound("wa field 24 mixed", ["unmarked", "marked"]),
+  fieldRound("field 12 unknown distance", ["unknown"])
+];
+
+// Clout is shot at a flag, each arrow scored 5-4-3-2-1 by the rope distance it lands from the flag
+function cloutRound(distanceYards: number): GameTypeBase {
+  return {
+    name: `clout ${distanceYards}yd`,
+    isOutdoor: true,
+    isImperial: true,
+    endSize: 6,
+    distancesRoundSizes: [3],
+    maxDistanceYards: distanceYards,
+    isClout: true
+  };
+}
+
+export const cloutRounds: GameTypeBase[] = [180, 165, 140].map(cloutRound);
+
+// Head to head set system matches, five sets of three arrows before any shoot-off
+function matchPlayRound(name: string, distanceMetres: number, isOutdoor: boolean = true): GameTypeBase {
+  return {
+    name,
+    isOutdoor,
+    isImperial: false,
+    endSize: 3,
+    distancesRoundSizes: [2.5],
+    maxDistanceMetres: distanceMetres,
+    isMatchPlay: true
+  };
+}
+
+export const matchPlayRounds: GameTypeBase[] = [
+  matchPlayRound("wa 70m match", 70),
+  matchPlayRound("wa 60m match", 60),
+  matchPlayRound("wa 50m barebow match", 50),
+  matchPlayRound("wa 18m match", 18, false)
+];
+
 export const MISS = "M";
 export const X = "X";
 export const baseConfig: GameTypeBase[] = [
@@ -283,7 +363,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3, 3, 3],
     maxDistanceMetres: 90,
-    otherDistancesMetres: [70]
+    otherDistancesMetres: [70, 50, 30],
+    faceSizes: [122, 122, 80, 80]
   },
   {
     name: 'wa 1440 (70m) / metric i',
@@ -291,7 +372,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3, 3, 3],
     maxDistanceMetres: 70,
-    otherDistancesMetres: [60, 50, 30]
+    otherDistancesMetres: [60, 50, 30],
+    faceSizes: [122, 122, 80, 80]
   },
   {
     name: 'wa 1440 (60m) / metric ii',
@@ -299,7 +381,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3, 3, 3],
     maxDistanceMetres: 60,
-    otherDistancesMetres: [50, 40, 30]
+    otherDistancesMetres: [50, 40, 30],
+    faceSizes: [122, 122, 80, 80]
   },
   {
     name: 'metric iii',
@@ -307,7 +390,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3, 3, 3],
     maxDistanceMetres: 50,
-    otherDistancesMetres: [40, 30, 20]
+    otherDistancesMetres: [40, 30, 20],
+    faceSizes: [122, 122, 80, 80]
   },
   {
     name: 'metric iv',
@@ -315,7 +399,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3, 3, 3],
     maxDistanceMetres: 40,
-    otherDistancesMetres: [30, 20, 10]
+    otherDistancesMetres: [30, 20, 10],
+    faceSizes: [122, 122, 80, 80]
   },
   {
     name: 'metric v',
@@ -323,7 +408,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3, 3, 3],
     maxDistanceMetres: 30,
-    otherDistancesMetres: [20, 15, 10]
+    otherDistancesMetres: [20, 15, 10],
+    faceSizes: [122, 122, 80, 80]
   },
   {
     name: 'long metric (men)',
@@ -379,7 +465,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3],
     maxDistanceMetres: 50,
-    otherDistancesMetres: [30]
+    otherDistancesMetres: [30],
+    faceSizes: [80, 80]
   },
   {
     name: 'short metric ii',
@@ -387,7 +474,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3],
     maxDistanceMetres: 40,
-    otherDistancesMetres: [30]
+    otherDistancesMetres: [30],
+    faceSizes: [80, 80]
   },
   {
     name: 'short metric iii',
@@ -395,7 +483,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3],
     maxDistanceMetres: 30,
-    otherDistancesMetres: [20]
+    otherDistancesMetres: [20],
+    faceSizes: [80, 80]
   },
   {
     name: 'short metric iv',
@@ -403,14 +492,16 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [3, 3],
     maxDistanceMetres: 20,
-    otherDistancesMetres: [10]
+    otherDistancesMetres: [10],
+    faceSizes: [80, 80]
   },
   {
     name: 'wa standard bow',
     isOutdoor: true,
     isImperial: false,
     distancesRoundSizes: [3, 3],
-    maxDistanceMetres: 50
+    maxDistanceMetres: 50,
+    otherDistancesMetres: [30]
   },
   {
     name: 'wa 900',
@@ -459,22 +550,27 @@ export const baseConfig: GameTypeBase[] = [
     name: 'wa 50m (compound)',
     isOutdoor: true,
     isImperial: false,
+    scores: [X, 10, 9, 8, 7, 6, 5, MISS],
     distancesRoundSizes: [6],
-    maxDistanceMetres: 50
+    maxDistanceMetres: 50,
+    faceSizes: [80],
+    faceTypes: ["six-ring"]
   },
   {
     name: 'metric 80-40',
     isOutdoor: true,
     isImperial: false,
     distancesRoundSizes: [6],
-    maxDistanceMetres: 40
+    maxDistanceMetres: 40,
+    faceSizes: [80]
   },
   {
     name: 'metric 80-30',
     isOutdoor: true,
     isImperial: false,
     distancesRoundSizes: [6],
-    maxDistanceMetres: 30
+    maxDistanceMetres: 30,
+    faceSizes: [80]
   },
   {
     name: 'short metric v',
@@ -482,7 +578,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: true,
     distancesRoundSizes: [3, 3],
     maxDistanceMetres: 15,
-    otherDistancesMetres: [10]
+    otherDistancesMetres: [10],
+    faceSizes: [80, 80]
   },
   {
     name: "frostbite",
@@ -502,7 +599,8 @@ export const baseConfig: GameTypeBase[] = [
     isOutdoor: false,
     isImperial: false,
     distancesRoundSizes: [5],
-    maxDistanceYards: 20
+    maxDistanceYards: 20,
+    faceSizes: [60]
   },
   {
     name: "bray i",
@@ -516,14 +614,16 @@ export const baseConfig: GameTypeBase[] = [
     isOutdoor: false,
     isImperial: false,
     distancesRoundSizes: [2.5],
-    maxDistanceYards: 25
+    maxDistanceYards: 25,
+    faceSizes: [60]
   },
   {
     name: "stafford",
     isOutdoor: false,
     isImperial: false,
     distancesRoundSizes: [6],
-    maxDistanceMetres: 30
+    maxDistanceMetres: 30,
+    faceSizes: [80]
   },
   {
     name: "worcester",
@@ -532,7 +632,8 @@ export const baseConfig: GameTypeBase[] = [
     endSize: 5,
     scores: [5, 4, 3, 2, 1, MISS],
     distancesRoundSizes: [6],
-    maxDistanceYards: 20
+    maxDistanceYards: 20,
+    faceTypes: ["worcester"]
   },
   {
     name: 'worcester (5 spot)',
@@ -541,7 +642,8 @@ export const baseConfig: GameTypeBase[] = [
     endSize: 5,
     scores: ['X', 5, 4, 3, 2, 1, MISS],
     distancesRoundSizes: [6],
-    maxDistanceYards: 20
+    maxDistanceYards: 20,
+    faceTypes: ["worcester-5-spot"]
   },
   {
     name: "vegas 300",
@@ -549,7 +651,8 @@ export const baseConfig: GameTypeBase[] = [
     isImperial: false,
     distancesRoundSizes: [2.5],
     scores: ["X", 10, 9, 8, 7, 6, MISS],
-    maxDistanceYards: 20
+    maxDistanceYards: 20,
+    faceTypes: ["triple-spot"]
   },
   {
     name: "wa 18m",
@@ -563,6 +666,7 @@ export const baseConfig: GameTypeBase[] = [
     isOutdoor: false,
     isImperial: false,
     distancesRoundSizes: [5],
-    maxDistanceMetres: 25
+    maxDistanceMetres: 25,
+    faceSizes: [60]
   }
 ];
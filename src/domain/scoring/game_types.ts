@@ -1,7 +1,39 @@
-import { baseConfig, imperialPractices, metricPractices, MISS } from "@/domain/scoring/game_type_config";
+import { baseConfig, cloutRounds, fieldRounds, imperialPractices, matchPlayRounds, metricPractices, MISS } from "@/domain/scoring/game_type_config";
 import { meters, toMeters, toYards, yards } from "@/domain/distance/distance";
 import { Round } from "@/domain/scoring/round/round";
 
+export type FieldPeg = "marked" | "unmarked" | "unknown";
+
+/**
+ * A single target on a field course. Every target has its own face and distance.
+ */
+export interface FieldTarget {
+  faceSize: number; // cm
+  peg: FieldPeg;
+  distance?: number; // metres, only known for marked pegs
+  maxDistance?: number; // metres, the furthest an unmarked peg can be for this face
+}
+
+export type FaceType =
+  | "ten-zone" // 122cm, 80cm and 60cm outdoor faces, single 40cm and 60cm indoor faces
+  | "six-ring" // the 80cm face cut down to its inner six rings
+  | "triple-spot" // three 40cm spots, 10 to 6 rings only, one arrow in each
+  | "imperial"
+  | "worcester"
+  | "worcester-5-spot"
+  | "field"
+  | "clout";
+
+export const WORCESTER_FACES: readonly FaceType[] = ["worcester", "worcester-5-spot"] as const;
+
+/**
+ * The face shot at one distance of a round, or on one target of a field course
+ */
+export interface TargetFace {
+  size: number; // cm
+  type: FaceType;
+}
+
 //todo: these types feel pretty meaningless if its all nullable. We can do better modelling of some of the fields around outDoor, isImperial etc.
 export interface GameTypeBase {
   name: string;
@@ -14,6 +46,11 @@ export interface GameTypeBase {
   maxDistanceMetres?: number;
   otherDistancesYards?: number[];
   otherDistancesMetres?: number[];
+  targets?: FieldTarget[];
+  isClout?: boolean;
+  isMatchPlay?: boolean;
+  faceSizes?: number[]; // cm, one per distance when it isn't 122cm outdoors or 40cm indoors
+  faceTypes?: FaceType[]; // one per distance when it isn't the usual face for the round's scoring
 }
 
 export interface GameTypeConfig {
@@ -33,6 +70,10 @@ export interface GameTypeConfig {
   //these two fields probably shouldn't be nullable, just have empty arrays
   otherDistancesYards?: number[];
   otherDistancesMetres?: number[];
+  targets?: FieldTarget[];
+  isClout?: boolean;
+  isMatchPlay?: boolean;
+  faces: TargetFace[]; // one per distance, or one per target for field rounds
 }
 
 export type GameTypeConfigs = Record<string, GameTypeConfig>;
@@ -41,12 +82,18 @@ export type GameTypeConfigs = Record<string, GameTypeConfig>;
 const IMPERIAL_SCORES: readonly (number | string)[] = [9, 7, 5, 3, 1, MISS] as const;
 const OUTDOOR_METRIC_SCORES: readonly (number | string)[] = ["X", 10, 9, 8, 7, 6, 5, 4, 3, 2, 1, MISS] as const;
 const INDOOR_METRIC_SCORES: readonly (number | string)[] = [10, 9, 8, 7, 6, 5, 4, 3, 2, 1, MISS] as const;
+const FIELD_SCORES: readonly (number | string)[] = ["X", 6, 5, 4, 3, 2, 1, MISS] as const;
+const CLOUT_SCORES: readonly (number | string)[] = [5, 4, 3, 2, 1, MISS] as const;
+
+const DEFAULT_OUTDOOR_FACE_SIZE = 122; // cm
+const DEFAULT_INDOOR_FACE_SIZE = 40; // cm
+const WORCESTER_FACE_SIZE = 40.64; // cm, 16 inches
 
 export class RoundConfigManager {
   private readonly configs: GameTypeConfigs;
   private readonly rounds: Map<string, Round>;
 
-  constructor(baseConfigs: GameTypeBase[] = [...baseConfig, ...imperialPractices, ...metricPractices]) {
+  constructor(baseConfigs: GameTypeBase[] = [...baseConfig, ...fieldRounds, ...cloutRounds, ...matchPlayRounds, ...imperialPractices, ...metricPractices]) {
     this.configs = this.calculateConfigFromBase(baseConfigs);
 
     this.rounds = new Map();
@@ -72,6 +119,19 @@ export class RoundConfigManager {
     return this.rounds.get(roundName.toLowerCase());
   }
 
+  // Adds (or replaces) a round at runtime, e.g. a user-defined custom round
+  public registerRound(gameType: GameTypeBase): GameTypeConfig {
+    const config = this.calculateConfigFromBase([gameType])[gameType.name];
+    this.configs[gameType.name] = config;
+    this.rounds.set(gameType.name.toLowerCase(), new Round(config));
+    return config;
+  }
+
+  public unregisterRound(roundName: string): void {
+    delete this.configs[roundName];
+    this.rounds.delete(roundName.toLowerCase());
+  }
+
   private calculateConfigFromBase(baseConfigs: GameTypeBase[]): GameTypeConfigs {
     const rounds = baseConfigs.reduce<Record<string, GameTypeConfig>>((acc, gameType) => {
       const endSize: number = this.calculateEndSize(gameType.endSize);
@@ -104,7 +164,11 @@ export class RoundConfigManager {
           maxDistanceMetres,
           maxDistanceYards,
           otherDistancesYards: gameType.otherDistancesYards,
-          otherDistancesMetres: gameType.otherDistancesMetres
+          otherDistancesMetres: gameType.otherDistancesMetres,
+          targets: gameType.targets,
+          isClout: gameType.isClout,
+          isMatchPlay: gameType.isMatchPlay,
+          faces: this.calculateFaces(gameType)
         }
       });
     }, {});
@@ -131,10 +195,44 @@ export class RoundConfigManager {
     return 6;
   }
 
-  private calculateScoresForGame({ isImperial, isOutdoor }: {
+  private calculateFaces(gameType: GameTypeBase): TargetFace[] {
+    if (gameType.targets) {
+      return gameType.targets.map(target => ({ size: target.faceSize, type: "field" }));
+    }
+
+    const distances = Math.max(gameType.distancesRoundSizes?.length ?? 1, 1);
+    return Array.from({ length: distances }, (_, index) => {
+      const type = gameType.faceTypes?.[index] ?? this.calculateDefaultFaceType(gameType);
+      return { size: gameType.faceSizes?.[index] ?? this.calculateDefaultFaceSize(gameType, type), type };
+    });
+  }
+
+  private calculateDefaultFaceType({ isImperial, isClout }: GameTypeBase): FaceType {
+    if (isClout) {
+      return "clout";
+    }
+    return isImperial ? "imperial" : "ten-zone";
+  }
+
+  private calculateDefaultFaceSize({ isOutdoor }: GameTypeBase, type: FaceType): number {
+    if (WORCESTER_FACES.includes(type)) {
+      return WORCESTER_FACE_SIZE;
+    }
+    return isOutdoor ? DEFAULT_OUTDOOR_FACE_SIZE : DEFAULT_INDOOR_FACE_SIZE;
+  }
+
+  private calculateScoresForGame({ isImperial, isOutdoor, targets, isClout }: {
     isImperial?: boolean,
-    isOutdoor?: boolean
+    isOutdoor?: boolean,
+    targets?: FieldTarget[],
+    isClout?: boolean
   }): (number | string)[] {
+    if (targets) {
+      return [...FIELD_SCORES];
+    }
+    if (isClout) {
+      return [...CLOUT_SCORES];
+    }
     if (isImperial) {
       return [...IMPERIAL_SCORES];
     }
@@ -155,3 +253,22 @@ export const gameTypes: string[] = gameTypeManagerInstance.getAllGameTypes();
 
 // Export the instance for new code to use
 export const roundConfigManager = gameTypeManagerInstance;
+
+// Registers a round at runtime, keeping the backward compatible exports in sync
+export function registerRound(gameType: GameTypeBase): GameTypeConfig {
+  const config = roundConfigManager.registerRound(gameType);
+  gameTypeConfig[config.name] = config;
+  if (!gameTypes.includes(config.name)) {
+    gameTypes.push(config.name);
+  }
+  return config;
+}
+
+export function unregisterRound(roundName: string): void {
+  roundConfigManager.unregisterRound(roundName);
+  delete gameTypeConfig[roundName];
+  const index = gameTypes.indexOf(roundName);
+  if (index !== -1) {
+    gameTypes.splice(index, 1);
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, test } from "vitest";
+import { analyseGroup, analyseShootGroups, arrowImpact, shotDistances, sightCorrection } from "@/domain/scoring/group_analysis";
+import { registerRound, roundConfigManager, unregisterRound } from "@/domain/scoring/game_types";
+
+const FACE_WIDTH = 200;
+
+// position on a 200px face drawn with 10 rings, so each ring is 10px wide
+function plotted(ringsRight: number, ringsUp: number, end = 0) {
+  return { position: { x: 100 + ringsRight * 10, y: 100 - ringsUp * 10 }, end, faceWidth: FACE_WIDTH };
+}
+
+describe("arrowImpact", () => {
+  test("measures from the centre of the face in rings, up being positive", () => {
+    expect(arrowImpact(plotted(2, 3), "ten-zone", 10, 0)).toEqual({ id: undefined, x: 2, y: 3 });
+  });
+
+  test("measures from the centre of the spot the arrow landed on", () => {
+    const bottomSpot = { position: { x: 100, y: 2 * FACE_WIDTH + 80 }, end: 0, faceWidth: FACE_WIDTH };
+
+    expect(arrowImpact(bottomSpot, "triple-spot", 10, 0)).toEqual({ id: undefined, x: 0, y: 2 });
+  });
+
+  test("uses the fallback width for arrows plotted before it was recorded", () => {
+    expect(arrowImpact({ position: { x: 150, y: 100 }, end: 0 }, "ten-zone", 10, FACE_WIDTH)?.x).toBe(5);
+    expect(arrowImpact({ position: null, end: 0 }, "ten-zone", 10, FACE_WIDTH)).toBeNull();
+  });
+});
+
+describe("analyseGroup", () => {
+  test("finds the mean point of impact and spread", () => {
+    const group = analyseGroup([
+      { x: 1, y: 2 }, { x: 3, y: 2 }, { x: 2, y: 1 }, { x: 2, y: 3 }
+    ]);
+
+    expect(group?.centre).toEqual({ x: 2, y: 2 });
+    expect(group?.radius).toBe(1);
+    expect(group?.flyers).toBe(0);
+  });
+
+  test("leaves flyers out of the centre", () => {
+    const tight = [
+      { x: 0, y: 0.2 }, { x: 0.2, y: 0 }, { x: -0.2, y: 0 }, { x: 0, y: -0.2 },
+      { x: 0.1, y: 0.1 }, { x: -0.1, y: -0.1 }, { x: 0.1, y: -0.1 }, { x: -0.1, y: 0.1 }
+    ];
+    const group = analyseGroup([...tight, { x: 6, y: 6 }]);
+
+    expect(group?.flyers).toBe(1);
+    expect(group?.arrows[8].isFlyer).toBe(true);
+    expect(group?.centre).toEqual({ x: 0, y: 0 });
+  });
+
+  test("only suggests a sight correction once there are enough arrows", () => {
+    const highGroup = Array.from({ length: 6 }, (_, i) => ({ x: i % 2 ? 0.2 : -0.2, y: 2 }));
+
+    expect(analyseGroup(highGroup)?.sightCorrection).toEqual({
+      vertical: "up",
+      horizontal: null,
+      rings: { vertical: 2, horizontal: 0 }
+    });
+    expect(analyseGroup(highGroup.slice(0, 3))?.sightCorrection).toBeNull();
+  });
+});
+
+describe("sightCorrection", () => {
+  test("follows the arrow", () => {
+    expect(sightCorrection({ x: -1.5, y: -0.8 })).toMatchObject({ vertical: "down", horizontal: "left" });
+  });
+
+  test("leaves a centred group alone", () => {
+    expect(sightCorrection({ x: 0.3, y: -0.2 })).toBeNull();
+  });
+});
+
+describe("analyseShootGroups", () => {
+  test("analyses each distance of a multi distance round", () => {
+    const round = roundConfigManager.getRound("national")!;
+    // imperial faces are drawn with five rings, each 20px wide on a 200px face
+    const arrows = [
+      ...Array.from({ length: 6 }, () => ({ position: { x: 100, y: 60 }, end: 0, faceWidth: FACE_WIDTH })),
+      ...Array.from({ length: 6 }, () => ({ position: { x: 140, y: 100 }, end: 8, faceWidth: FACE_WIDTH }))
+    ];
+
+    const analysis = analyseShootGroups(arrows, round, "recurve", 0);
+
+    expect(analysis.map(a => a.label)).toEqual(["Whole shoot", "60yd", "50yd"]);
+    expect(analysis[1].group.centre).toEqual({ x: 0, y: 2 });
+    expect(analysis[2].group.centre).toEqual({ x: 2, y: 0 });
+    expect(analysis[2].distance).toEqual({ metres: null, yards: 50, label: "50yd" });
+  });
+
+  test("only gives one analysis when every arrow was at one distance", () => {
+    const round = roundConfigManager.getRound("portsmouth")!;
+
+    const analysis = analyseShootGroups([plotted(0, 1), plotted(1, 0)], round, "recurve", 0);
+
+    expect(analysis).toHaveLength(1);
+    expect(analysis[0].distance).toMatchObject({ yards: 20, label: "20yd" });
+  });
+});
+
+describe("shotDistances", () => {
+  test("labels each distance in the unit the round is shot in", () => {
+    expect(shotDistances(roundConfigManager.getRound("national")!).map(distance => distance.label)).toEqual(["60yd", "50yd"]);
+    expect(shotDistances(roundConfigManager.getRound("wa 1440 (90m)")!).map(distance => distance.label))
+      .toEqual(["90m", "70m", "50m", "30m"]);
+    expect(shotDistances(roundConfigManager.getRound("wa 18m")!)[0].label).toBe("18m");
+  });
+
+  test("keeps indoor rounds set in yards in yards", () => {
+    ["portsmouth", "worcester", "bray i", "vegas 300"].forEach(name => {
+      expect(shotDistances(roundConfigManager.getRound(name)!)[0].label).toBe("20yd");
+    });
+  });
+
+  test("keeps a metric round in metres when its distance isn't a whole number", () => {
+    registerRound({ name: "club 22.5m", isOutdoor: true, isImperial: false, distancesRoundSizes: [6], maxDistanceMetres: 22.5 });
+
+    expect(shotDistances(roundConfigManager.getRound("club 22.5m")!)[0]).toMatchObject({ metres: 22.5, label: "22.5m" });
+
+    unregisterRound("club 22.5m");
+  });
+});
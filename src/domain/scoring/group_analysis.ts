@@ -0,0 +1,214 @@
+import { Round } from "@/domain/scoring/round/round";
+import { FaceType } from "@/domain/scoring/game_types";
+import { mean, round2, standardDeviation } from "@/domain/scoring/statistics";
+
+/**
+ * An arrow as plotted on the target face while scoring
+ */
+export interface PlottedArrow {
+  id?: number;
+  position: { x: number; y: number } | null; // px from the top left of the target face
+  end: number; // zero based
+  faceWidth?: number; // px, how wide the face was drawn when the arrow was plotted
+}
+
+/**
+ * Where an arrow landed, in rings from the centre of its spot, up and right being positive
+ */
+export interface ArrowImpact {
+  id?: number;
+  x: number;
+  y: number;
+}
+
+export interface SightCorrection {
+  vertical: "up" | "down" | null;
+  horizontal: "left" | "right" | null;
+  rings: { vertical: number; horizontal: number };
+}
+
+export interface GroupAnalysis {
+  arrows: (ArrowImpact & { isFlyer: boolean })[];
+  centre: { x: number; y: number }; // mean point of impact, leaving out flyers
+  radius: number; // average distance of the grouped arrows from the centre, in rings
+  standardDeviation: number; // radial, in rings
+  flyers: number;
+  sightCorrection: SightCorrection | null;
+}
+
+export interface ShotDistance {
+  metres: number | null;
+  yards: number | null;
+  label: string;
+}
+
+export interface DistanceGroupAnalysis {
+  distanceIndex: number | null; // null for the whole shoot
+  distance: ShotDistance | null; // null when the arrows were shot at more than one distance
+  label: string;
+  group: GroupAnalysis;
+}
+
+export const MIN_ARROWS_FOR_FLYERS = 6;
+export const MIN_ARROWS_FOR_SIGHT_CORRECTION = 6;
+// Less than half a ring off centre is as good as the archer can see on the boss
+const SIGHT_CORRECTION_THRESHOLD = 0.5;
+const FLYER_STANDARD_DEVIATIONS = 2;
+
+function centreOf(arrows: ArrowImpact[]): { x: number; y: number } {
+  return { x: mean(arrows.map(arrow => arrow.x)), y: mean(arrows.map(arrow => arrow.y)) };
+}
+
+function distanceFrom(centre: { x: number; y: number }, arrow: ArrowImpact): number {
+  return Math.hypot(arrow.x - centre.x, arrow.y - centre.y);
+}
+
+/**
+ * How wide the face was drawn for arrows plotted before the face width was saved: 90vmin, 30vmin for each triple spot
+ * @param viewportMin px, the smaller of the window's width and height
+ */
+export function legacyFaceWidth(faceType: FaceType, viewportMin: number): number {
+  return (faceType === "triple-spot" ? 30 : 90) * viewportMin / 100;
+}
+
+/**
+ * Converts a plotted position to rings from the centre of the spot it landed on
+ * @param ringCount how many scoring rings the face was drawn with, the X counting as one
+ * @param fallbackFaceWidth for arrows plotted before the face width was recorded
+ */
+export function arrowImpact(arrow: PlottedArrow, faceType: FaceType, ringCount: number, fallbackFaceWidth: number): ArrowImpact | null {
+  const width = arrow.faceWidth || fallbackFaceWidth;
+  if (!arrow.position || !(width > 0) || ringCount < 1) {
+    return null;
+  }
+
+  const spots = faceType === "triple-spot" ? 3 : 1;
+  const spot = Math.min(Math.max(Math.floor(arrow.position.y / width), 0), spots - 1);
+  const spotRadius = width / 2;
+
+  return {
+    id: arrow.id,
+    x: (arrow.position.x - spotRadius) / spotRadius * ringCount,
+    y: -(arrow.position.y - width * spot - spotRadius) / spotRadius * ringCount
+  };
+}
+
+/**
+ * Follow the arrow: the sight moves towards the group, which moves the group towards the middle
+ */
+export function sightCorrection(centre: { x: number; y: number }): SightCorrection | null {
+  const vertical = Math.abs(centre.y) >= SIGHT_CORRECTION_THRESHOLD ? (centre.y > 0 ? "up" : "down") : null;
+  const horizontal = Math.abs(centre.x) >= SIGHT_CORRECTION_THRESHOLD ? (centre.x > 0 ? "right" : "left") : null;
+  if (!vertical && !horizontal) {
+    return null;
+  }
+
+  return {
+    vertical,
+    horizontal,
+    rings: { vertical: round2(Math.abs(centre.y)), horizontal: round2(Math.abs(centre.x)) }
+  };
+}
+
+/**
+ * Finds the mean point of impact and spread of a group.
+ * Arrows more than two standard deviations further out than the rest are flyers, and are left out of the centre and spread.
+ */
+export function analyseGroup(impacts: ArrowImpact[]): GroupAnalysis | null {
+  if (impacts.length === 0) {
+    return null;
+  }
+
+  let flyers = new Set<ArrowImpact>();
+  if (impacts.length >= MIN_ARROWS_FOR_FLYERS) {
+    const centre = centreOf(impacts);
+    const distances = impacts.map(arrow => distanceFrom(centre, arrow));
+    const limit = mean(distances) + FLYER_STANDARD_DEVIATIONS * standardDeviation(distances);
+    flyers = new Set(impacts.filter((arrow, index) => distances[index] > limit));
+  }
+
+  const grouped = impacts.filter(arrow => !flyers.has(arrow));
+  const centre = centreOf(grouped);
+  const distances = grouped.map(arrow => distanceFrom(centre, arrow));
+
+  return {
+    arrows: impacts.map(arrow => ({ ...arrow, isFlyer: flyers.has(arrow) })),
+    centre: { x: round2(centre.x), y: round2(centre.y) },
+    radius: round2(mean(distances)),
+    standardDeviation: round2(Math.sqrt(distances.reduce((total, distance) => total + distance * distance, 0) / Math.max(grouped.length - 1, 1))),
+    flyers: flyers.size,
+    sightCorrection: grouped.length >= MIN_ARROWS_FOR_SIGHT_CORRECTION ? sightCorrection(centre) : null
+  };
+}
+
+/**
+ * The distances a round is shot at, longest first, labelled in the unit the round is shot in
+ */
+export function shotDistances(round: Round): ShotDistance[] {
+  // The longest distance is held in both units, the one it was set in is the whole number.
+  // Not the round's unit, indoor rounds like the Portsmouth are metric but shot at 20yd
+  const inYards = Number.isInteger(round.maxDistanceYards) && !Number.isInteger(round.maxDistanceMetres);
+  const longest = {
+    metres: round.maxDistanceMetres,
+    yards: round.maxDistanceYards,
+    label: inYards ? `${round.maxDistanceYards}yd` : `${round.maxDistanceMetres}m`
+  };
+  const others = [
+    ...(round.otherDistancesYards ?? []).map(yards => ({ metres: null, yards, label: `${yards}yd` })),
+    ...(round.otherDistancesMetres ?? []).map(metres => ({ metres, yards: null, label: `${metres}m` }))
+  ];
+  return [longest, ...others];
+}
+
+/**
+ * Group analysis for a whole shoot, and for each distance of multi distance rounds
+ * @param fallbackFaceWidth px, for arrows plotted before the face width was recorded
+ */
+export function analyseShootGroups(
+  arrows: PlottedArrow[],
+  round: Round,
+  bowType: string | undefined,
+  fallbackFaceWidth: number
+): DistanceGroupAnalysis[] {
+  const ringCount = round.getScores(bowType).filter(score => score !== "M").length;
+  const impactsByDistance = new Map<number, ArrowImpact[]>();
+  const allImpacts: ArrowImpact[] = [];
+
+  arrows.forEach(arrow => {
+    const arrowIndex = arrow.end * round.endSize;
+    const impact = arrowImpact(arrow, round.faceForArrow(arrowIndex).type, ringCount, fallbackFaceWidth);
+    if (!impact) {
+      return;
+    }
+    allImpacts.push(impact);
+
+    const distanceIndex = round.distanceIndexForArrow(arrowIndex);
+    impactsByDistance.set(distanceIndex, [...(impactsByDistance.get(distanceIndex) ?? []), impact]);
+  });
+
+  const overall = analyseGroup(allImpacts);
+  if (!overall) {
+    return [];
+  }
+
+  const distances = shotDistances(round);
+  // Field targets are all at different distances, so there is nothing to split by
+  if (round.isFieldRound()) {
+    return [{ distanceIndex: null, distance: null, label: "Whole course", group: overall }];
+  }
+  if (impactsByDistance.size < 2) {
+    const [distanceIndex] = impactsByDistance.keys();
+    const distance = distances[distanceIndex] ?? null;
+    return [{ distanceIndex, distance, label: distance?.label ?? "Whole shoot", group: overall }];
+  }
+
+  const results: DistanceGroupAnalysis[] = [{ distanceIndex: null, distance: null, label: "Whole shoot", group: overall }];
+  [...impactsByDistance.keys()].sort((a, b) => a - b).forEach(distanceIndex => {
+    const group = analyseGroup(impactsByDistance.get(distanceIndex) ?? []);
+    const distance = distances[distanceIndex] ?? null;
+    if (group) {
+      results.push({ distanceIndex, distance, label: distance?.label ?? `Distance ${distanceIndex + 1}`, group });
+    }
+  });
+  return results;
+}
@@ -1,23 +1,80 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { addHandicapToHistory, createHandicapCalculator } from './handicap'
+import { beforeEach, describe, it, expect } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+import {
+  addHandicapToHistory,
+  AGB_2023,
+  createHandicapCalculator,
+  handicapSchemes,
+  handicapTable,
+  MAX_HANDICAP,
+  roundPasses
+} from './handicap'
+import { registerRound, roundConfigManager, unregisterRound } from '@/domain/scoring/game_types'
+import { toGameTypeBase } from '@/domain/scoring/custom_rounds'
 
-// Mock the fetch function
-global.fetch = vi.fn()
+// The AGB 2023 tables the app used to download, score for handicap 0 to 150 by round
+const publishedTables: Record<string, number[]> = JSON.parse(
+  fs.readFileSync(path.resolve(__dirname, './__snapshots__/handicaps.json'), 'utf-8')
+)
 
 describe('handicap functions', () => {
-  beforeEach(() => {
-    // Reset mocks before each test
-    vi.resetAllMocks()
-
-    // Mock the fetch response for handicap data
-    // Using arrays that match the actual logic in createHandicapCalculator
-    const mockHandicapData = {
-      'national 40': [300, 350, 400, 450, 500, 550],
-      'portsmouth': [400, 450, 500, 550, 580, 590]
-    }
-
-    global.fetch.mockResolvedValue({
-      json: () => Promise.resolve(mockHandicapData)
+  describe('handicapTable', () => {
+    it.each(Object.keys(publishedTables).filter(name => roundConfigManager.getRound(name)))(
+      'matches the published table for %s',
+      (roundName) => {
+        const round = roundConfigManager.getRound(roundName)!
+
+        expect(handicapTable(round)).toEqual(publishedTables[roundName])
+      }
+    )
+
+    it('handicaps rounds that are not in the published tables', () => {
+      const calculator = createHandicapCalculator('wa field 12 marked')!
+
+      expect(calculator(150)).toBeGreaterThan(0)
+      expect(calculator(0)).toBe(MAX_HANDICAP)
+    })
+
+    it('uses the arrows shot for practice rounds', () => {
+      const practice = roundConfigManager.getRound('practice 30m')!
+
+      expect(roundPasses(practice, 'recurve', 36)).toEqual([{ arrows: 36, distanceMetres: 30, faceSizeCm: 122, zones: 'ten-zone' }])
+      expect(roundPasses(practice, 'recurve')).toBeNull()
+    })
+
+    it('gives compounds a harder table indoors, where only the inner ten scores 10', () => {
+      const wa18 = roundConfigManager.getRound('wa 18m')!
+
+      expect(handicapTable(wa18, 'compound')![20]).toBeLessThan(handicapTable(wa18, 'recurve')![20])
+    })
+
+    it('cannot handicap clout', () => {
+      expect(createHandicapCalculator('clout 180yd')!(100)).toBeNull()
+    })
+  })
+
+  describe('createHandicapCalculator', () => {
+    it('gives the best handicap whose score has been reached', () => {
+      const calculator = createHandicapCalculator('portsmouth')!
+
+      expect(calculator(publishedTables.portsmouth[40])).toBe(40)
+      expect(calculator(publishedTables.portsmouth[39] - 1)).toBe(40)
+    })
+
+    it('handicaps custom rounds', () => {
+      registerRound(toGameTypeBase({
+        name: 'club handicap',
+        isImperial: true,
+        isOutdoor: true,
+        endSize: 6,
+        scoring: 'imperial',
+        distances: [{ distance: 60, dozens: 3 }]
+      }))
+
+      expect(createHandicapCalculator('club handicap')!(250)).toEqual(expect.any(Number))
+
+      unregisterRound('club handicap')
     })
   })
 
@@ -46,22 +103,65 @@ describe('handicap functions', () => {
       expect(result).toHaveLength(2)
       expect(result[0].handicap).toBe(2) // Should preserve the existing handicap
       expect(result[1].handicap).toBe(3) // Should preserve the existing handicap
-
-      // Verify fetch was not called since we already have handicaps
-      expect(fetch).not.toHaveBeenCalled()
     })
 
+    it('should add handicaps without a network request', async () => {
+      const result = await addHandicapToHistory([
+        { id: 1, gameType: 'portsmouth', score: publishedTables.portsmouth[30] }
+      ])
+
+      expect(result[0].handicap).toBe(30)
+    })
 
     it('should handle empty history array', async () => {
       // Arrange
-      const scoringHistory = []
+      const scoringHistory: { gameType: string; score: number }[] = []
 
       // Act
       const result = await addHandicapToHistory(scoringHistory)
 
       // Assert
       expect(result).toEqual([])
-      expect(fetch).not.toHaveBeenCalled()
+    })
+
+    describe('with a newer handicap scheme', () => {
+      beforeEach(() => {
+        handicapSchemes.push({ ...AGB_2023, name: 'AGB 2030', effectiveFrom: '2030-01-01', step: 4 })
+        return () => {
+          handicapSchemes.pop()
+        }
+      })
+
+      it('should handicap each shoot with the scheme in force when it was shot', async () => {
+        const score = publishedTables.portsmouth[30]
+        const result = await addHandicapToHistory([
+          { id: 1, gameType: 'portsmouth', score, date: '2029-06-01' },
+          { id: 2, gameType: 'portsmouth', score, date: '2030-06-01' }
+        ])
+
+        expect(result[0]).toEqual(expect.objectContaining({ handicap: 30, handicapScheme: 'AGB 2023' }))
+        expect(result[1].handicapScheme).toBe('AGB 2030')
+        expect(result[1].handicap).not.toBe(30)
+      })
+
+      it('should only recalculate handicaps from a different scheme', async () => {
+        const result = await addHandicapToHistory([
+          { id: 1, gameType: 'portsmouth', score: 500, date: '2030-06-01', handicap: 12, handicapScheme: 'AGB 2030' },
+          { id: 2, gameType: 'portsmouth', score: 500, date: '2030-06-01', handicap: 12, handicapScheme: 'AGB 2023' }
+        ])
+
+        expect(result[0].handicap).toBe(12)
+        expect(result[1].handicap).not.toBe(12)
+      })
+
+      it('should judge old shoots by the current scheme when asked', async () => {
+        const result = await addHandicapToHistory(
+          [{ id: 1, gameType: 'portsmouth', score: publishedTables.portsmouth[30], date: '2029-06-01' }],
+          { currentTables: true }
+        )
+
+        expect(result[0].handicapScheme).toBe('AGB 2030')
+      })
     })
   })
-})
\ No newline at end of file
+})
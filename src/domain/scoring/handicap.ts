@@ -1,57 +1,282 @@
-const handicapCache = {};
+import { roundConfigManager } from "@/domain/scoring/game_types";
+import { Round } from "@/domain/scoring/round/round";
+import { currentVersion, TableVersion, versionInForce } from "@/domain/scoring/table_versions";
 
-async function loadHandicapsByCategory(round) {
-    const path = `/data/handicaps.json`;
-    const response = await fetch(path);
-    const data = await response.json();
-    return data[round];
+export const MIN_HANDICAP = 0;
+export const MAX_HANDICAP = 150;
+
+/**
+ * The constants of a handicap scheme: an archer's arrows spread with an angle that grows by step percent
+ * per handicap point, plus a drag term that widens the group with distance
+ */
+export interface HandicapScheme extends TableVersion {
+  datum: number;
+  step: number;
+  angle0: number; // radians
+  kd: number; // per metre
+  indoorArrowDiameter: number; // metres
+  outdoorArrowDiameter: number; // metres
 }
 
-export async function createHandicapCalculator(roundName) {
-  if (!roundName) {
+// AGB assume the same arrows for every bow style, fat indoor arrows and thin outdoor ones
+export const AGB_2023: HandicapScheme = {
+  name: "AGB 2023",
+  effectiveFrom: "2023-01-01",
+  datum: 6,
+  step: 3.5,
+  angle0: 5.0e-4,
+  kd: 0.00365,
+  indoorArrowDiameter: 9.3e-3,
+  outdoorArrowDiameter: 5.5e-3
+};
+
+export const handicapSchemes: HandicapScheme[] = [AGB_2023];
+
+export type ScoringZones = "imperial" | "ten-zone" | "inner-ten" | "worcester" | "field";
+
+/**
+ * Arrows shot at one distance on one face
+ */
+export interface RoundPass {
+  arrows: number;
+  distanceMetres: number;
+  faceSizeCm: number;
+  zones: ScoringZones;
+}
+
+/**
+ * The radial spread of an archer's group, in metres, at a distance
+ */
+export function groupSpread(handicap: number, distanceMetres: number, scheme: HandicapScheme = currentVersion(handicapSchemes)): number {
+  const angle = scheme.angle0 * Math.pow(1 + scheme.step / 100, handicap + scheme.datum) * Math.exp(scheme.kd * distanceMetres);
+  return distanceMetres * angle;
+}
+
+/**
+ * Average score of one arrow, from the chance of it landing outside each ring (its line cut by the arrow's radius)
+ */
+export function expectedArrowScore(
+  handicap: number,
+  pass: RoundPass,
+  arrowDiameter: number,
+  scheme: HandicapScheme = currentVersion(handicapSchemes)
+): number {
+  const spread = groupSpread(handicap, pass.distanceMetres, scheme);
+  const diameter = pass.faceSizeCm / 100;
+  const outside = (ringRadius: number) => Math.exp(-Math.pow((ringRadius + arrowDiameter / 2) / spread, 2));
+  const sum = (from: number, to: number, ringRadius: (n: number) => number) => {
+    let total = 0;
+    for (let n = from; n <= to; n++) {
+      total += outside(ringRadius(n));
+    }
+    return total;
+  };
+
+  switch (pass.zones) {
+    case "imperial":
+      return 9 - 2 * sum(1, 4, n => n * diameter / 10) - outside(diameter / 2);
+    case "worcester":
+      return 5 - sum(1, 5, n => n * diameter / 10);
+    case "field":
+      return 6 - outside(diameter / 20) - sum(1, 5, n => n * diameter / 10);
+    case "inner-ten":
+      return 10 - outside(diameter / 40) - sum(2, 10, n => n * diameter / 20);
+    case "ten-zone":
+      return 10 - sum(1, 10, n => n * diameter / 20);
+  }
+}
+
+function scoringZones(round: Round, bowType?: string): ScoringZones | null {
+  switch (round.faces[0]?.type) {
+    case "field":
+      return "field";
+    case "imperial":
+      return "imperial";
+    case "worcester":
+    case "worcester-5-spot":
+      return "worcester";
+    case "ten-zone":
+    case "six-ring":
+    case "triple-spot":
+      // Compounds only score the inner ten indoors, outdoors the X is just a tie-breaker
+      return bowType === "compound" && !round.isOutdoor ? "inner-ten" : "ten-zone";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Breaks a round into the distances and faces it is shot on
+ * @param arrowsShot how many arrows were shot, for practice rounds that have no set length
+ * @returns null when the round can't be handicapped, e.g. clout or field targets at unknown distances
+ */
+export function roundPasses(round: Round, bowType?: string, arrowsShot?: number): RoundPass[] | null {
+  const zones = scoringZones(round, bowType);
+  if (!zones) {
     return null;
   }
 
-  let handicaps = handicapCache[roundName];
-  if (!handicaps) {
-    handicaps = await loadHandicapsByCategory(roundName);
-    handicapCache[roundName] = handicaps;
+  if (round.targets) {
+    if (round.targets.some(target => target.distance === undefined && target.maxDistance === undefined)) {
+      return null;
+    }
+    return round.targets.map(target => ({
+      arrows: round.endSize,
+      distanceMetres: (target.distance ?? target.maxDistance) as number,
+      faceSizeCm: target.faceSize,
+      zones
+    }));
+  }
+
+  const distances = round.distancesInMetres();
+
+  if (round.isPracticeRound) {
+    return arrowsShot
+      ? [{ arrows: arrowsShot, distanceMetres: distances[0], faceSizeCm: round.faces[0].size, zones }]
+      : null;
+  }
+
+  return (round.distancesRoundSizes ?? []).map((size, index) => ({
+    arrows: size * round.endSize * 2,
+    distanceMetres: distances[Math.min(index, distances.length - 1)],
+    faceSizeCm: round.faces[Math.min(index, round.faces.length - 1)].size,
+    zones
+  }));
+}
+
+/**
+ * The score an archer of this handicap is expected to shoot, rounded up as in the AGB tables
+ */
+export function scoreForHandicap(
+  passes: RoundPass[],
+  handicap: number,
+  isOutdoor: boolean,
+  scheme: HandicapScheme = currentVersion(handicapSchemes)
+): number {
+  const arrowDiameter = isOutdoor ? scheme.outdoorArrowDiameter : scheme.indoorArrowDiameter;
+  const score = passes.reduce((total, pass) => total + pass.arrows * expectedArrowScore(handicap, pass, arrowDiameter, scheme), 0);
+  return Math.ceil(score);
+}
+
+/**
+ * Scores for every handicap from MIN_HANDICAP to MAX_HANDICAP
+ */
+export function handicapTable(
+  round: Round,
+  bowType?: string,
+  arrowsShot?: number,
+  scheme: HandicapScheme = currentVersion(handicapSchemes)
+): number[] | null {
+  const passes = roundPasses(round, bowType, arrowsShot);
+  if (!passes) {
+    return null;
+  }
+
+  const table = [];
+  for (let handicap = MIN_HANDICAP; handicap <= MAX_HANDICAP; handicap++) {
+    table.push(scoreForHandicap(passes, handicap, round.isOutdoor, scheme));
+  }
+  return table;
+}
+
+// Keyed by the Round itself, so editing a custom round (which registers a new Round) drops its old tables
+const handicapCache = new WeakMap<Round, Map<string, number[] | null>>();
+
+function cachedHandicapTable(round: Round, scheme: HandicapScheme, bowType?: string, arrowsShot?: number): number[] | null {
+  const tables = handicapCache.get(round) ?? new Map<string, number[] | null>();
+  handicapCache.set(round, tables);
+
+  const key = `${scheme.name}|${scoringZones(round, bowType)}|${round.isPracticeRound ? arrowsShot : ""}`;
+  if (!tables.has(key)) {
+    tables.set(key, handicapTable(round, bowType, arrowsShot, scheme));
+  }
+  return tables.get(key) ?? null;
+}
+
+export function createHandicapCalculator(
+  roundName: string,
+  bowType?: string,
+  arrowsShot?: number,
+  scheme: HandicapScheme = currentVersion(handicapSchemes)
+): ((score: number) => number | null) | null {
+  if (!roundName) {
+    return null;
   }
-  
-  //always return null if round cannot be found
+
+  const round = roundConfigManager.getRound(roundName);
+  const handicaps = round ? cachedHandicapTable(round, scheme, bowType, arrowsShot) : null;
+
+  //always return null if the round cannot be handicapped
   if (!handicaps) {
-    return () => {return null};
+    return () => null;
   }
   return (score) => {
     for (let i = 0; i < handicaps.length; i++) {
-        if (handicaps[i] <= score && handicaps[i + 1] !== score) {
-          return i;
-        }
+      if (handicaps[i] <= score && handicaps[i + 1] !== score) {
+        return i;
       }
+    }
+    return MAX_HANDICAP;
   };
 }
 
+/**
+ * The score an archer of this handicap would be expected to shoot on a round
+ * @returns null when the round can't be handicapped
+ */
+export function predictScore(
+  roundName: string,
+  handicap: number,
+  bowType?: string,
+  scheme: HandicapScheme = currentVersion(handicapSchemes)
+): number | null {
+  const round = roundConfigManager.getRound(roundName);
+  const handicaps = round ? cachedHandicapTable(round, scheme, bowType) : null;
+  if (!handicaps) {
+    return null;
+  }
+
+  const index = Math.min(Math.max(Math.round(handicap), MIN_HANDICAP), MAX_HANDICAP);
+  return handicaps[index - MIN_HANDICAP];
+}
+
+/**
+ * @returns a calculator using the scheme in force on the date a round was shot, or today's without a date
+ */
 export function calculateHandicap() {
-  return async (roundName, score) => {
-    const calculator = await createHandicapCalculator(roundName);
+  return (roundName: string, score: number, bowType?: string, arrowsShot?: number, date?: string | Date | null) => {
+    const calculator = createHandicapCalculator(roundName, bowType, arrowsShot, versionInForce(handicapSchemes, date));
     if (calculator) {
       return calculator(score);
     }
   };
 }
 
-export async function addHandicapToHistory(scoringHistory) {
+/**
+ * Handicaps each shoot with the scheme in force when it was shot, keeping any it already has from that scheme
+ * @param options.currentTables handicap every shoot with today's scheme instead
+ */
+export async function addHandicapToHistory<T extends {
+  gameType: string;
+  score: number;
+  date?: string;
+  handicap?: number | null;
+  handicapScheme?: string;
+  scores?: unknown[];
+  userProfile?: { bowType?: string };
+}>(scoringHistory: T[], { currentTables = false } = {}): Promise<(T & { handicap?: number | null; handicapScheme?: string })[]> {
   const handicapCalculator = calculateHandicap();
-  const updatedHistory = [];
+  const updatedHistory: (T & { handicap?: number | null; handicapScheme?: string })[] = [];
 
   for (const x of scoringHistory) {
-    if (x.handicap) {
+    const scheme = currentTables ? currentVersion(handicapSchemes) : versionInForce(handicapSchemes, x.date);
+    if (x.handicap && (x.handicapScheme ?? scheme.name) === scheme.name) {
       updatedHistory.push(x)
       continue
     }
-    const handicap = await handicapCalculator(x.gameType, x.score);
-    updatedHistory.push({ ...x, handicap });
+    const handicap = handicapCalculator(x.gameType, x.score, x.userProfile?.bowType, x.scores?.length, currentTables ? null : x.date);
+    updatedHistory.push({ ...x, handicap, handicapScheme: scheme.name });
   }
 
   return updatedHistory;
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "vitest";
+import { buildHeatmap, heatmapExtent, normaliseImpact, shootHeatmapPoints } from "@/domain/scoring/heatmap";
+import { roundConfigManager } from "@/domain/scoring/game_types";
+
+const FACE_WIDTH = 200;
+
+describe("normaliseImpact", () => {
+  test("turns rings into an angle using the face size and distance", () => {
+    // the edge of a 122cm face is 61cm out, which is 10 mrad at 61m
+    expect(normaliseImpact({ x: 10, y: 0 }, 10, "ten-zone", 122, 61)).toEqual({ x: 10, y: 0 });
+    expect(normaliseImpact({ x: 0, y: -5 }, 10, "ten-zone", 40, 18)).toEqual({ x: 0, y: -5 * 2 * 10 / 18 });
+  });
+
+  test("knows six ring faces stop at the 5 ring", () => {
+    expect(normaliseImpact({ x: 6, y: 0 }, 6, "six-ring", 80, 24).x).toBeCloseTo(10);
+  });
+});
+
+describe("shootHeatmapPoints", () => {
+  test("makes the same group at different distances land in the same place", () => {
+    const round = roundConfigManager.getRound("wa 1440 (90m)")!;
+    // 90m is shot on a 122cm face and 50m, twelve ends in, on an 80cm face
+    const arrows = [
+      { position: { x: 150, y: 100 }, end: 0, faceWidth: FACE_WIDTH },
+      { position: { x: 150, y: 100 }, end: 12, faceWidth: FACE_WIDTH }
+    ];
+
+    const [at90, at50] = shootHeatmapPoints({ gameType: round.name, bowType: "recurve", arrows }, round, () => 0);
+
+    expect(at90.x).toBeCloseTo(61 / 2 * 10 / 90);
+    expect(at50.x).toBeCloseTo(40 / 2 * 10 / 50);
+  });
+
+  test("leaves out arrows without a position or at an unknown distance", () => {
+    const unknown = roundConfigManager.getRound("field 12 unknown distance")!;
+    const marked = roundConfigManager.getRound("wa field 12 marked")!;
+    const arrows = [{ position: { x: 100, y: 100 }, end: 0, faceWidth: FACE_WIDTH }, { position: null, end: 0 }];
+
+    expect(shootHeatmapPoints({ gameType: marked.name, arrows }, marked, () => 0)).toHaveLength(1);
+    expect(shootHeatmapPoints({ gameType: unknown.name, arrows }, unknown, () => 0)).toEqual([]);
+  });
+});
+
+describe("buildHeatmap", () => {
+  test("counts arrows into cells, high arrows at the top", () => {
+    const heatmap = buildHeatmap([{ x: 0, y: 0 }, { x: 0.1, y: -0.1 }, { x: 0, y: 0.9 }], 1, 3);
+
+    expect(heatmap.cells).toEqual([
+      [0, 1, 0],
+      [0, 2, 0],
+      [0, 0, 0]
+    ]);
+    expect(heatmap.max).toBe(2);
+    expect(heatmap.total).toBe(3);
+  });
+
+  test("shares one extent between periods so they can be compared", () => {
+    const tight = [{ x: 0.5, y: 0.5 }];
+    const wide = [{ x: -3.2, y: 1 }];
+
+    expect(heatmapExtent(tight, wide)).toBe(4);
+    expect(buildHeatmap(tight, heatmapExtent(tight, wide)).extent).toBe(4);
+  });
+});
@@ -0,0 +1,98 @@
+import { Round } from "@/domain/scoring/round/round";
+import { FaceType } from "@/domain/scoring/game_types";
+import { arrowImpact, PlottedArrow } from "@/domain/scoring/group_analysis";
+
+/**
+ * Where an arrow landed as an angle from the middle of the target, in milliradians, up and right being positive.
+ * An angle is the same whatever the face size or distance, so arrows from different rounds can be compared.
+ */
+export interface HeatmapPoint {
+  x: number;
+  y: number;
+}
+
+export interface ShootArrows {
+  gameType: string;
+  bowType?: string;
+  arrows: PlottedArrow[];
+}
+
+export interface Heatmap {
+  extent: number; // mrad from the middle to each edge of the grid
+  cells: number[][]; // arrow counts, rows from the top and columns from the left
+  max: number; // the most arrows in one cell
+  total: number;
+}
+
+export const DEFAULT_GRID_SIZE = 21;
+
+// Six ring faces are drawn out to the 5 ring and triple spots out to the 6, the rest out to the edge of the face
+const DRAWN_FRACTION: Partial<Record<FaceType, number>> = {
+  "six-ring": 0.6,
+  "triple-spot": 0.5
+};
+
+/**
+ * Where an arrow landed, in milliradians
+ * @param ringCount how many scoring rings the face was drawn with, the X counting as one
+ * @param faceSize cm, the full size of the face
+ * @param distanceMetres how far away the target was
+ */
+export function normaliseImpact(
+  rings: { x: number; y: number },
+  ringCount: number,
+  faceType: FaceType,
+  faceSize: number,
+  distanceMetres: number
+): HeatmapPoint {
+  const drawnRadiusCm = faceSize / 2 * (DRAWN_FRACTION[faceType] ?? 1);
+  // 1cm at 10m is one milliradian
+  const toMilliradians = (value: number) => value / ringCount * drawnRadiusCm * 10 / distanceMetres;
+  return { x: toMilliradians(rings.x), y: toMilliradians(rings.y) };
+}
+
+/**
+ * Every plotted arrow of a shoot, in milliradians. Arrows shot at an unknown distance are left out.
+ * @param fallbackFaceWidth px, for arrows plotted before the face width was recorded
+ */
+export function shootHeatmapPoints(shoot: ShootArrows, round: Round, fallbackFaceWidth: (faceType: FaceType) => number): HeatmapPoint[] {
+  const ringCount = round.getScores(shoot.bowType).filter(score => score !== "M").length;
+
+  return shoot.arrows.flatMap(arrow => {
+    const arrowIndex = arrow.end * round.endSize;
+    const face = round.faceForArrow(arrowIndex);
+    const distance = round.distanceMetresForArrow(arrowIndex);
+    const impact = arrowImpact(arrow, face.type, ringCount, fallbackFaceWidth(face.type));
+    if (!impact || !distance) {
+      return [];
+    }
+    return [normaliseImpact(impact, ringCount, face.type, face.size, distance)];
+  });
+}
+
+/**
+ * A grid wide enough for every point in every set, so heatmaps of two periods share a scale
+ */
+export function heatmapExtent(...pointSets: HeatmapPoint[][]): number {
+  const furthest = Math.max(0, ...pointSets.flat().map(point => Math.max(Math.abs(point.x), Math.abs(point.y))));
+  return Math.max(1, Math.ceil(furthest));
+}
+
+/**
+ * Counts the points falling in each cell of a square grid centred on the middle of the target
+ */
+export function buildHeatmap(points: HeatmapPoint[], extent: number = heatmapExtent(points), gridSize = DEFAULT_GRID_SIZE): Heatmap {
+  const cells = Array.from({ length: gridSize }, () => new Array<number>(gridSize).fill(0));
+  const cellOf = (value: number) => Math.min(Math.max(Math.floor((value + extent) / (2 * extent) * gridSize), 0), gridSize - 1);
+
+  points.forEach(point => {
+    cells[cellOf(-point.y)][cellOf(point.x)]++;
+  });
+
+  return {
+    extent,
+    cells,
+    max: Math.max(0, ...cells.flat()),
+    total: points.length
+  };
+}
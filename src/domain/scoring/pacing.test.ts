@@ -0,0 +1,80 @@
+import { describe, expect, test } from "vitest";
+import { evenPaceGhost, paceAgainst, personalBestGhost } from "@/domain/scoring/pacing";
+import { roundConfigManager } from "@/domain/scoring/game_types";
+
+// six arrow ends, each arrow scoring the same
+function ends(...arrowScores: (number | string)[]) {
+  return arrowScores.flatMap(score => Array(6).fill(score));
+}
+
+// ten ends of six
+const portsmouth = roundConfigManager.getRound("portsmouth")!;
+
+describe("personalBestGhost", () => {
+  test("follows the best shoot end by end", () => {
+    const ghost = personalBestGhost({ score: 540, scores: ends(10, 8, 9, 9, 9, 9, 9, 9, 9, 9) }, portsmouth);
+
+    expect(ghost?.runningTotals.slice(0, 3)).toEqual([60, 108, 162]);
+    expect(ghost?.target).toBe(541);
+  });
+
+  test("can't follow a shoot that wasn't scored arrow by arrow", () => {
+    expect(personalBestGhost({ score: 540, scores: [] }, portsmouth)).toBeNull();
+  });
+
+  test("has no pace for practice", () => {
+    const practice = roundConfigManager.getRound("practice 30m")!;
+
+    expect(personalBestGhost({ score: 540, scores: ends(9) }, practice)).toBeNull();
+  });
+});
+
+describe("evenPaceGhost", () => {
+  test("spreads the score evenly over the ends", () => {
+    const ghost = evenPaceGhost("B1", 515, portsmouth);
+
+    expect(ghost?.runningTotals.slice(0, 2)).toEqual([51.5, 103]);
+    expect(ghost?.runningTotals[9]).toBe(515);
+    expect(ghost?.target).toBe(515);
+  });
+});
+
+describe("paceAgainst", () => {
+  const ghost = personalBestGhost({ score: 540, scores: ends(9, 9, 9, 9, 9, 9, 9, 9, 9, 9) }, portsmouth)!;
+
+  test("tracks the running difference at every end", () => {
+    const pace = paceAgainst(ends(10, 8, 8), portsmouth, ghost);
+
+    expect(pace.deltas).toEqual([6, 0, -6]);
+    expect(pace.delta).toBe(-6);
+  });
+
+  test("ignores an end still being shot", () => {
+    expect(paceAgainst([...ends(10), 10, 10], portsmouth, ghost).deltas).toEqual([6]);
+  });
+
+  test("works out what is needed from each end left", () => {
+    const pace = paceAgainst(ends(9, 9, 9, 9), portsmouth, ghost);
+
+    expect(pace.remainingEnds).toBe(6);
+    // 541 - 216 over six ends
+    expect(pace.neededPerEnd).toBe(54.2);
+  });
+
+  test("needs nothing more once the ghost is beaten", () => {
+    const pace = paceAgainst(ends(10, 10, 10, 10, 10, 10, 10), portsmouth, evenPaceGhost("B3", 400, portsmouth)!);
+
+    expect(pace.neededPerEnd).toBe(0);
+  });
+
+  test("has nothing left to need at the end of the round", () => {
+    const pace = paceAgainst(ends(9, 9, 9, 9, 9, 9, 9, 9, 9, 9), portsmouth, ghost);
+
+    expect(pace.remainingEnds).toBe(0);
+    expect(pace.neededPerEnd).toBeNull();
+  });
+
+  test("has no difference before the first end", () => {
+    expect(paceAgainst([], portsmouth, ghost).delta).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { Round } from "@/domain/scoring/round/round";
+import { endTotals } from "@/domain/scoring/consistency";
+
+/**
+ * Someone to shoot against: where they were after each end, and what it takes to beat them
+ */
+export interface Ghost {
+  label: string;
+  target: number; // the total that beats (or for a classification, makes) it
+  runningTotals: number[]; // after each end
+}
+
+export interface Pace {
+  ghost: Ghost;
+  deltas: number[]; // running total against the ghost after each whole end, positive when ahead
+  delta: number | null; // after the latest whole end, null before the first
+  remainingEnds: number;
+  neededPerEnd: number | null; // average end needed from here on, null once the round is done
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function cumulative(values: number[]): number[] {
+  let total = 0;
+  return values.map(value => total += value);
+}
+
+function totalEnds(round: Round): number {
+  return Math.ceil(round.maxArrows / round.endSize);
+}
+
+/**
+ * The archer's best shoot of the round, end by end
+ * @returns null when the round has no fixed length or the shoot wasn't scored arrow by arrow
+ */
+export function personalBestGhost(personalBest: { score: number, scores: (number | string)[] }, round: Round): Ghost | null {
+  if (round.maxArrows === Infinity) {
+    return null;
+  }
+  const ends = endTotals(personalBest.scores ?? [], round);
+  if (ends.length < totalEnds(round)) {
+    return null;
+  }
+  return {
+    label: "PB",
+    target: personalBest.score + 1,
+    runningTotals: cumulative(ends)
+  };
+}
+
+/**
+ * A score shot at an even pace, the same amount every end
+ */
+export function evenPaceGhost(label: string, score: number, round: Round): Ghost | null {
+  if (round.maxArrows === Infinity) {
+    return null;
+  }
+  const ends = totalEnds(round);
+  return {
+    label,
+    target: score,
+    runningTotals: Array.from({ length: ends }, (_, end) => round1(score * (end + 1) / ends))
+  };
+}
+
+/**
+ * How the shoot so far stands against a ghost, and what is needed from the remaining ends
+ */
+export function paceAgainst(scores: (number | string)[], round: Round, ghost: Ghost): Pace {
+  const runningTotals = cumulative(endTotals(scores, round));
+  const deltas = runningTotals
+    .slice(0, ghost.runningTotals.length)
+    .map((total, end) => round1(total - ghost.runningTotals[end]));
+  const remainingEnds = Math.max(0, totalEnds(round) - runningTotals.length);
+  const total = runningTotals.length ? runningTotals[runningTotals.length - 1] : 0;
+
+  return {
+    ghost,
+    deltas,
+    delta: deltas.length ? deltas[deltas.length - 1] : null,
+    remainingEnds,
+    neededPerEnd: remainingEnds > 0 ? round1(Math.max(0, ghost.target - total) / remainingEnds) : null
+  };
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import fs from "fs";
+import path from "path";
+import { predictRound, predictScores, predictScoresForShoot } from "./predictions";
+import { predictScore } from "./handicap";
+
+const seniorClassificationData = JSON.parse(
+  fs.readFileSync(
+    path.resolve(__dirname, "../../../public/data/classifications/Men/Recurve/Senior.json"),
+    "utf8"
+  )
+);
+
+const seniorRecurveMan = { sex: "male", age: "senior", bowType: "recurve" };
+
+describe("predictions", () => {
+  beforeEach(() => {
+    global.fetch = vi.fn(() => Promise.resolve({
+      json: () => Promise.resolve(seniorClassificationData)
+    })) as unknown as typeof fetch;
+  });
+
+  it("predicts the score from the handicap table", async () => {
+    const prediction = await predictRound("portsmouth", 40, seniorRecurveMan);
+
+    expect(prediction?.score).toBe(predictScore("portsmouth", 40));
+    expect(prediction?.maxScore).toBe(600);
+    expect(prediction?.isOutdoor).toBe(false);
+  });
+
+  it("gives the best classification the predicted score earns and the next one up", async () => {
+    const prediction = await predictRound("york", 40, seniorRecurveMan);
+    const york = seniorClassificationData
+      .filter((c: { round: string }) => c.round.toLowerCase() === "york")
+      .sort((a: { score: number }, b: { score: number }) => a.score - b.score);
+    const earned = york.filter((c: { score: number }) => c.score <= prediction!.score);
+
+    expect(prediction?.classification).toBe(["A3", "A2", "A1", "B3", "B2", "B1", "MB", "GMB", "EMB"][earned[earned.length - 1].id - 1]);
+    expect(prediction?.nextClassification?.score).toBeGreaterThan(prediction!.score);
+  });
+
+  it("has no classification without the archer's category", async () => {
+    const prediction = await predictRound("york", 40);
+
+    expect(prediction?.classification).toBeNull();
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("predicts every round that can be handicapped", async () => {
+    const predictions = await predictScores(30, seniorRecurveMan);
+    const rounds = predictions.map(prediction => prediction.round);
+
+    expect(rounds).toContain("york");
+    expect(rounds).toContain("wa 18m");
+    expect(rounds).not.toContain("practice 30m");
+    expect(rounds).not.toContain("clout 180yd");
+  });
+
+  it("scores lower at a worse handicap", async () => {
+    const better = await predictRound("wa 1440 (90m)", 20);
+    const worse = await predictRound("wa 1440 (90m)", 60);
+
+    expect(worse!.score).toBeLessThan(better!.score);
+  });
+
+  it("predicts from a saved shoot's handicap and profile", async () => {
+    const predictions = await predictScoresForShoot({
+      handicap: 45,
+      userProfile: { gender: "male", ageGroup: "senior", bowType: "recurve" }
+    });
+
+    expect(predictions.find(prediction => prediction.round === "portsmouth")?.score).toBe(predictScore("portsmouth", 45));
+    expect(await predictScoresForShoot({ handicap: null })).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { calculateRoundScores } from "@/domain/scoring/classification";
+import { classificationList } from "@/domain/scoring/classificationList";
+import { gameTypes, roundConfigManager } from "@/domain/scoring/game_types";
+import { predictScore } from "@/domain/scoring/handicap";
+
+export interface ArcherCategory {
+  sex?: string;
+  age?: string;
+  bowType?: string;
+}
+
+export interface ClassificationThreshold {
+  name: string;
+  score: number;
+}
+
+export interface RoundPrediction {
+  round: string;
+  score: number;
+  maxScore: number;
+  isOutdoor: boolean;
+  /** Highest classification the predicted score earns, null when it earns none or the round has no table */
+  classification: string | null;
+  /** Next classification up and the score it needs */
+  nextClassification: ClassificationThreshold | null;
+}
+
+// Some rounds share another round's classification table
+export function classificationRoundName(roundName: string): string {
+  return roundName === "worcester (5 spot)" ? "worcester" : roundName;
+}
+
+async function classificationThresholds(roundName: string, category: ArcherCategory): Promise<ClassificationThreshold[]> {
+  const { sex, age, bowType } = category;
+  if (!sex || !age || !bowType) {
+    return [];
+  }
+  const thresholds = await calculateRoundScores(sex, bowType, age, classificationRoundName(roundName));
+  return thresholds.map((threshold: { id: number; score: number }) => ({ name: classificationList[threshold.id - 1], score: threshold.score }));
+}
+
+export async function predictRound(roundName: string, handicap: number, category: ArcherCategory = {}): Promise<RoundPrediction | null> {
+  const round = roundConfigManager.getRound(roundName);
+  const score = predictScore(roundName, handicap, category.bowType);
+  if (!round || score === null) {
+    return null;
+  }
+
+  // thresholds come back lowest score first
+  const thresholds = await classificationThresholds(roundName, category);
+  const achieved = thresholds.filter(threshold => threshold.score <= score);
+  const next = thresholds.find(threshold => threshold.score > score);
+  const topScore = Math.max(...round.getScores(category.bowType).filter((s): s is number => typeof s === "number"));
+
+  return {
+    round: roundName,
+    score,
+    maxScore: round.maxArrows * topScore,
+    isOutdoor: round.isOutdoor,
+    classification: achieved.length > 0 ? achieved[achieved.length - 1].name : null,
+    nextClassification: next ?? null
+  };
+}
+
+/**
+ * What an archer of this handicap would be expected to score on every round that can be handicapped,
+ * with the classification each score would earn in their category
+ */
+export async function predictScores(handicap: number, category: ArcherCategory = {}, rounds: string[] = gameTypes): Promise<RoundPrediction[]> {
+  const predictions: RoundPrediction[] = [];
+  for (const roundName of rounds) {
+    const round = roundConfigManager.getRound(roundName);
+    if (!round || round.isPracticeRound) {
+      continue;
+    }
+    const prediction = await predictRound(roundName, handicap, category);
+    if (prediction) {
+      predictions.push(prediction);
+    }
+  }
+  return predictions;
+}
+
+/**
+ * Predictions at the handicap a saved shoot earned, for the archer as they were on that day
+ */
+export async function predictScoresForShoot(shoot: {
+  handicap?: number | null;
+  userProfile?: { gender?: string; ageGroup?: string; bowType?: string };
+}): Promise<RoundPrediction[]> {
+  if (shoot.handicap === null || shoot.handicap === undefined) {
+    return [];
+  }
+  const profile = shoot.userProfile ?? {};
+  return predictScores(shoot.handicap, { sex: profile.gender, age: profile.ageGroup, bowType: profile.bowType });
+}
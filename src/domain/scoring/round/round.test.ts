@@ -0,0 +1,77 @@
+import { describe, expect, test } from "vitest";
+import { registerRound, roundConfigManager, unregisterRound } from "@/domain/scoring/game_types";
+import { convertToValue } from "@/domain/scoring/scores";
+
+describe("Round.getScores", () => {
+  test("compound archers get an inner ten X on indoor ten zone faces", () => {
+    const round = roundConfigManager.getRound("wa 18m");
+
+    expect(round?.getScores("compound")).toEqual(["X", 10, 9, 8, 7, 6, 5, 4, 3, 2, 1, "M"]);
+    expect(round?.getScores("recurve")).toEqual([10, 9, 8, 7, 6, 5, 4, 3, 2, 1, "M"]);
+  });
+
+  test("outdoor, imperial and worcester scoring is the same for every bow", () => {
+    expect(roundConfigManager.getRound("wa 1440 (90m)")?.getScores("compound")).toEqual(["X", 10, 9, 8, 7, 6, 5, 4, 3, 2, 1, "M"]);
+    expect(roundConfigManager.getRound("national")?.getScores("compound")).toEqual([9, 7, 5, 3, 1, "M"]);
+    expect(roundConfigManager.getRound("worcester")?.getScores("compound")).toEqual([5, 4, 3, 2, 1, "M"]);
+  });
+
+  test("the 50m compound round is shot on a six ring face, scoring down to the 5 ring", () => {
+    expect(roundConfigManager.getRound("wa 50m (compound)")?.getScores("compound")).toEqual(["X", 10, 9, 8, 7, 6, 5, "M"]);
+  });
+});
+
+describe("Round.xValue", () => {
+  test("an X scores the same as the round's top ring", () => {
+    expect(roundConfigManager.getRound("wa 1440 (90m)")?.xValue()).toEqual(10);
+    expect(roundConfigManager.getRound("wa field 12 marked")?.xValue()).toEqual(6);
+    expect(roundConfigManager.getRound("worcester")?.xValue()).toEqual(5);
+  });
+
+  test("goes by the round, not its name", () => {
+    registerRound({ name: "sheffield club", isOutdoor: true, isImperial: false, distancesRoundSizes: [6], maxDistanceMetres: 50 });
+
+    expect(convertToValue("X", "sheffield club")).toEqual(10);
+    expect(convertToValue("X", "wa field 24 marked")).toEqual(6);
+    unregisterRound("sheffield club");
+  });
+});
+
+describe("Round faces", () => {
+  test("every round knows the face it is shot on", () => {
+    expect(roundConfigManager.getRound("wa 50m (compound)")?.faces).toEqual([{ size: 80, type: "six-ring" }]);
+    expect(roundConfigManager.getRound("vegas 300")?.faces).toEqual([{ size: 40, type: "triple-spot" }]);
+    expect(roundConfigManager.getRound("worcester")?.faces).toEqual([{ size: 40.64, type: "worcester" }]);
+    expect(roundConfigManager.getRound("national")?.faces).toEqual([{ size: 122, type: "imperial" }, { size: 122, type: "imperial" }]);
+  });
+
+  test("follows the round onto the next distance's face", () => {
+    const round = roundConfigManager.getRound("wa 1440 (90m)");
+
+    expect(round?.faceForArrow(0).size).toBe(122);
+    expect(round?.faceForArrow(71).size).toBe(122);
+    expect(round?.faceForArrow(72).size).toBe(80);
+    expect(round?.faceForArrow(143).size).toBe(80);
+  });
+
+  test("uses each target's face on a field course", () => {
+    const round = roundConfigManager.getRound("wa field 12 marked");
+
+    expect(round?.faceForArrow(0)).toEqual({ size: 80, type: "field" });
+    expect(round?.faceForArrow(33)).toEqual({ size: 20, type: "field" });
+  });
+
+  test("knows how far away the target was for each arrow", () => {
+    const round = roundConfigManager.getRound("wa 1440 (90m)");
+
+    expect(round?.distanceMetresForArrow(0)).toBe(90);
+    expect(round?.distanceMetresForArrow(36)).toBe(70);
+    expect(roundConfigManager.getRound("portsmouth")?.distanceMetresForArrow(0)).toBeCloseTo(18.288);
+    expect(roundConfigManager.getRound("field 12 unknown distance")?.distanceMetresForArrow(0)).toBeNull();
+  });
+
+  test("knows when a round is shot on a worcester face", () => {
+    expect(roundConfigManager.getRound("worcester (5 spot)")?.usesWorcesterFace()).toBe(true);
+    expect(roundConfigManager.getRound("portsmouth")?.usesWorcesterFace()).toBe(false);
+  });
+});
@@ -1,6 +1,7 @@
-import { GameTypeConfig } from "@/domain/scoring/game_types";
+import { FieldTarget, GameTypeConfig, TargetFace, WORCESTER_FACES } from "@/domain/scoring/game_types";
 
 import { formatRoundName } from "@/domain/scoring/round/formatting";
+import { toMeters, yards } from "@/domain/distance/distance";
 
 export class Round {
   readonly name: string;
@@ -18,6 +19,10 @@ export class Round {
   readonly maxDistanceYards: number;
   readonly otherDistancesYards?: number[];
   readonly otherDistancesMetres?: number[];
+  readonly targets?: FieldTarget[];
+  readonly isClout?: boolean;
+  readonly isMatchPlay?: boolean;
+  readonly faces: TargetFace[];
 
   constructor(config: GameTypeConfig) {
     this.name = config.name;
@@ -35,6 +40,10 @@ export class Round {
     this.maxDistanceYards = config.maxDistanceYards;
     this.otherDistancesYards = config.otherDistancesYards;
     this.otherDistancesMetres = config.otherDistancesMetres;
+    this.targets = config.targets;
+    this.isClout = config.isClout;
+    this.isMatchPlay = config.isMatchPlay;
+    this.faces = [...config.faces];
   }
 
   // Methods to get specific information about this round
@@ -42,10 +51,96 @@ export class Round {
     return unit === "m" ? this.maxDistanceMetres : this.maxDistanceYards;
   }
 
-  getScores(bowType: string): (number | string)[] {
+  getScores(bowType?: string): (number | string)[] {
+    if (bowType === "compound" && this.usesInnerTenForCompound()) {
+      return ["X", ...this.scores];
+    }
     return this.scores
   }
 
+  // Compound archers score the inner ten indoors, which we record as an X
+  private usesInnerTenForCompound(): boolean {
+    return !this.isOutdoor && this.scores[0] === 10;
+  }
+
+  // An X sits inside the top ring and scores the same, 10 on a ten zone face, 6 on a field face, 5 on a worcester face.
+  // Imperial faces have no X, so one recorded there counts as 10 as it always has
+  xValue(): number {
+    if (this.isImperial) {
+      return 10;
+    }
+    return Math.max(...this.scores.filter((score): score is number => typeof score === "number"));
+  }
+
+  isFieldRound(): boolean {
+    return !!this.targets;
+  }
+
+  isCloutRound(): boolean {
+    return !!this.isClout;
+  }
+
+  isMatchPlayRound(): boolean {
+    return !!this.isMatchPlay;
+  }
+
+  /**
+   * The face an arrow is shot at, following the round through its distances (or targets, on a field course)
+   * @param arrowIndex zero based count of arrows shot so far in the round
+   */
+  faceForArrow(arrowIndex: number): TargetFace {
+    const end = Math.floor(arrowIndex / this.endSize);
+    if (this.targets) {
+      return this.faces[Math.min(end, this.faces.length - 1)];
+    }
+    return this.faces[Math.min(this.distanceIndexForArrow(arrowIndex), this.faces.length - 1)];
+  }
+
+  /**
+   * Which of the round's distances an arrow is shot at, 0 being the longest
+   * @param arrowIndex zero based count of arrows shot so far in the round
+   */
+  distanceIndexForArrow(arrowIndex: number): number {
+    const end = Math.floor(arrowIndex / this.endSize);
+    const roundSizes = this.distancesRoundSizes ?? [];
+
+    let lastEndOfDistance = 0;
+    for (let index = 0; index < roundSizes.length; index++) {
+      lastEndOfDistance += roundSizes[index] * 2;
+      if (end < lastEndOfDistance) {
+        return index;
+      }
+    }
+    return Math.max(roundSizes.length - 1, 0);
+  }
+
+  /**
+   * The round's distances in metres, longest first, whichever unit it is shot in
+   */
+  distancesInMetres(): number[] {
+    const otherDistances = this.otherDistancesMetres
+      ?? (this.otherDistancesYards ?? []).map(distance => toMeters(yards(distance)));
+    return [Number(this.maxDistanceMetres), ...otherDistances];
+  }
+
+  /**
+   * How far away the target was for an arrow, in metres
+   * @param arrowIndex zero based count of arrows shot so far in the round
+   * @returns null for field targets at an unknown distance
+   */
+  distanceMetresForArrow(arrowIndex: number): number | null {
+    if (this.targets) {
+      const target = this.targets[Math.min(Math.floor(arrowIndex / this.endSize), this.targets.length - 1)];
+      return target?.distance ?? target?.maxDistance ?? null;
+    }
+    const distances = this.distancesInMetres();
+    return distances[Math.min(this.distanceIndexForArrow(arrowIndex), distances.length - 1)];
+  }
+
+  usesWorcesterFace(): boolean {
+    return this.faces.some(face => WORCESTER_FACES.includes(face.type));
+  }
+
   prettyRoundName(): string {
     return formatRoundName(this.name);
   }
@@ -67,7 +162,11 @@ export class Round {
       maxDistanceMetres: this.maxDistanceMetres,
       maxDistanceYards: this.maxDistanceYards,
       otherDistancesYards: this.otherDistancesYards,
-      otherDistancesMetres: this.otherDistancesMetres
+      otherDistancesMetres: this.otherDistancesMetres,
+      targets: this.targets,
+      isClout: this.isClout,
+      isMatchPlay: this.isMatchPlay,
+      faces: [...this.faces]
     };
   }
 }
\ No newline at end of file
@@ -68,8 +68,11 @@ export function getRoundDetails(roundName: string): RoundDetails | null {
     }
   }
 
-  // Calculate dozens per distance
-  const dozensPerDistance = config.distancesRoundSizes ? [...config.distancesRoundSizes] : []
+  // Calculate dozens per distance, a round size being two ends
+  const endSize = config.endSize ?? 6
+  const dozensPerDistance = config.distancesRoundSizes
+    ? config.distancesRoundSizes.map(roundSize => roundSize * endSize * 2 / 12)
+    : []
 
   // Format the distance information for display
   const distanceInfo = distances.map((distance, index) => {
@@ -165,4 +165,47 @@ describe("calculateAppropriateRounds", () => {
 
     expect(result).toContain("frostbite");
   });
+
+  it("recommends rounds where the next classification is within reach of a handicap", async () => {
+    const result = await calculateAppropriateRounds(
+      "Unclassified",
+      defaultParams.age,
+      defaultParams.sex,
+      defaultParams.bowtype,
+      100,
+      30
+    );
+    const beginner = await calculateAppropriateRounds(
+      "Unclassified",
+      defaultParams.age,
+      defaultParams.sex,
+      defaultParams.bowtype,
+      100,
+      80
+    );
+
+    expect(result).toContain("york");
+    // a handicap 30 archer would already earn the highest classification a windsor offers
+    expect(result).not.toContain("windsor");
+    expect(beginner).not.toContain("york");
+  });
+
+  it("only recommends rounds the archer can finish in the time they have", async () => {
+    // a minute an arrow
+    const history = [{ id: 1, date: "2024-06-01", score: 0, gameType: "portsmouth", scores: Array(60).fill(9), shootDuration: 60 * 60 * 1000 }];
+
+    const result = await calculateAppropriateRounds(
+      "Unclassified",
+      defaultParams.age,
+      defaultParams.sex,
+      defaultParams.bowtype,
+      100,
+      null,
+      2,
+      history
+    );
+
+    expect(result).toContain("windsor");
+    expect(result).not.toContain("york");
+  });
 });
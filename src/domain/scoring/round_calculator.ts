@@ -1,13 +1,23 @@
 import { classificationList } from "@/domain/scoring/classificationList";
 import { calculateRoundScores } from "@/domain/scoring/classification";
 import { GameTypeConfig, gameTypeConfig, gameTypes } from "@/domain/scoring/game_types";
+import { classificationRoundName, predictRound } from "@/domain/scoring/predictions";
+import { predictScore } from "@/domain/scoring/handicap";
+import { canFinishWithin } from "@/domain/scoring/shoot_duration";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+// AGB classifications sit roughly seven handicap points apart
+const CLASSIFICATION_HANDICAP_STEP = 7;
 
 export async function calculateAppropriateRounds(
   classification: string,
   age: string,
   sex: string,
   bowtype: string,
-  maxYards: number
+  maxYards: number,
+  handicap?: number | null,
+  maxHours?: number | null,
+  history: HistoryItem[] = []
 ): Promise<string[]> {
   const classificationNumber: number = classificationList.indexOf(classification);
   const improvementModifier = classificationNumber > 4 ? 5 : classificationNumber + 1;
@@ -20,13 +30,18 @@ export async function calculateAppropriateRounds(
     .filter(config => config.maxDistanceYards <= maxYards); //todo dont need this anymore
 
   for (const round of distanceAppropriateRounds) {
-    //todo: should have some kind of classification pointer where we have multiple rounds for the same logical classification
-    let lookup = round.name
-    if (round.name === 'worcester (5 spot)') {
-      lookup = 'worcester'
+    // With a handicap we know what they'd score, so recommend rounds where the next classification is one step away
+    if (handicap !== null && handicap !== undefined) {
+      const prediction = await predictRound(round.name, handicap, { sex, age, bowType: bowtype });
+      const stretchScore = predictScore(round.name, handicap - CLASSIFICATION_HANDICAP_STEP, bowtype);
+      const withinReach = prediction?.nextClassification && stretchScore !== null && stretchScore >= prediction.nextClassification.score;
+      if (withinReach && !improvementRounds.includes(round)) {
+        improvementRounds.push(round);
+      }
+      continue;
     }
 
-    const scores = await calculateRoundScores(sex, bowtype, age, lookup)
+    const scores = await calculateRoundScores(sex, bowtype, age, classificationRoundName(round.name))
     const hasAHigherClassificationAttainable = scores.length > improvementModifier;
 
     if (hasAHigherClassificationAttainable) {
@@ -34,7 +49,11 @@ export async function calculateAppropriateRounds(
     }
   }
 
-  return improvementRounds.sort(sortByNumberOfEndsAndDistance).map(r => r.name);
+  // Timed from the archer's own history where they have it
+  return improvementRounds
+    .filter(round => maxHours === null || maxHours === undefined || canFinishWithin(round.name, maxHours, history))
+    .sort(sortByNumberOfEndsAndDistance)
+    .map(r => r.name);
 }
 
 function sortByNumberOfEndsAndDistance(a: GameTypeConfig, b: GameTypeConfig): number {
@@ -467,4 +467,31 @@ describe("round filters", () => {
       expect(testFilterRounds(allRounds, filters)).toEqual(['National'])
     })
   })
+
+  describe("clout", () => {
+    const cloutFilterRounds = createRoundFilter({
+      ...testConfig,
+      "clout 180yd": {
+        isOutdoor: true,
+        isImperial: true,
+        isPracticeRound: false,
+        maxDistanceYards: 180,
+        isClout: true
+      }
+    });
+
+    it("is not hidden by the distance filter", () => {
+      const filters: GameTypeFilters = {
+        showIndoor: false,
+        showOutdoor: true,
+        showMetric: false,
+        showImperial: true,
+        showPractice: false,
+        maxDistance: 100,
+        minDistance: 0
+      }
+
+      expect(cloutFilterRounds([...allRounds, "Clout 180yd"], filters)).toEqual(["National", "Clout 180yd"])
+    })
+  })
 });
@@ -11,7 +11,7 @@ export interface GameTypeFilters {
   searchQuery?: string;
 }
 
-export type RoundFilterConfig = Record<string, Pick<GameTypeConfig, "isOutdoor" | "isImperial" | "isPracticeRound" | "maxDistanceYards">>;
+export type RoundFilterConfig = Record<string, Pick<GameTypeConfig, "isOutdoor" | "isImperial" | "isPracticeRound" | "maxDistanceYards" | "isClout">>;
 
 export function createRoundFilter(config: RoundFilterConfig = gameTypeConfig) {
   return function filterRounds(roundNames: string[], filters: GameTypeFilters): string[] {
@@ -20,11 +20,12 @@ export function createRoundFilter(config: RoundFilterConfig = gameTypeConfig) {
     }
 
     return roundNames.filter(type => {
-      const { isOutdoor, isImperial, isPracticeRound, maxDistanceYards } = config[type.toLowerCase()];
+      const { isOutdoor, isImperial, isPracticeRound, maxDistanceYards, isClout } = config[type.toLowerCase()];
 
       const passesMaxDistanceFilter = maxDistanceYards <= filters.maxDistance;
       const passesMinDistanceFilter = maxDistanceYards >= filters.minDistance;
-      const passesDistanceFilter = passesMaxDistanceFilter && passesMinDistanceFilter;
+      // clout is shot far beyond the distance slider, so it is never hidden by it
+      const passesDistanceFilter = isClout || (passesMaxDistanceFilter && passesMinDistanceFilter);
       const passesEnvironmentFilter = (!isOutdoor && filters.showIndoor) || (isOutdoor && filters.showOutdoor);
       const passesUnitFilter = (!isImperial && filters.showMetric) || (isImperial && filters.showImperial);
       const passesPracticeFilter = filters.showPractice ? isPracticeRound : !isPracticeRound;
@@ -1,15 +1,13 @@
-import { gameTypeConfig } from "@/domain/scoring/game_types";
+import { gameTypeConfig, roundConfigManager } from "@/domain/scoring/game_types";
 import { MISS } from "@/domain/scoring/game_type_config";
-const scoreMappings = {
-    X: 10,
-    MISS: 0,
-    "M": 0
-};
+import { convertToValue as convertByRoundName } from "@shared/utils/scores";
 export function convertToValue(score, gameType) {
-    if (gameType?.toLowerCase().includes('worcester') && score === 'X') {
-        return 5;
+    const round = score === 'X' && gameType ? roundConfigManager.getRound(gameType) : undefined;
+    if (round) {
+        return round.xValue();
     }
-    return scoreMappings[score] ?? score;
+    // Rounds this device doesn't know, such as another archer's custom round, go by their name
+    return convertByRoundName(score, gameType);
 }
 export function convertToValues(scores, gameType = "national") {
     return scores.filter(score => score !== MISS).map(x => convertToValue(x, gameType));
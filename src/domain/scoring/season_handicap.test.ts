@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateAllSeasonHandicaps,
+  calculateRollingHandicap,
+  calculateSeasonHandicap,
+  qualifiesForHandicap
+} from "./season_handicap";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+let nextId = 1;
+
+function shoot(date: string, gameType: string, handicap: number, overrides: Partial<HistoryItem> = {}): HistoryItem {
+  return {
+    id: nextId++,
+    date,
+    score: 0,
+    gameType,
+    scores: [],
+    handicap,
+    shootStatus: "Competition",
+    userProfile: { bowType: "recurve" },
+    ...overrides
+  };
+}
+
+describe("season handicap", () => {
+  describe("qualifiesForHandicap", () => {
+    it("only counts competition and record status shoots", () => {
+      expect(qualifiesForHandicap(shoot("2024-11-01", "portsmouth", 40))).toBe(true);
+      expect(qualifiesForHandicap(shoot("2024-11-01", "portsmouth", 40, { shootStatus: "RecordStatus" }))).toBe(true);
+      expect(qualifiesForHandicap(shoot("2024-11-01", "portsmouth", 40, { shootStatus: "Practice" }))).toBe(false);
+    });
+
+    it("does not count practice rounds or unfinished ones", () => {
+      expect(qualifiesForHandicap(shoot("2024-11-01", "practice 30m", 40))).toBe(false);
+      expect(qualifiesForHandicap(shoot("2024-11-01", "portsmouth", 40, { scores: [10, 10, 10] }))).toBe(false);
+      expect(qualifiesForHandicap(shoot("2024-11-01", "portsmouth", 40, { scores: Array(60).fill(10) }))).toBe(true);
+    });
+  });
+
+  describe("calculateSeasonHandicap", () => {
+    it("averages the best three shoots of the season, rounding up", () => {
+      const history = [
+        shoot("2024-10-05", "portsmouth", 50),
+        shoot("2024-11-05", "wa 18m", 41),
+        shoot("2024-12-05", "portsmouth", 44),
+        shoot("2025-01-05", "worcester", 40)
+      ];
+
+      const result = calculateSeasonHandicap(history, "recurve", "indoor", "2024-10-01");
+
+      expect(result?.handicap).toBe(42);
+      expect(result?.shoots.map(s => s.handicap)).toEqual([40, 41, 44]);
+    });
+
+    it("needs three qualifying shoots", () => {
+      const history = [
+        shoot("2024-10-05", "portsmouth", 50),
+        shoot("2024-11-05", "portsmouth", 41),
+        shoot("2024-12-05", "portsmouth", 30, { shootStatus: "Practice" })
+      ];
+
+      expect(calculateSeasonHandicap(history, "recurve", "indoor", "2024-10-01")).toBeNull();
+    });
+
+    it("keeps indoor, outdoor, seasons and bow types apart", () => {
+      const history = [
+        shoot("2024-10-05", "portsmouth", 50),
+        shoot("2024-11-05", "portsmouth", 41),
+        shoot("2024-09-05", "portsmouth", 20),
+        shoot("2024-10-06", "york", 20),
+        shoot("2024-10-07", "portsmouth", 20, { userProfile: { bowType: "compound" } }),
+        shoot("2024-12-05", "portsmouth", 45)
+      ];
+
+      expect(calculateSeasonHandicap(history, "recurve", "indoor", "2024-10-01")?.handicap).toBe(46);
+      expect(calculateSeasonHandicap(history, "recurve", "outdoor", "2024-04-01")).toBeNull();
+    });
+  });
+
+  describe("calculateRollingHandicap", () => {
+    it("gives the best three of the year before each shoot once there are three", () => {
+      const history = [
+        shoot("2023-01-05", "portsmouth", 20),
+        shoot("2024-10-05", "portsmouth", 50),
+        shoot("2024-11-05", "portsmouth", 40),
+        shoot("2024-12-05", "portsmouth", 45),
+        shoot("2025-01-05", "portsmouth", 30)
+      ];
+
+      const points = calculateRollingHandicap(history, "recurve", "indoor");
+
+      expect(points.map(point => [point.date, point.handicap])).toEqual([
+        ["2024-12-05", 45],
+        ["2025-01-05", 39]
+      ]);
+    });
+  });
+
+  it("works out indoor and outdoor handicaps for every bow type", () => {
+    const history = [
+      shoot("2024-05-05", "york", 50),
+      shoot("2024-06-05", "york", 51),
+      shoot("2024-07-05", "york", 52)
+    ];
+
+    expect(calculateAllSeasonHandicaps(history, "2024-10-01", "2024-04-01", ["recurve", "compound"])).toEqual({
+      recurve: { indoor: null, outdoor: expect.objectContaining({ handicap: 51 }) },
+      compound: { indoor: null, outdoor: null }
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { isIndoorSeason, isOutdoorSeason } from "@/domain/season_dates";
+import { roundConfigManager } from "@/domain/scoring/game_types";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+export type Environment = "indoor" | "outdoor";
+
+// AGB: a handicap is the average of an archer's best three, rounded up
+export const SHOOTS_FOR_HANDICAP = 3;
+const ROLLING_WINDOW_DAYS = 365;
+
+export interface SeasonHandicap {
+  handicap: number;
+  /** The shoots the handicap was worked out from, best first */
+  shoots: HistoryItem[];
+}
+
+export interface RollingHandicapPoint {
+  id: HistoryItem["id"];
+  date: string;
+  handicap: number;
+}
+
+/**
+ * Only complete rounds shot at a club target day or competition count, not practice
+ */
+export function qualifiesForHandicap(item: HistoryItem): boolean {
+  if (item.handicap === null || item.handicap === undefined) {
+    return false;
+  }
+  if (!item.shootStatus || item.shootStatus === "Practice") {
+    return false;
+  }
+
+  const round = roundConfigManager.getRound(item.gameType);
+  if (!round || round.isPracticeRound || round.isMatchPlayRound()) {
+    return false;
+  }
+  return !item.scores?.length || item.scores.length >= round.maxArrows;
+}
+
+function isEnvironment(item: HistoryItem, environment: Environment): boolean {
+  const isOutdoor = roundConfigManager.getRound(item.gameType)?.isOutdoor;
+  return environment === "outdoor" ? isOutdoor === true : isOutdoor === false;
+}
+
+/**
+ * Best (lowest) handicaps first
+ */
+function bestShoots(shoots: HistoryItem[]): HistoryItem[] {
+  return [...shoots]
+    .sort((a, b) => (a.handicap as number) - (b.handicap as number))
+    .slice(0, SHOOTS_FOR_HANDICAP);
+}
+
+function averageHandicap(shoots: HistoryItem[]): number {
+  const total = shoots.reduce((sum, shoot) => sum + (shoot.handicap as number), 0);
+  return Math.ceil(total / shoots.length);
+}
+
+function qualifyingShoots(history: HistoryItem[], bowType: string, environment: Environment): HistoryItem[] {
+  return history.filter(item =>
+    item.userProfile?.bowType === bowType &&
+    isEnvironment(item, environment) &&
+    qualifiesForHandicap(item)
+  );
+}
+
+/**
+ * The handicap for a season, from the best three qualifying shoots with this bow
+ * @returns null until three qualifying shoots have been made this season
+ */
+export function calculateSeasonHandicap(
+  history: HistoryItem[],
+  bowType: string,
+  environment: Environment,
+  seasonStartDate: string
+): SeasonHandicap | null {
+  if (!history || !bowType || !seasonStartDate) {
+    return null;
+  }
+
+  const inSeason = environment === "indoor" ? isIndoorSeason : isOutdoorSeason;
+  const seasonShoots = qualifyingShoots(history, bowType, environment)
+    .filter(item => inSeason(item.date, seasonStartDate));
+
+  if (seasonShoots.length < SHOOTS_FOR_HANDICAP) {
+    return null;
+  }
+
+  const shoots = bestShoots(seasonShoots);
+  return { handicap: averageHandicap(shoots), shoots };
+}
+
+/**
+ * The handicap as it stood after each qualifying shoot, from the best three in the year before it
+ */
+export function calculateRollingHandicap(
+  history: HistoryItem[],
+  bowType: string,
+  environment: Environment
+): RollingHandicapPoint[] {
+  const shoots = qualifyingShoots(history ?? [], bowType, environment)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const points: RollingHandicapPoint[] = [];
+  shoots.forEach((shoot, index) => {
+    const windowStart = new Date(shoot.date);
+    windowStart.setDate(windowStart.getDate() - ROLLING_WINDOW_DAYS);
+    const window = shoots.slice(0, index + 1).filter(item => new Date(item.date) > windowStart);
+    if (window.length >= SHOOTS_FOR_HANDICAP) {
+      points.push({ id: shoot.id, date: shoot.date, handicap: averageHandicap(bestShoots(window)) });
+    }
+  });
+  return points;
+}
+
+export function calculateAllSeasonHandicaps(
+  history: HistoryItem[],
+  indoorSeasonStartDate: string,
+  outdoorSeasonStartDate: string,
+  bowTypes: string[]
+): Record<string, { indoor: SeasonHandicap | null; outdoor: SeasonHandicap | null }> {
+  const result: Record<string, { indoor: SeasonHandicap | null; outdoor: SeasonHandicap | null }> = {};
+  for (const bowType of bowTypes ?? []) {
+    result[bowType] = {
+      indoor: calculateSeasonHandicap(history, bowType, "indoor", indoorSeasonStartDate),
+      outdoor: calculateSeasonHandicap(history, bowType, "outdoor", outdoorSeasonStartDate)
+    };
+  }
+  return result;
+}
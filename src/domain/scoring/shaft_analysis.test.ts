@@ -0,0 +1,72 @@
+import { describe, expect, test } from "vitest";
+import { analyseShafts, rankShafts } from "@/domain/scoring/shaft_analysis";
+import { roundConfigManager } from "@/domain/scoring/game_types";
+
+const FACE_WIDTH = 200;
+const getRound = (gameType: string) => roundConfigManager.getRound(gameType);
+
+// a 200px portsmouth face is drawn with 10 rings, so each ring is 10px wide
+function tagged(shaft: number, ringsRight: number, score: number | string, end = 0) {
+  return { position: { x: 100 + ringsRight * 10, y: 100 }, end, faceWidth: FACE_WIDTH, shaft, score };
+}
+
+describe("analyseShafts", () => {
+  test("averages each shaft's score and distance from the group", () => {
+    const shoot = {
+      gameType: "portsmouth",
+      bowType: "recurve",
+      arrows: [tagged(1, 0, 10), tagged(2, 1, 9), tagged(1, 0, 10), tagged(2, -1, 9)]
+    };
+
+    const shafts = analyseShafts([shoot], getRound, () => 0);
+
+    expect(shafts).toEqual([
+      { shaft: 1, arrows: 2, averageScore: 10, averageOffset: 0, misses: 0, flyers: 0, suspect: false },
+      { shaft: 2, arrows: 2, averageScore: 9, averageOffset: 1, misses: 0, flyers: 0, suspect: false }
+    ]);
+  });
+
+  test("counts tagged misses against the shaft", () => {
+    const shoot = {
+      gameType: "portsmouth",
+      arrows: [tagged(3, 0, 10), { position: null, end: 0, shaft: 3, score: "M" }]
+    };
+
+    const [shaft] = analyseShafts([shoot], getRound, () => 0);
+
+    expect(shaft).toMatchObject({ arrows: 2, misses: 1, averageScore: 5, averageOffset: 0 });
+  });
+
+  test("flags a shaft that keeps landing away from the group", () => {
+    const ends = Array.from({ length: 6 }, (_, end) => [
+      tagged(1, 0.2, 10, end), tagged(2, -0.2, 10, end), tagged(3, 0, 10, end), tagged(4, 3, 7, end)
+    ]).flat();
+
+    const shafts = analyseShafts([{ gameType: "portsmouth", arrows: ends }], getRound, () => 0);
+
+    expect(shafts.filter(shaft => shaft.suspect).map(shaft => shaft.shaft)).toEqual([4]);
+  });
+
+  test("ignores untagged arrows and unknown rounds", () => {
+    const untagged = { gameType: "portsmouth", arrows: [{ position: { x: 100, y: 100 }, end: 0, faceWidth: FACE_WIDTH }] };
+    const unknown = { gameType: "not a round", arrows: [tagged(1, 0, 10)] };
+
+    expect(analyseShafts([untagged, unknown], getRound, () => 0)).toEqual([]);
+  });
+});
+
+describe("rankShafts", () => {
+  const shafts = [
+    { shaft: 1, arrows: 6, averageScore: 8, averageOffset: 0.5, misses: 0, flyers: 0, suspect: false },
+    { shaft: 2, arrows: 6, averageScore: 9.5, averageOffset: 1.5, misses: 0, flyers: 0, suspect: false },
+    { shaft: 3, arrows: 1, averageScore: 0, averageOffset: null, misses: 1, flyers: 0, suspect: false }
+  ];
+
+  test("puts the best scoring shafts first", () => {
+    expect(rankShafts(shafts, "score").map(shaft => shaft.shaft)).toEqual([2, 1, 3]);
+  });
+
+  test("puts the shafts closest to the group first, then those never plotted", () => {
+    expect(rankShafts(shafts, "offset").map(shaft => shaft.shaft)).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,158 @@
+import { Round } from "@/domain/scoring/round/round";
+import { FaceType } from "@/domain/scoring/game_types";
+import { analyseGroup, ArrowImpact, arrowImpact, PlottedArrow } from "@/domain/scoring/group_analysis";
+import { convertToValue } from "@/domain/scoring/scores";
+import { mean, round2 } from "@/domain/scoring/statistics";
+
+/**
+ * A plotted arrow tagged with the number on its shaft
+ */
+export interface TaggedArrow extends PlottedArrow {
+  shaft?: number;
+  score?: number | string;
+}
+
+export interface ShootShafts {
+  gameType: string;
+  bowType?: string;
+  arrows: TaggedArrow[];
+}
+
+export interface ShaftPerformance {
+  shaft: number;
+  arrows: number;
+  averageScore: number | null;
+  averageOffset: number | null; // rings from the centre of the group the arrow was shot in
+  misses: number;
+  flyers: number; // times the arrow was a flyer from its group
+  suspect: boolean;
+}
+
+export type ShaftRanking = "score" | "offset";
+
+// An arrow landing a ring further from its groups than the rest of the set is worth checking for a bent shaft or bad fletch
+const SUSPECT_OFFSET_RINGS = 1;
+// Below this the averages are too noisy to point at a shaft
+export const MIN_ARROWS_PER_SHAFT = 6;
+
+function averageOf(values: number[]): number | null {
+  return values.length ? mean(values) : null;
+}
+
+function roundedOrNull(value: number | null): number | null {
+  return value === null ? null : round2(value);
+}
+
+interface ShaftShot {
+  shaft: number;
+  score: number | null;
+  miss: boolean;
+  offset: number | null;
+  flyer: boolean;
+}
+
+/**
+ * Each tagged arrow of a shoot, measured against the group it was shot in: the arrows of the same distance
+ */
+function shaftShots(shoot: ShootShafts, round: Round, fallbackFaceWidth: (faceType: FaceType) => number): ShaftShot[] {
+  const ringCount = round.getScores(shoot.bowType).filter(score => score !== "M").length;
+  const impactsByDistance = new Map<number, { arrow: TaggedArrow; impact: ArrowImpact }[]>();
+
+  shoot.arrows.forEach(arrow => {
+    const arrowIndex = arrow.end * round.endSize;
+    const faceType = round.faceForArrow(arrowIndex).type;
+    const impact = arrowImpact(arrow, faceType, ringCount, fallbackFaceWidth(faceType));
+    if (!impact) {
+      return;
+    }
+    const distanceIndex = round.distanceIndexForArrow(arrowIndex);
+    impactsByDistance.set(distanceIndex, [...(impactsByDistance.get(distanceIndex) ?? []), { arrow, impact }]);
+  });
+
+  const measured = new Map<TaggedArrow, { offset: number; flyer: boolean }>();
+  impactsByDistance.forEach(shots => {
+    const group = analyseGroup(shots.map(shot => shot.impact));
+    if (!group) {
+      return;
+    }
+    shots.forEach((shot, index) => {
+      measured.set(shot.arrow, {
+        offset: Math.hypot(shot.impact.x - group.centre.x, shot.impact.y - group.centre.y),
+        flyer: group.arrows[index].isFlyer
+      });
+    });
+  });
+
+  return shoot.arrows
+    .filter(arrow => arrow.shaft)
+    .map(arrow => {
+      const miss = arrow.score === "M";
+      const value = arrow.score === undefined ? null : Number(convertToValue(arrow.score, shoot.gameType));
+      return {
+        shaft: arrow.shaft as number,
+        score: Number.isFinite(value) ? value : null,
+        miss,
+        offset: measured.get(arrow)?.offset ?? null,
+        flyer: measured.get(arrow)?.flyer ?? false
+      };
+    });
+}
+
+/**
+ * How each numbered arrow has shot across the given shoots
+ * @param getRound looks up the round each shoot was shot on, shoots on unknown rounds are skipped
+ * @param fallbackFaceWidth px, for arrows plotted before the face width was recorded
+ */
+export function analyseShafts(
+  shoots: ShootShafts[],
+  getRound: (gameType: string) => Round | undefined,
+  fallbackFaceWidth: (faceType: FaceType) => number
+): ShaftPerformance[] {
+  const shotsByShaft = new Map<number, ShaftShot[]>();
+  shoots.forEach(shoot => {
+    const round = getRound(shoot.gameType);
+    if (!round) {
+      return;
+    }
+    shaftShots(shoot, round, fallbackFaceWidth).forEach(shot => {
+      shotsByShaft.set(shot.shaft, [...(shotsByShaft.get(shot.shaft) ?? []), shot]);
+    });
+  });
+
+  const performances = [...shotsByShaft.entries()].map(([shaft, shots]) => ({
+    shaft,
+    arrows: shots.length,
+    averageScore: averageOf(shots.filter(shot => shot.score !== null).map(shot => shot.score as number)),
+    averageOffset: averageOf(shots.filter(shot => shot.offset !== null).map(shot => shot.offset as number)),
+    misses: shots.filter(shot => shot.miss).length,
+    flyers: shots.filter(shot => shot.flyer).length
+  }));
+
+  const setOffset = averageOf(performances.filter(performance => performance.averageOffset !== null).map(performance => performance.averageOffset as number));
+
+  return performances.map(performance => ({
+    ...performance,
+    averageScore: roundedOrNull(performance.averageScore),
+    averageOffset: roundedOrNull(performance.averageOffset),
+    suspect: setOffset !== null
+      && performance.arrows >= MIN_ARROWS_PER_SHAFT
+      && performance.averageOffset !== null
+      && performance.averageOffset - setOffset >= SUSPECT_OFFSET_RINGS
+  }));
+}
+
+/**
+ * Best shafts first: highest average score, or tightest to the group
+ */
+export function rankShafts(performances: ShaftPerformance[], by: ShaftRanking = "score"): ShaftPerformance[] {
+  const value = (performance: ShaftPerformance) => by === "score" ? performance.averageScore : performance.averageOffset;
+  return [...performances].sort((a, b) => {
+    const first = value(a);
+    const second = value(b);
+    // shafts with nothing to rank them by go last
+    if (first === null || second === null) {
+      return (first === null ? 1 : 0) - (second === null ? 1 : 0);
+    }
+    return by === "score" ? second - first : first - second;
+  });
+}
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "vitest";
+import { compareShoots, defaultComparison } from "@/domain/scoring/shoot_comparison";
+import { roundConfigManager } from "@/domain/scoring/game_types";
+
+function shoot(id: number, score: number, scores: (number | string)[] = [], date = "2024-01-01") {
+  return { id, date, score, gameType: "national", scores };
+}
+
+describe("compareShoots", () => {
+  const national = roundConfigManager.getRound("national")!;
+
+  test("lines two shoots up end by end against the first", () => {
+    const latest = shoot(1, 0, [...Array(6).fill(7), ...Array(6).fill(9)]);
+    const best = shoot(2, 0, [...Array(6).fill(9), ...Array(6).fill(9), ...Array(6).fill(5)]);
+
+    const comparison = compareShoots([latest, best], national);
+
+    expect(comparison.ends.map(end => end.values)).toEqual([[42, 54], [54, 54], [null, 30]]);
+    expect(comparison.ends[0].deltas).toEqual([0, 12]);
+    expect(comparison.ends[2].deltas).toEqual([null, null]);
+    expect(comparison.runningTotals[1]).toEqual({ label: "After end 2", values: [96, 108], deltas: [0, 12] });
+  });
+
+  test("totals each distance", () => {
+    // eight ends at 60yd, then four at 50yd
+    const first = shoot(1, 0, [...Array(48).fill(7), ...Array(24).fill(9)]);
+    const second = shoot(2, 0, [...Array(48).fill(9), ...Array(24).fill(9)]);
+
+    const comparison = compareShoots([first, second], national);
+
+    expect(comparison.distances).toEqual([
+      { label: "60yd", values: [336, 432], deltas: [0, 96] },
+      { label: "50yd", values: [216, 216], deltas: [0, 0] }
+    ]);
+  });
+
+  test("compares the totals", () => {
+    expect(compareShoots([shoot(1, 500), shoot(2, 480), shoot(3, 520)], national).totals.deltas).toEqual([0, -20, 20]);
+  });
+});
+
+describe("defaultComparison", () => {
+  test("puts the latest shoot against the best", () => {
+    const shoots = [shoot(3, 480), shoot(2, 520), shoot(1, 500)];
+
+    expect(defaultComparison(shoots).map(s => s.id)).toEqual([3, 2]);
+  });
+
+  test("puts a new best against the shoot before it", () => {
+    const shoots = [shoot(3, 530), shoot(2, 520), shoot(1, 500)];
+
+    expect(defaultComparison(shoots).map(s => s.id)).toEqual([3, 2]);
+  });
+
+  test("has nothing to compare with a single shoot", () => {
+    expect(defaultComparison([shoot(1, 500)]).map(s => s.id)).toEqual([1]);
+  });
+});
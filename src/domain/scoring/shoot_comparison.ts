@@ -0,0 +1,98 @@
+import { Round } from "@/domain/scoring/round/round";
+import { endTotals } from "@/domain/scoring/consistency";
+import { shotDistances } from "@/domain/scoring/group_analysis";
+import { convertToValue } from "@/domain/scoring/scores";
+
+export interface ComparableShoot {
+  id: number | string;
+  date: string;
+  score: number;
+  gameType: string;
+  scores: (number | string)[];
+}
+
+/**
+ * One row of the comparison, a value for each shoot and how far each is from the first shoot
+ */
+export interface ComparisonRow {
+  label: string;
+  values: (number | null)[]; // null where a shoot didn't get that far
+  deltas: (number | null)[]; // against the first shoot, which is always 0
+}
+
+export interface ShootComparison {
+  shoots: ComparableShoot[];
+  ends: ComparisonRow[];
+  runningTotals: ComparisonRow[];
+  distances: ComparisonRow[]; // empty for rounds shot at one distance
+  totals: ComparisonRow;
+}
+
+function row(label: string, values: (number | null)[]): ComparisonRow {
+  const [baseline] = values;
+  return {
+    label,
+    values,
+    deltas: values.map(value => value === null || baseline === null ? null : value - baseline)
+  };
+}
+
+function distanceTotals(scores: (number | string)[], round: Round): Map<number, number> {
+  const totals = new Map<number, number>();
+  scores.forEach((score, arrowIndex) => {
+    const distanceIndex = round.distanceIndexForArrow(arrowIndex);
+    totals.set(distanceIndex, (totals.get(distanceIndex) ?? 0) + Number(convertToValue(score, round.name)));
+  });
+  return totals;
+}
+
+/**
+ * Lines shoots of the same round up end by end and distance by distance, against the first of them
+ */
+export function compareShoots(shoots: ComparableShoot[], round: Round): ShootComparison {
+  const endsPerShoot = shoots.map(shoot => endTotals(shoot.scores ?? [], round));
+  const mostEnds = Math.max(0, ...endsPerShoot.map(ends => ends.length));
+
+  const ends = Array.from({ length: mostEnds }, (_, end) =>
+    row(`End ${end + 1}`, endsPerShoot.map(totals => totals[end] ?? null))
+  );
+
+  const runningTotals = Array.from({ length: mostEnds }, (_, end) =>
+    row(`After end ${end + 1}`, endsPerShoot.map(totals => end < totals.length
+      ? totals.slice(0, end + 1).reduce((total, value) => total + value, 0)
+      : null))
+  );
+
+  const totalsPerShoot = shoots.map(shoot => distanceTotals(shoot.scores ?? [], round));
+  const distanceIndexes = [...new Set(totalsPerShoot.flatMap(totals => [...totals.keys()]))].sort((a, b) => a - b);
+  const labels = shotDistances(round);
+  const distances = round.isFieldRound() || distanceIndexes.length < 2
+    ? []
+    : distanceIndexes.map(distanceIndex => row(
+      labels[distanceIndex]?.label ?? `Distance ${distanceIndex + 1}`,
+      totalsPerShoot.map(totals => totals.get(distanceIndex) ?? null)
+    ));
+
+  return {
+    shoots,
+    ends,
+    runningTotals,
+    distances,
+    totals: row("Total", shoots.map(shoot => shoot.score))
+  };
+}
+
+/**
+ * What to compare a round with when nothing has been picked: the latest shoot against the best,
+ * or against the one before it when the latest is the best
+ * @param shoots of one round, newest first
+ */
+export function defaultComparison(shoots: ComparableShoot[]): ComparableShoot[] {
+  if (shoots.length < 2) {
+    return shoots;
+  }
+
+  const [latest, ...earlier] = shoots;
+  const best = shoots.reduce((best, shoot) => shoot.score > best.score ? shoot : best);
+  return [latest, best === latest ? earlier[0] : best];
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  canFinishWithin,
+  DEFAULT_SECONDS_PER_ARROW,
+  estimateRoundDuration,
+  roundDurationStats,
+  secondsPerArrow
+} from "./shoot_duration";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+
+const MINUTE = 60 * 1000;
+let nextId = 1;
+
+function shoot(gameType: string, arrows: number, minutes: number | undefined, archers?: number): HistoryItem {
+  return {
+    id: nextId++,
+    date: "2024-06-01",
+    score: 0,
+    gameType,
+    scores: Array(arrows).fill(9),
+    shootDuration: minutes === undefined ? undefined : minutes * MINUTE,
+    archers
+  };
+}
+
+describe("roundDurationStats", () => {
+  it("takes the median of the finished, timed shoots of a round", () => {
+    const history = [
+      shoot("portsmouth", 60, 90),
+      shoot("portsmouth", 60, 100),
+      shoot("portsmouth", 60, 150),
+      shoot("portsmouth", 60, undefined),
+      shoot("portsmouth", 30, 20),
+      shoot("worcester", 60, 60)
+    ];
+
+    expect(roundDurationStats(history, "portsmouth")).toMatchObject({ shoots: 3, median: 100 * MINUTE });
+  });
+
+  it("splits live shoots by how many were shooting", () => {
+    const history = [
+      shoot("portsmouth", 60, 80),
+      shoot("portsmouth", 60, 90, 2),
+      shoot("portsmouth", 60, 120, 6),
+      shoot("portsmouth", 60, 100, 2)
+    ];
+
+    expect(roundDurationStats(history, "portsmouth")?.byArchers).toEqual([
+      { archers: 2, shoots: 2, median: 95 * MINUTE },
+      { archers: 6, shoots: 1, median: 120 * MINUTE }
+    ]);
+  });
+
+  it("has nothing for a round that has never been timed", () => {
+    expect(roundDurationStats([shoot("portsmouth", 60, undefined)], "portsmouth")).toBeNull();
+  });
+});
+
+describe("secondsPerArrow", () => {
+  it("is the archer's usual pace over any round", () => {
+    // 30, 60 and 50 seconds an arrow
+    const history = [shoot("portsmouth", 60, 30), shoot("national", 72, 72), shoot("worcester", 60, 50)];
+
+    expect(secondsPerArrow(history)).toBe(50);
+  });
+
+  it("falls back to a typical pace", () => {
+    expect(secondsPerArrow([])).toBe(DEFAULT_SECONDS_PER_ARROW);
+  });
+});
+
+describe("estimateRoundDuration", () => {
+  const history = [shoot("portsmouth", 60, 90), shoot("portsmouth", 60, 60)];
+
+  it("uses the archer's own shoots of the round", () => {
+    expect(estimateRoundDuration("portsmouth", history)).toEqual({ duration: 75 * MINUTE, shoots: 2 });
+  });
+
+  it("works out a round they haven't timed from its arrows", () => {
+    // 75 seconds an arrow over 72 arrows
+    expect(estimateRoundDuration("national", history)).toEqual({ duration: 90 * MINUTE, shoots: 0 });
+  });
+
+  it("can't say for practice", () => {
+    expect(estimateRoundDuration("practice 30m", history)).toBeNull();
+  });
+});
+
+describe("canFinishWithin", () => {
+  const history = [shoot("portsmouth", 60, 90)];
+
+  it("compares the estimate with the time available", () => {
+    expect(canFinishWithin("portsmouth", 2, history)).toBe(true);
+    expect(canFinishWithin("portsmouth", 1, history)).toBe(false);
+  });
+
+  it("always fits practice in", () => {
+    expect(canFinishWithin("practice 30m", 0.5, history)).toBe(true);
+  });
+});
@@ -0,0 +1,94 @@
+import type { HistoryItem } from "@/domain/repositories/player_history";
+import { roundConfigManager } from "@/domain/scoring/game_types";
+
+// Until the archer has timed a shoot, about four minutes for an end of six once scoring and collecting are counted
+export const DEFAULT_SECONDS_PER_ARROW = 40;
+
+export interface DurationStats {
+  shoots: number;
+  median: number; // milliseconds
+}
+
+export interface ArcherCountDuration extends DurationStats {
+  archers: number;
+}
+
+export interface RoundDurationStats extends DurationStats {
+  byArchers: ArcherCountDuration[]; // only shoots scored in a live shoot know how many were shooting
+}
+
+export interface DurationEstimate {
+  duration: number; // milliseconds
+  shoots: number; // how many timed shoots of the round it comes from, 0 when worked out from the arrows
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function isTimed(item: HistoryItem): boolean {
+  return !!item.shootDuration && item.shootDuration > 0 && item.scores?.length > 0;
+}
+
+/**
+ * How long the archer takes over a round, from the timed shoots they finished
+ * @returns null until they have timed one
+ */
+export function roundDurationStats(history: HistoryItem[], gameType: string): RoundDurationStats | null {
+  const round = roundConfigManager.getRound(gameType);
+  const shoots = history.filter(item =>
+    item.gameType === gameType && isTimed(item) && (!round || item.scores.length >= round.maxArrows)
+  );
+  if (shoots.length === 0) {
+    return null;
+  }
+
+  const byArchers = new Map<number, number[]>();
+  shoots.filter(shoot => shoot.archers).forEach(shoot => {
+    byArchers.set(shoot.archers!, [...(byArchers.get(shoot.archers!) ?? []), shoot.shootDuration!]);
+  });
+
+  return {
+    shoots: shoots.length,
+    median: median(shoots.map(shoot => shoot.shootDuration!)),
+    byArchers: [...byArchers.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([archers, durations]) => ({ archers, shoots: durations.length, median: median(durations) }))
+  };
+}
+
+/**
+ * The archer's usual pace over all their timed shoots, whatever the round
+ */
+export function secondsPerArrow(history: HistoryItem[]): number {
+  const paces = history.filter(isTimed).map(item => item.shootDuration! / 1000 / item.scores.length);
+  return paces.length ? median(paces) : DEFAULT_SECONDS_PER_ARROW;
+}
+
+/**
+ * How long a round should take, from the archer's own shoots of it or, for a round they haven't timed,
+ * from its arrows at their usual pace
+ * @returns null for rounds with no set number of arrows
+ */
+export function estimateRoundDuration(gameType: string, history: HistoryItem[]): DurationEstimate | null {
+  const stats = roundDurationStats(history, gameType);
+  if (stats) {
+    return { duration: stats.median, shoots: stats.shoots };
+  }
+
+  const round = roundConfigManager.getRound(gameType);
+  if (!round || round.maxArrows === Infinity) {
+    return null;
+  }
+  return { duration: round.maxArrows * secondsPerArrow(history) * 1000, shoots: 0 };
+}
+
+/**
+ * Whether the archer should get through a round in the time they have. Practice can stop whenever
+ */
+export function canFinishWithin(gameType: string, hours: number, history: HistoryItem[]): boolean {
+  const estimate = estimateRoundDuration(gameType, history);
+  return !estimate || estimate.duration <= hours * 60 * 60 * 1000;
+}
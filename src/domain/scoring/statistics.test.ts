@@ -0,0 +1,18 @@
+import { describe, expect, test } from "vitest";
+import { mean, round1, round2, standardDeviation } from "@/domain/scoring/statistics";
+
+describe("statistics", () => {
+  test("averages and spreads values", () => {
+    expect(mean([2, 4, 9])).toBe(5);
+    expect(standardDeviation([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3);
+  });
+
+  test("has no spread for a single value", () => {
+    expect(standardDeviation([7])).toBe(0);
+  });
+
+  test("rounds to one or two places", () => {
+    expect(round1(2.345)).toBe(2.3);
+    expect(round2(2.345)).toBe(2.35);
+  });
+});
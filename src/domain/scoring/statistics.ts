@@ -0,0 +1,25 @@
+/**
+ * The average of some values, NaN when there are none
+ */
+export function mean(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+/**
+ * Sample standard deviation, 0 when there are too few values to spread
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return Math.sqrt(values.reduce((total, value) => total + Math.pow(value - average, 2), 0) / (values.length - 1));
+}
+
+export function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
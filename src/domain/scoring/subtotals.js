@@ -11,6 +11,7 @@ export function calculateSubtotals(scores, gameType) {
         hits: scoreValues.length,
         totalScore: totalScore,
         golds: calculateGolds(scoreValues, round, gameType),
+        tens: calculateTenCount(scoreValues),
         X: calculateXCount(scores),
         onTrackFor252: totalScore >= 84
     };
@@ -23,9 +24,21 @@ function calculateGolds(scores, round, gameType) {
         const worcesterGoldsThreshold = 5;
         return scores.filter(score => score >= worcesterGoldsThreshold).length;
     }
+    if (round.isCloutRound()) {
+        const cloutGoldsThreshold = 5;
+        return scores.filter(score => score >= cloutGoldsThreshold).length;
+    }
+    if (round.isFieldRound()) {
+        const fieldGoldsThreshold = 6;
+        return scores.filter(score => score >= fieldGoldsThreshold).length;
+    }
     const goldsThreshold = round.isImperial ? 9 : 10;
     return scores.filter(score => score >= goldsThreshold).length;
 }
+// an X is worth ten so counts here, whether it is the outdoor X or the compound inner ten
+function calculateTenCount(scoreValues) {
+    return scoreValues.filter(score => score === 10).length;
+}
 function calculateXCount(scoreValues) {
     return scoreValues.filter(score => score === "X").length;
 }
@@ -85,4 +85,26 @@ describe("imperial rounds only have 9 as gold", () => {
   test("less than 9 does not count as gold", () => {
     expect(calculateSubtotals([7, 7, 7], imperialRound).golds).toEqual(0);
   });
-});
\ No newline at end of file
+});
+
+describe("clout golds are hits on the flag", () => {
+  test("only 5 counts as gold", () => {
+    expect(calculateSubtotals([5, 3, 4, 5, "M", 1], "clout 165yd")).toMatchObject({
+      hits: 5,
+      totalScore: 18,
+      golds: 2
+    });
+  });
+});
+
+describe("tens include Xs", () => {
+  test("outdoor X and compound inner ten both count as tens", () => {
+    expect(calculateSubtotals(["X", 10, 9], metricRound)).toMatchObject({ tens: 2, X: 1 });
+    expect(calculateSubtotals(["X", "X", 10], "wa 18m")).toMatchObject({ totalScore: 30, golds: 3, tens: 3, X: 2 });
+  });
+
+  test("imperial and worcester rounds have no tens", () => {
+    expect(calculateSubtotals([9, 9, 7], imperialRound).tens).toEqual(0);
+    expect(calculateSubtotals(["X", 5, 5], "worcester (5 spot)").tens).toEqual(0);
+  });
+});
@@ -1,4 +1,4 @@
-import { convertToValues } from "@shared/utils/scores";
+import { convertToValues } from "@/domain/scoring/scores";
 import { roundConfigManager } from '@/domain/scoring/game_types'
 import { Round } from '@/domain/scoring/round/round'
 
@@ -6,6 +6,7 @@ export interface Subtotals {
   hits: number;
   totalScore: number;
   golds: number;
+  tens: number;
   X: number;
   onTrackFor252: boolean;
 }
@@ -23,6 +24,7 @@ export function calculateSubtotals(scores: (number | string)[], gameType: string
     hits: scoreValues.length,
     totalScore: totalScore,
     golds: calculateGolds(scoreValues, round, gameType),
+    tens: calculateTenCount(scoreValues),
     X: calculateXCount(scores),
     onTrackFor252: totalScore >= 84
   };
@@ -38,10 +40,25 @@ function calculateGolds(scores: number[], round: Round, gameType: string): numbe
     return scores.filter(score => score >= worcesterGoldsThreshold).length
   }
 
+  if (round.isCloutRound()) {
+    const cloutGoldsThreshold = 5
+    return scores.filter(score => score >= cloutGoldsThreshold).length
+  }
+
+  if (round.isFieldRound()) {
+    const fieldGoldsThreshold = 6
+    return scores.filter(score => score >= fieldGoldsThreshold).length
+  }
+
   const goldsThreshold = round.isImperial ? 9 : 10
   return scores.filter(score => score >= goldsThreshold).length;
 }
 
+// an X is worth ten so counts here, whether it is the outdoor X or the compound inner ten
+function calculateTenCount(scoreValues: number[]): number {
+  return scoreValues.filter(score => score === 10).length;
+}
+
 function calculateXCount(scoreValues: (number | string)[]): number {
   return scoreValues.filter(score => score === "X").length;
 }
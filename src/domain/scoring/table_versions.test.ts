@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { currentVersion, versionInForce } from "./table_versions";
+
+const versions = [
+  { name: "2025", effectiveFrom: "2025-04-01" },
+  { name: "2023", effectiveFrom: "2023-01-01" }
+];
+
+describe("table versions", () => {
+  it("picks the latest version in force on the day", () => {
+    expect(versionInForce(versions, "2024-06-01").name).toBe("2023");
+    expect(versionInForce(versions, "2025-04-01").name).toBe("2025");
+    expect(versionInForce(versions, new Date("2026-01-01")).name).toBe("2025");
+  });
+
+  it("uses the earliest version for shoots from before any of them", () => {
+    expect(versionInForce(versions, "2019-06-01").name).toBe("2023");
+  });
+
+  it("uses the current version without a date", () => {
+    expect(versionInForce(versions).name).toBe("2025");
+    expect(currentVersion(versions).name).toBe("2025");
+  });
+
+  it("uses the current version when the date can't be read", () => {
+    expect(versionInForce(versions, "someday").name).toBe("2025");
+    expect(versionInForce(versions, new Date("not a date")).name).toBe("2025");
+  });
+});
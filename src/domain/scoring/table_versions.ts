@@ -0,0 +1,33 @@
+/**
+ * AGB revise their classification and handicap tables every few years.
+ * A shoot is judged against the tables in force on the day it was shot, so a revision doesn't rewrite history.
+ */
+export interface TableVersion {
+  name: string;
+  effectiveFrom: string; // YYYY-MM-DD
+}
+
+function byEffectiveDate<T extends TableVersion>(versions: T[]): T[] {
+  return [...versions].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+export function currentVersion<T extends TableVersion>(versions: T[]): T {
+  const sorted = byEffectiveDate(versions);
+  return sorted[sorted.length - 1];
+}
+
+/**
+ * The latest version that had come into force by the date, or the earliest we have for shoots older than that
+ * @param date when the shoot happened, the current version is used when it's unknown or can't be read
+ */
+export function versionInForce<T extends TableVersion>(versions: T[], date?: string | Date | null): T {
+  const when = date ? new Date(date) : null;
+  if (!when || isNaN(when.getTime())) {
+    return currentVersion(versions);
+  }
+
+  const day = when.toISOString().slice(0, 10);
+  const sorted = byEffectiveDate(versions);
+  const inForce = sorted.filter(version => version.effectiveFrom <= day);
+  return inForce.length > 0 ? inForce[inForce.length - 1] : sorted[0];
+}
@@ -0,0 +1,24 @@
+import { roundConfigManager } from "@/domain/scoring/game_types";
+import {
+  inferTieBreakRules,
+  rankParticipants,
+  RankedParticipant,
+  TieBreakRules,
+  tieBreakRulesForFace
+} from "@shared/models/TieBreak";
+import { ShootParticipant } from "@shared/models/Shoot";
+
+/**
+ * Tie-break rules from the round's own scoring face, falling back to the arrows shot when the round is unknown
+ */
+export function tieBreakRulesForRound(roundName: string, arrows: (number | string)[] = [], bowType?: string): TieBreakRules {
+  const round = roundConfigManager.getRound(roundName);
+  return round ? tieBreakRulesForFace(round.getScores(bowType)) : inferTieBreakRules(roundName, arrows);
+}
+
+/**
+ * Leaderboard order for a live shoot, ties on the same round split by that round's tie-breakers
+ */
+export function rankLeaderboard(participants: ShootParticipant[]): RankedParticipant[] {
+  return rankParticipants(participants, tieBreakRulesForRound);
+}
@@ -178,4 +178,30 @@ describe("addTopScoreIndicator", () => {
     // The barebow warwick 40 with 200 should not be marked as top score
     expect(scoringHistoryWithTopScores[3].topScore).toBeFalsy();
   });
+
+  test("splits equal scores with the round's tie-breakers", () => {
+    const scoringHistoryWithTies = [
+      {
+        "id": 1,
+        "date": "2023-07-21",
+        "score": 27,
+        "gameType": "windsor",
+        "scores": [9, 9, 9],
+        "userProfile": { "bowType": "recurve" }
+      },
+      {
+        "id": 2,
+        "date": "2023-07-20",
+        "score": 27,
+        "gameType": "windsor",
+        "scores": [9, 7, 5, 3, 3],
+        "userProfile": { "bowType": "recurve" }
+      }
+    ];
+
+    const scoringHistoryWithTopScores = addTopScoreIndicator(scoringHistoryWithTies);
+
+    expect(scoringHistoryWithTopScores[0].topScore).toBeFalsy();
+    expect(scoringHistoryWithTopScores[1].topScore).toBeTruthy();
+  });
 });
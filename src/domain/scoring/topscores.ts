@@ -1,3 +1,12 @@
+import { compareTieBreakKeys, tieBreakKey } from "@shared/models/TieBreak";
+import { tieBreakRulesForRound } from "@/domain/scoring/tie_break";
+
+function rankingKey(entry) {
+    const scores = entry.scores || [];
+    const rules = tieBreakRulesForRound(entry.gameType, scores, entry.userProfile?.bowType);
+    return tieBreakKey(entry.score, scores, rules, entry.gameType);
+}
+
 export function addTopScoreIndicator(scoringHistory) {
     // Create a copy of the input object to avoid modifying the original data
     const scoringHistoryCopy = JSON.parse(JSON.stringify(scoringHistory));
@@ -12,16 +21,17 @@ export function addTopScoreIndicator(scoringHistory) {
         }
 
         const gameType = entry.gameType;
-        const score = entry.score;
+        const key = rankingKey(entry);
         const bowType = entry.userProfile?.bowType || "unknown";
 
         if (!bestScoresByGameTypeAndBowType[gameType]) {
             bestScoresByGameTypeAndBowType[gameType] = {};
         }
 
+        // Equal scores are split by the round's tie-breakers, as they would be at a competition
         if (!bestScoresByGameTypeAndBowType[gameType][bowType] ||
-          score > bestScoresByGameTypeAndBowType[gameType][bowType]) {
-            bestScoresByGameTypeAndBowType[gameType][bowType] = score;
+          compareTieBreakKeys(key, bestScoresByGameTypeAndBowType[gameType][bowType]) < 0) {
+            bestScoresByGameTypeAndBowType[gameType][bowType] = key;
         }
     }
 
@@ -32,11 +42,10 @@ export function addTopScoreIndicator(scoringHistory) {
         }
 
         const gameType = entry.gameType;
-        const score = entry.score;
         const bowType = entry.userProfile?.bowType || "unknown";
 
         // Check if the current score is the best score for this game type and bow type
-        entry.topScore = score === bestScoresByGameTypeAndBowType[gameType][bowType];
+        entry.topScore = compareTieBreakKeys(rankingKey(entry), bestScoresByGameTypeAndBowType[gameType][bowType]) === 0;
     }
 
     return scoringHistoryCopy;
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { buildSeasonReport, reportPeriods, type ReportPeriod } from "@/domain/season_report";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+import type { DiaryAchievement } from "@/domain/achievements/diary_achievements";
+
+let nextId = 1;
+
+function shoot(date: string, gameType: string, score: number, overrides: Partial<HistoryItem> = {}): HistoryItem {
+  return {
+    id: nextId++,
+    date,
+    score,
+    gameType,
+    scores: Array(60).fill(9),
+    shootStatus: "Competition",
+    userProfile: { bowType: "recurve" },
+    ...overrides
+  };
+}
+
+const indoor2024: ReportPeriod = { label: "Indoor 2024/25", environment: "indoor", from: "2024-10-01", to: "2025-04-01" };
+const year2025: ReportPeriod = { label: "2025", environment: null, from: "2025-01-01", to: "2026-01-01" };
+
+describe("reportPeriods", () => {
+  it("offers this and last season of each, and this and last year", () => {
+    const periods = reportPeriods("2024-10-01", "2025-04-01", new Date(2025, 5, 15));
+
+    expect(periods.map(period => period.label)).toEqual([
+      "Outdoor 2025",
+      "2025",
+      "Indoor 2024/25",
+      "Outdoor 2024",
+      "2024",
+      "Indoor 2023/24"
+    ]);
+    expect(periods[0]).toMatchObject({ from: "2025-04-01", to: "2025-10-01" });
+  });
+
+  it("leaves out a season that hasn't started", () => {
+    const periods = reportPeriods("2025-10-01", "2025-04-01", new Date(2025, 5, 15));
+
+    expect(periods.map(period => period.label)).not.toContain("Indoor 2025/26");
+  });
+});
+
+describe("buildSeasonReport", () => {
+  it("counts the shoots and arrows of the season", () => {
+    const history = [
+      shoot("2024-11-01", "portsmouth", 500),
+      shoot("2024-12-01", "portsmouth", 510, { shootStatus: "Practice" }),
+      shoot("2025-01-01", "worcester", 250, { scores: Array(60).fill(5), shootStatus: undefined }),
+      // outdoors in winter, and outside the season
+      shoot("2024-12-10", "frostbite", 300),
+      shoot("2024-09-01", "portsmouth", 480)
+    ];
+
+    const report = buildSeasonReport(history, [], indoor2024, "recurve");
+
+    expect(report.shoots).toBe(3);
+    expect(report.arrowsShot).toBe(180);
+    expect(report.shootsByStatus).toEqual({ Practice: 2, Competition: 1, RecordStatus: 0 });
+    expect(report.mostShotRounds).toEqual([{ gameType: "portsmouth", shoots: 2 }, { gameType: "worcester", shoots: 1 }]);
+  });
+
+  it("finds the personal bests set, not the first time a round was shot", () => {
+    const history = [
+      shoot("2024-09-01", "portsmouth", 480),
+      shoot("2024-11-01", "portsmouth", 500),
+      shoot("2024-12-01", "portsmouth", 490),
+      shoot("2025-01-01", "worcester", 250)
+    ];
+
+    const report = buildSeasonReport(history, [], indoor2024, "recurve");
+
+    expect(report.personalBests.map(pb => [pb.gameType, pb.score, pb.previousBest])).toEqual([["portsmouth", 500, 480]]);
+  });
+
+  it("only counts a classification better than any before it", () => {
+    const history = [
+      shoot("2025-02-01", "national", 400, { classification: { name: "A1", scheme: "AGB" } }),
+      shoot("2025-03-01", "national", 400, { classification: { name: "B3", scheme: "AGB" } }),
+      shoot("2025-04-01", "national", 400, { classification: { name: "B2", scheme: "AGB" } }),
+      shoot("2025-05-01", "national", 400, { classification: { name: "B3", scheme: "AGB" } })
+    ];
+
+    const report = buildSeasonReport(history, [], { ...year2025, from: "2025-03-01" }, "recurve");
+
+    expect(report.classificationsGained.map(gained => gained.name)).toEqual(["B3", "B2"]);
+  });
+
+  it("follows the handicap through the season", () => {
+    const history = [
+      shoot("2024-01-01", "portsmouth", 500, { handicap: 40 }),
+      shoot("2024-02-01", "portsmouth", 500, { handicap: 40 }),
+      shoot("2024-03-01", "portsmouth", 500, { handicap: 40 }),
+      shoot("2024-11-01", "portsmouth", 500, { handicap: 30 }),
+      shoot("2024-12-01", "portsmouth", 500, { handicap: 30 })
+    ];
+
+    const report = buildSeasonReport(history, [], indoor2024, "recurve");
+
+    // best three of 40, 30 and 30 is 34 rounded up
+    expect(report.handicaps).toEqual([{ environment: "indoor", start: 40, end: 34, change: -6 }]);
+  });
+
+  it("has no handicap change without a handicap in the season", () => {
+    expect(buildSeasonReport([], [], year2025, "recurve").handicaps).toEqual([]);
+  });
+
+  it("picks up new venues and achievements from the season", () => {
+    const venue = { latitude: 0, longitude: 0, placeName: "Club field", timestamp: 0 };
+    const history = [
+      shoot("2024-09-01", "portsmouth", 480, { location: { ...venue, placeName: "Sports hall" } }),
+      shoot("2024-11-01", "portsmouth", 480, { location: { ...venue, placeName: "Sports hall" } }),
+      shoot("2024-12-01", "portsmouth", 480, { location: venue })
+    ];
+    const achievement = (achievedDate: string): DiaryAchievement => ({
+      id: achievedDate, name: "", description: "", tier: "bronze", achievedDate, achievingShootId: 1, unlockedAt: achievedDate
+    });
+
+    const report = buildSeasonReport(history, [achievement("2024-09-01"), achievement("2024-12-01")], indoor2024, "recurve");
+
+    expect(report.newVenues.map(event => event.location.placeName)).toEqual(["Club field"]);
+    expect(report.achievements.map(unlocked => unlocked.achievedDate)).toEqual(["2024-12-01"]);
+  });
+});
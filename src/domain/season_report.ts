@@ -0,0 +1,201 @@
+import type { HistoryItem } from "@/domain/repositories/player_history";
+import type { DiaryAchievement } from "@/domain/achievements/diary_achievements";
+import type { NewVenueEvent, PersonalBestEvent } from "@/domain/diary/enhanced_diary_timeline";
+import { detectNewVenues, detectPersonalBests } from "@/domain/diary/enhanced_diary_timeline";
+import { calculateRollingHandicap, type Environment } from "@/domain/scoring/season_handicap";
+import { getClassificationIndex } from "@/domain/scoring/classificationList";
+import { roundConfigManager } from "@/domain/scoring/game_types";
+import { getAllShootStatuses, type ShootStatus } from "@/domain/shoot/shoot_status";
+
+// Seasons run six months from their start date, as in season_dates
+const SEASON_MONTHS = 6;
+const MOST_SHOT_ROUNDS = 3;
+
+export interface ReportPeriod {
+  label: string;
+  environment: Environment | null; // null for a whole year, which takes in both
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, exclusive
+}
+
+export interface ClassificationGained {
+  name: string;
+  bowType: string;
+  environment: Environment;
+  date: string;
+  shootId: number | string;
+  gameType: string;
+}
+
+export interface HandicapChange {
+  environment: Environment;
+  start: number | null; // null when there was no handicap going into the period
+  end: number;
+  change: number | null; // negative is an improvement
+}
+
+export interface RoundCount {
+  gameType: string;
+  shoots: number;
+}
+
+export interface SeasonReport {
+  period: ReportPeriod;
+  shoots: number;
+  arrowsShot: number;
+  shootsByStatus: Record<ShootStatus, number>;
+  personalBests: PersonalBestEvent[];
+  classificationsGained: ClassificationGained[];
+  handicaps: HandicapChange[];
+  mostShotRounds: RoundCount[];
+  newVenues: NewVenueEvent[];
+  achievements: DiaryAchievement[];
+}
+
+function isoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function shiftDate(date: string, years: number, months = 0): string {
+  const shifted = new Date(date);
+  shifted.setFullYear(shifted.getFullYear() + years);
+  shifted.setMonth(shifted.getMonth() + months);
+  return isoDate(shifted);
+}
+
+function season(environment: Environment, from: string): ReportPeriod {
+  const startYear = new Date(from).getFullYear();
+  // Indoor seasons run over new year
+  const label = environment === "indoor"
+    ? `Indoor ${startYear}/${String(startYear + 1).slice(-2)}`
+    : `Outdoor ${startYear}`;
+  return { label, environment, from, to: shiftDate(from, 0, SEASON_MONTHS) };
+}
+
+function year(year: number): ReportPeriod {
+  return { label: `${year}`, environment: null, from: `${year}-01-01`, to: `${year + 1}-01-01` };
+}
+
+/**
+ * The seasons and years there is a report for, this one and last one of each, newest first
+ */
+export function reportPeriods(indoorSeasonStartDate: string, outdoorSeasonStartDate: string, today = new Date()): ReportPeriod[] {
+  const thisYear = today.getFullYear();
+  return [
+    season("indoor", indoorSeasonStartDate),
+    season("indoor", shiftDate(indoorSeasonStartDate, -1)),
+    season("outdoor", outdoorSeasonStartDate),
+    season("outdoor", shiftDate(outdoorSeasonStartDate, -1)),
+    year(thisYear),
+    year(thisYear - 1)
+  ]
+    .filter(period => new Date(period.from) <= today)
+    .sort((a, b) => b.from.localeCompare(a.from) || a.label.localeCompare(b.label));
+}
+
+function inPeriod(date: string | undefined, period: ReportPeriod): boolean {
+  if (!date) {
+    return false;
+  }
+  const time = new Date(date).getTime();
+  return time >= new Date(period.from).getTime() && time < new Date(period.to).getTime();
+}
+
+function environmentOf(gameType: string): Environment | null {
+  const round = roundConfigManager.getRound(gameType);
+  if (!round) {
+    return null;
+  }
+  return round.isOutdoor ? "outdoor" : "indoor";
+}
+
+function chronological(history: HistoryItem[]): HistoryItem[] {
+  return [...history].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/**
+ * Classifications better than any the archer had shot before with that bow, indoors and outdoors kept apart
+ */
+function classificationsGained(history: HistoryItem[], period: ReportPeriod): ClassificationGained[] {
+  const bestSoFar = new Map<string, number>();
+  const gained: ClassificationGained[] = [];
+
+  for (const shoot of chronological(history)) {
+    const environment = environmentOf(shoot.gameType);
+    const bowType = shoot.userProfile?.bowType;
+    const name = shoot.classification?.name;
+    if (!environment || !bowType || !name || name === "PB") {
+      continue;
+    }
+
+    const key = `${bowType}|${environment}`;
+    const index = getClassificationIndex(name);
+    if (index > (bestSoFar.get(key) ?? -1)) {
+      bestSoFar.set(key, index);
+      if (inPeriod(shoot.date, period)) {
+        gained.push({ name, bowType, environment, date: shoot.date, shootId: shoot.id, gameType: shoot.gameType });
+      }
+    }
+  }
+  return gained;
+}
+
+function handicapChanges(history: HistoryItem[], bowType: string, period: ReportPeriod): HandicapChange[] {
+  const environments: Environment[] = period.environment ? [period.environment] : ["indoor", "outdoor"];
+
+  return environments.flatMap(environment => {
+    const points = calculateRollingHandicap(history, bowType, environment);
+    const before = points.filter(point => new Date(point.date) < new Date(period.from));
+    const during = points.filter(point => inPeriod(point.date, period));
+    if (during.length === 0) {
+      return [];
+    }
+
+    const start = before.length ? before[before.length - 1].handicap : null;
+    const end = during[during.length - 1].handicap;
+    return [{ environment, start, end, change: start === null ? null : end - start }];
+  });
+}
+
+function mostShotRounds(shoots: HistoryItem[]): RoundCount[] {
+  const counts = new Map<string, number>();
+  shoots.forEach(shoot => counts.set(shoot.gameType, (counts.get(shoot.gameType) ?? 0) + 1));
+  return [...counts.entries()]
+    .map(([gameType, count]) => ({ gameType, shoots: count }))
+    .sort((a, b) => b.shoots - a.shoots || a.gameType.localeCompare(b.gameType))
+    .slice(0, MOST_SHOT_ROUNDS);
+}
+
+/**
+ * Everything the archer did over a season or a year
+ * @param history all of the archer's shoots, as PBs, venues and classifications are only new against what came before
+ * @param achievements the archer's unlocked achievements, as from getDiaryAchievements
+ * @param bowType the bow the handicap is followed for
+ */
+export function buildSeasonReport(
+  history: HistoryItem[],
+  achievements: DiaryAchievement[],
+  period: ReportPeriod,
+  bowType: string
+): SeasonReport {
+  // A season takes in only its own rounds, winter outdoor shoots aren't part of the indoor season
+  const inEnvironment = (gameType: string) => !period.environment || environmentOf(gameType) === period.environment;
+  const shoots = history.filter(shoot => inPeriod(shoot.date, period) && inEnvironment(shoot.gameType));
+
+  const shootsByStatus = Object.fromEntries(getAllShootStatuses().map(status => [status, 0])) as Record<ShootStatus, number>;
+  shoots.forEach(shoot => shootsByStatus[shoot.shootStatus ?? "Practice"]++);
+
+  return {
+    period,
+    shoots: shoots.length,
+    arrowsShot: shoots.reduce((total, shoot) => total + (shoot.scores?.length ?? 0), 0),
+    shootsByStatus,
+    personalBests: detectPersonalBests(history)
+      .filter((event): event is PersonalBestEvent => event.type === "personal-best" && inPeriod(event.date, period) && inEnvironment(event.gameType)),
+    classificationsGained: classificationsGained(history, period).filter(gained => inEnvironment(gained.gameType)),
+    handicaps: handicapChanges(history, bowType, period),
+    mostShotRounds: mostShotRounds(shoots),
+    newVenues: detectNewVenues(history).filter(event => inPeriod(event.date, period)),
+    achievements: achievements.filter(achievement => inPeriod(achievement.achievedDate, period))
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { CURRENT_SCHEMA_VERSION, migrate, migrations, SCHEMA_VERSION_KEY, type Migration } from "@/domain/storage/migrations";
+
+describe("migrations", () => {
+  it("are numbered one after another", () => {
+    expect(migrations.map(migration => migration.version)).toEqual(migrations.map((_, index) => index + 1));
+  });
+});
+
+describe("migrate", () => {
+  const pipeline: Migration[] = [
+    { version: 1, description: "add a", migrate: data => ({ ...data, steps: [...(data.steps as string[] ?? []), "a"] }) },
+    { version: 2, description: "add b", migrate: data => ({ ...data, steps: [...(data.steps as string[] ?? []), "b"] }) }
+  ];
+
+  it("runs every migration on new data", () => {
+    const result = migrate({}, pipeline);
+
+    expect(result.data).toEqual({ steps: ["a", "b"], [SCHEMA_VERSION_KEY]: 2 });
+    expect(result.applied.map(migration => migration.version)).toEqual([1, 2]);
+  });
+
+  it("only runs the migrations after the stored version", () => {
+    expect(migrate({ [SCHEMA_VERSION_KEY]: 1 }, pipeline).data.steps).toEqual(["b"]);
+    expect(migrate({ [SCHEMA_VERSION_KEY]: 2 }, pipeline).applied).toEqual([]);
+  });
+
+  it("leaves data from a newer version alone", () => {
+    expect(migrate({ [SCHEMA_VERSION_KEY]: 5 }, pipeline)).toMatchObject({ version: 5, applied: [] });
+  });
+
+  it("names rounds saved with a separate distance", () => {
+    const { data } = migrate({ history: [{ id: 1, gameType: "national", distance: 50, scores: [] }] });
+
+    expect(data.history).toEqual([{ id: 1, gameType: "national 50", scores: [] }]);
+    expect(data[SCHEMA_VERSION_KEY]).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it("drops the arrow plots of deleted shoots", () => {
+    const { data } = migrate({
+      history: [{ id: 1, gameType: "national", scores: [] }],
+      "arrow-history": { 1: [{ x: 0, y: 0 }], 2: [{ x: 1, y: 1 }] }
+    });
+
+    expect(data["arrow-history"]).toEqual({ 1: [{ x: 0, y: 0 }] });
+  });
+});
@@ -0,0 +1,59 @@
+import type { StoredData } from "@/domain/ports/key_value_storage";
+import { userDataFixer } from "@/domain/user_data_fixer";
+
+export const SCHEMA_VERSION_KEY = "schema-version";
+
+export interface Migration {
+  version: number;
+  description: string;
+  migrate(data: StoredData): StoredData;
+}
+
+/**
+ * Every change to the shape of the stored data, in order. Each runs once, on data at the version before it.
+ * Add new ones to the end with the next version number; never change or remove one that has shipped
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    description: "Fix shoots saved with a separate distance or without an id",
+    migrate: data => Array.isArray(data.history)
+      ? { ...data, history: userDataFixer(data.history) }
+      : data
+  },
+  {
+    version: 2,
+    description: "Drop the arrow plots of shoots that have been deleted",
+    migrate: data => {
+      if (!Array.isArray(data.history) || !data["arrow-history"] || typeof data["arrow-history"] !== "object") {
+        return data;
+      }
+      const shootIds = new Set(data.history.map(item => String(item?.id)));
+      const plots = Object.entries(data["arrow-history"] as Record<string, unknown>)
+        .filter(([shootId]) => shootIds.has(shootId));
+      return { ...data, "arrow-history": Object.fromEntries(plots) };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export interface MigrationResult {
+  data: StoredData;
+  version: number;
+  applied: Migration[];
+}
+
+/**
+ * Bring stored data up to the current schema. Data from a newer version of the app is left alone
+ */
+export function migrate(data: StoredData, pipeline: Migration[] = migrations): MigrationResult {
+  const from = Number(data[SCHEMA_VERSION_KEY] ?? 0);
+  const applied = pipeline
+    .filter(migration => migration.version > from)
+    .sort((a, b) => a.version - b.version);
+
+  const migrated = applied.reduce((current, migration) => migration.migrate(current), data);
+  const version = applied.length ? applied[applied.length - 1].version : from;
+  return { data: { ...migrated, [SCHEMA_VERSION_KEY]: version }, version, applied };
+}
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { InMemoryStorage } from "@/domain/adapters/in-memory/in_memory_storage";
+import { CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY } from "@/domain/storage/migrations";
+import { loadPersistentData } from "@/domain/storage/persistent_data";
+
+const history = [{ id: 1, date: "2025-06-01", gameType: "national", scores: [9, 9, 9] }];
+
+describe("loadPersistentData", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("moves the data out of localStorage the first time", async () => {
+    localStorage.setItem("history", JSON.stringify(history));
+    localStorage.setItem("user", JSON.stringify({ name: "Sam" }));
+    const storage = new InMemoryStorage();
+
+    const data = await loadPersistentData(storage, localStorage);
+
+    expect(data.history).toEqual(history);
+    expect(await storage.getAll()).toEqual({ history, [SCHEMA_VERSION_KEY]: CURRENT_SCHEMA_VERSION });
+    expect(localStorage.getItem("history")).toBeNull();
+    // Settings stay where they are
+    expect(localStorage.getItem("user")).not.toBeNull();
+  });
+
+  it("loads what is already stored without writing it again", async () => {
+    const storage = new InMemoryStorage({ history, [SCHEMA_VERSION_KEY]: CURRENT_SCHEMA_VERSION });
+    storage.setQuota(0);
+
+    expect((await loadPersistentData(storage, localStorage)).history).toEqual(history);
+  });
+
+  it("takes anything saved to localStorage while the database couldn't be opened", async () => {
+    const newer = [...history, { id: 2, date: "2025-06-02", gameType: "national", scores: [] }];
+    localStorage.setItem("history", JSON.stringify(newer));
+    const storage = new InMemoryStorage({ history, [SCHEMA_VERSION_KEY]: CURRENT_SCHEMA_VERSION });
+
+    expect((await loadPersistentData(storage, localStorage)).history).toEqual(newer);
+  });
+
+  it("migrates each archer's data on its own", async () => {
+    const junior = [{ id: 2, date: "2025-06-02", gameType: "national", scores: [] }];
+    const storage = new InMemoryStorage({
+      history,
+      "arrow-history": { 1: [], 2: [] },
+      "history@junior": junior,
+      "arrow-history@junior": { 1: [], 2: [] },
+      [SCHEMA_VERSION_KEY]: 1
+    });
+
+    const data = await loadPersistentData(storage, localStorage, ["default", "junior"]);
+
+    expect(data["arrow-history"]).toEqual({ 1: [] });
+    expect(data["arrow-history@junior"]).toEqual({ 2: [] });
+    expect(data[SCHEMA_VERSION_KEY]).toBe(CURRENT_SCHEMA_VERSION);
+  });
+
+  it("takes another archer's data out of localStorage too", async () => {
+    localStorage.setItem("history@junior", JSON.stringify(history));
+    const storage = new InMemoryStorage();
+
+    const data = await loadPersistentData(storage, localStorage, ["default", "junior"]);
+
+    expect(data["history@junior"]).toEqual(history);
+    expect(localStorage.getItem("history@junior")).toBeNull();
+  });
+
+  it("leaves the data in localStorage when there isn't room to move it", async () => {
+    localStorage.setItem("history", JSON.stringify(history));
+    const storage = new InMemoryStorage();
+    storage.setQuota(10);
+
+    await expect(loadPersistentData(storage, localStorage)).rejects.toMatchObject({ name: "QuotaExceededError" });
+    expect(localStorage.getItem("history")).toBe(JSON.stringify(history));
+    expect(await storage.getAll()).toEqual({});
+  });
+});
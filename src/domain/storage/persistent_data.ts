@@ -0,0 +1,79 @@
+import type { KeyValueStoragePort, StoredData } from "@/domain/ports/key_value_storage";
+import { DEFAULT_PROFILE_ID, parseProfileStorageKey, profileStorageKey } from "@/domain/profiles";
+import { migrate, SCHEMA_VERSION_KEY, type Migration } from "@/domain/storage/migrations";
+
+// The data that grows with every shoot, which moves out of localStorage
+export const PERSISTENT_KEYS = ["history", "arrow-history", "notes", "pendingNotes", "sight-marks"];
+
+export type LegacyStorage = Pick<Storage, "getItem" | "removeItem">;
+
+/**
+ * Whatever is still in localStorage: everything the first time, or anything saved in a session
+ * that couldn't open the database. Either way it is newer than what the database holds
+ */
+function takeLegacyData(legacyStorage: LegacyStorage | null, profileIds: string[]): StoredData {
+  const data: StoredData = {};
+  const keys = profileIds.flatMap(profileId => PERSISTENT_KEYS.map(key => profileStorageKey(key, profileId)));
+  keys.forEach(key => {
+    const raw = legacyStorage?.getItem(key);
+    if (raw === null || raw === undefined) {
+      return;
+    }
+    try {
+      data[key] = JSON.parse(raw);
+    } catch (error) {
+      console.error(`Couldn't read ${key} from localStorage, leaving it there:`, error);
+    }
+  });
+  return data;
+}
+
+/**
+ * Run the migrations over each archer's data on its own, as each is written for one archer's keys
+ */
+function migrateProfiles(stored: StoredData): { data: StoredData; applied: Migration[] } {
+  const byProfile = new Map<string, StoredData>([[DEFAULT_PROFILE_ID, {}]]);
+  Object.entries(stored)
+    .filter(([storageKey]) => storageKey !== SCHEMA_VERSION_KEY)
+    .forEach(([storageKey, value]) => {
+      const { key, profileId } = parseProfileStorageKey(storageKey);
+      byProfile.set(profileId, { ...byProfile.get(profileId), [key]: value });
+    });
+
+  const data: StoredData = {};
+  let applied: Migration[] = [];
+  byProfile.forEach((profileData, profileId) => {
+    const result = migrate({ ...profileData, [SCHEMA_VERSION_KEY]: stored[SCHEMA_VERSION_KEY] });
+    applied = result.applied;
+    data[SCHEMA_VERSION_KEY] = result.version;
+    Object.entries(result.data)
+      .filter(([key]) => key !== SCHEMA_VERSION_KEY)
+      .forEach(([key, value]) => {
+        data[profileStorageKey(key, profileId)] = value;
+      });
+  });
+  return { data, applied };
+}
+
+/**
+ * Load everything stored, bringing anything left in localStorage over and running the migrations first.
+ * The result is saved in one go before the localStorage copies are removed, so running out of space
+ * part way leaves the archer's data where it was
+ */
+export async function loadPersistentData(
+  storage: KeyValueStoragePort,
+  legacyStorage: LegacyStorage | null,
+  profileIds: string[] = [DEFAULT_PROFILE_ID]
+): Promise<StoredData> {
+  const legacy = takeLegacyData(legacyStorage, profileIds);
+  const { data, applied } = migrateProfiles({ ...(await storage.getAll()), ...legacy });
+
+  const legacyKeys = Object.keys(legacy);
+  if (applied.length === 0 && legacyKeys.length === 0) {
+    return data;
+  }
+
+  await storage.setMany(data);
+  legacyKeys.forEach(key => legacyStorage?.removeItem(key));
+  return data;
+}
@@ -1,6 +1,7 @@
 import './assets/main.css'
 
 import { createAppInstance, setupServiceWorker, setupBackupEventListener } from './createApp'
+import { initialisePersistentStorage } from './services/persistentStorage'
 
 // Set up service worker for production
 setupServiceWorker()
@@ -8,6 +9,9 @@ setupServiceWorker()
 // Set up backup event listener
 setupBackupEventListener()
 
-// Create and mount the app
-const { app } = createAppInstance()
-app.mount('#app')
+// Load saved data before any store reads it, moving it out of localStorage the first time
+initialisePersistentStorage().finally(() => {
+  // Create and mount the app
+  const { app } = createAppInstance()
+  app.mount('#app')
+})
@@ -29,6 +29,11 @@ export const routes = [
     component: () => import('./DataManagement.vue'),
     title: DataMenuItem
   },
+  {
+    path: '/data/import-csv',
+    name: 'csvImport',
+    component: () => import('./views/CsvImportPage.vue')
+  },
   {
     path: '/achievements',
     name: 'achievements',
@@ -49,6 +54,11 @@ export const routes = [
     name: 'sight-marks',
     component: () => import('./components/sight_marks/SightMarksPage.vue')
   },
+  {
+    path: '/equipment',
+    name: 'equipment',
+    component: () => import('./views/EquipmentPage.vue')
+  },
   {
     path: '/select-round',
     name: 'selectRound',
@@ -58,6 +68,41 @@ export const routes = [
       currentRound: route.query.currentRound || ''
     })
   },
+  {
+    path: '/custom-rounds',
+    name: 'customRounds',
+    component: () => import('./views/CustomRoundsPage.vue')
+  },
+  {
+    path: '/match-play',
+    name: 'matchPlay',
+    component: () => import('./views/MatchPlayPage.vue')
+  },
+  {
+    path: '/predictions',
+    name: 'predictions',
+    component: () => import('./views/PredictionsPage.vue')
+  },
+  {
+    path: '/heatmap',
+    name: 'heatmap',
+    component: () => import('./views/HeatmapPage.vue')
+  },
+  {
+    path: '/shafts',
+    name: 'shafts',
+    component: () => import('./views/ShaftAnalysisPage.vue')
+  },
+  {
+    path: '/compare',
+    name: 'compareShoots',
+    component: () => import('./views/ShootComparisonPage.vue')
+  },
+  {
+    path: '/season-report',
+    name: 'seasonReport',
+    component: () => import('./views/SeasonReportPage.vue')
+  },
   {
     path: '/admin/backups',
     name: 'backupDebugger',
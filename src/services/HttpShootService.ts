@@ -1,5 +1,6 @@
 import { ShootService } from '../../shared/ports/ShootService.js'
 import { Shoot } from '../../shared/models/Shoot.js'
+import { TieBreakRules } from '../../shared/models/TieBreak.js'
 
 /**
  * HTTP implementation of ShootService for client-side use
@@ -59,7 +60,7 @@ export class HttpShootService implements ShootService {
   /**
    * Joins an existing shoot via HTTP POST
    */
-  async joinShoot(code: string, archerName: string, roundName: string): Promise<{ success: boolean; shoot?: Shoot }> {
+  async joinShoot(code: string, archerName: string, roundName: string, opponentName?: string): Promise<{ success: boolean; shoot?: Shoot }> {
     try {
       console.log('Joining shoot with:', { code, archerName, roundName });
 
@@ -68,7 +69,7 @@ export class HttpShootService implements ShootService {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ archerName, roundName }),
+        body: JSON.stringify({ archerName, roundName, opponentName }),
       })
 
       console.log('Join response status:', response.status);
@@ -99,7 +100,7 @@ export class HttpShootService implements ShootService {
   /**
    * Updates an archer's score via HTTP PUT
    */
-  async updateScore(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[]): Promise<{ success: boolean; shoot?: Shoot }> {
+  async updateScore(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[], tieBreakRules?: TieBreakRules): Promise<{ success: boolean; shoot?: Shoot }> {
     try {
       console.log('Updating score with:', { code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores });
 
@@ -108,7 +109,7 @@ export class HttpShootService implements ShootService {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ archerName, totalScore, roundName, arrowsShot, currentClassification, scores }),
+        body: JSON.stringify({ archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRules }),
       })
 
       if (response.status === 404) {
@@ -136,7 +137,7 @@ export class HttpShootService implements ShootService {
   /**
    * Finishes an archer's shoot via HTTP PUT
    */
-  async finishShoot(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[]): Promise<{ success: boolean; shoot?: Shoot }> {
+  async finishShoot(code: string, archerName: string, totalScore: number, roundName: string, arrowsShot: number, currentClassification?: string, scores?: (number | string)[], tieBreakRules?: TieBreakRules): Promise<{ success: boolean; shoot?: Shoot }> {
     try {
       console.log('Finishing shoot with:', { code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores });
 
@@ -145,7 +146,7 @@ export class HttpShootService implements ShootService {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ archerName, totalScore, roundName, arrowsShot, currentClassification, scores }),
+        body: JSON.stringify({ archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRules }),
       })
 
       console.log('Finish shoot response status:', response.status);
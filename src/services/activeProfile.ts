@@ -0,0 +1,31 @@
+import { DEFAULT_PROFILE_ID, profileStorageKey, type Profile } from '@/domain/profiles'
+
+export const PROFILES_STORAGE_KEY = 'profiles'
+export const ACTIVE_PROFILE_STORAGE_KEY = 'active-profile'
+
+/**
+ * The archers set up on this device. Before a second archer is added there is only the first, unnamed
+ */
+export function savedProfiles(): Profile[] {
+  try {
+    const profiles = JSON.parse(localStorage.getItem(PROFILES_STORAGE_KEY) || '[]')
+    return Array.isArray(profiles) && profiles.length > 0 ? profiles : [{ id: DEFAULT_PROFILE_ID, name: '' }]
+  } catch {
+    return [{ id: DEFAULT_PROFILE_ID, name: '' }]
+  }
+}
+
+/**
+ * The archer whose data the stores load. Fixed for the life of the page: switching archers reloads it
+ */
+export function activeProfileId(): string {
+  const id = localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY)
+  return id && savedProfiles().some(profile => profile.id === id) ? id : DEFAULT_PROFILE_ID
+}
+
+/**
+ * The key the active archer keeps something under
+ */
+export function profileKey(key: string): string {
+  return profileStorageKey(key, activeProfileId())
+}
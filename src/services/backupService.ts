@@ -4,6 +4,10 @@ import { useHistoryStore } from '@/stores/history'
 import { useNotesStore } from '@/stores/user_notes'
 import { useSightMarksStore } from '@/stores/sight_marks'
 import { usePreferencesStore } from '@/stores/preferences'
+import { useCustomRoundsStore } from '@/stores/custom_rounds'
+import { useGoalsStore } from '@/stores/goals'
+import { useEquipmentStore } from '@/stores/equipment'
+import { profileKey } from '@/services/activeProfile'
 
 // Constants
 const BACKUP_RETRY_DELAYS = [2000, 5000, 10000, 30000] // Retry delays in ms (exponential backoff)
@@ -46,13 +50,14 @@ export const backupService = {
       return 'dev-device-1'
     }
 
-    // Check if we already have a device ID stored
-    let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY)
+    // Each archer on the device backs up under their own id
+    const storageKey = profileKey(DEVICE_ID_STORAGE_KEY)
+    let deviceId = localStorage.getItem(storageKey)
 
     // If not, generate a new one and store it
     if (!deviceId) {
       deviceId = 'device-' + Math.random().toString(36).substring(2, 15)
-      localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId)
+      localStorage.setItem(storageKey, deviceId)
     }
 
     return deviceId
@@ -113,6 +118,9 @@ export const backupService = {
       const notesStore = useNotesStore()
       const sightMarksStore = useSightMarksStore()
       const preferencesStore = usePreferencesStore()
+      const customRoundsStore = useCustomRoundsStore()
+      const goalsStore = useGoalsStore()
+      const equipmentStore = useEquipmentStore()
       const deviceId = this.getDeviceId()
 
       // Get user name (or use 'anonymous' if not set)
@@ -125,6 +133,9 @@ export const backupService = {
         user: userStore.user,
         sightMarks: sightMarksStore.getBackupData(),
         preferences: preferencesStore.getBackupData(),
+        customRounds: customRoundsStore.getBackupData(),
+        goals: goalsStore.getBackupData(),
+        equipment: equipmentStore.getBackupData(),
         timestamp: new Date().toISOString(),
         deviceId
       }
@@ -269,6 +280,14 @@ export const backupService = {
       const userStore = useUserStore()
       const sightMarksStore = useSightMarksStore()
       const preferencesStore = usePreferencesStore()
+      const customRoundsStore = useCustomRoundsStore()
+      const goalsStore = useGoalsStore()
+      const equipmentStore = useEquipmentStore()
+
+      // Import custom rounds before history, which may refer to them
+      if (backupData.customRounds) {
+        customRoundsStore.restoreFromBackup(backupData.customRounds)
+      }
 
       // Import history data
       if (backupData.history) {
@@ -297,6 +316,16 @@ export const backupService = {
         preferencesStore.restoreFromBackup(backupData.preferences)
       }
 
+      // Import goals data
+      if (backupData.goals) {
+        goalsStore.restoreFromBackup(backupData.goals)
+      }
+
+      // Import equipment setups
+      if (backupData.equipment) {
+        equipmentStore.restoreFromBackup(backupData.equipment)
+      }
+
       // Import user data
       if (backupData.user) {
         const userData = backupData.user
@@ -310,6 +339,7 @@ export const backupService = {
         const constructiveCriticism = userData.constructiveCriticism !== undefined ? userData.constructiveCriticism : true
         const experimentalTargetFace = userData.experimentalTargetFace || false
         const knockColor = userData.knockColor || '#FF69B4'
+        const numberedArrows = userData.numberedArrows || 0
 
         userStore.save(
           userData.ageGroup,
@@ -322,7 +352,8 @@ export const backupService = {
           name,
           constructiveCriticism,
           experimentalTargetFace,
-          knockColor
+          knockColor,
+          numberedArrows
         )
       }
 
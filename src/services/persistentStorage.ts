@@ -0,0 +1,106 @@
+import { ref, watch, type Ref } from 'vue'
+import { useLocalStorage } from '@vueuse/core'
+import { useToast } from 'vue-toastification'
+import { IndexedDbStorage } from '@/domain/adapters/browser/indexed_db_storage'
+import { isQuotaExceededError, type KeyValueStoragePort, type StoredData } from '@/domain/ports/key_value_storage'
+import { loadPersistentData, type LegacyStorage } from '@/domain/storage/persistent_data'
+import { savedProfiles } from '@/services/activeProfile'
+
+let storage: KeyValueStoragePort | null = null
+let cache: StoredData = {}
+let warnedFull = false
+
+/**
+ * Open the database and load everything into memory so the stores can read it straight away.
+ * Call before creating the stores. Without IndexedDB, or if it can't be opened, the stores stay on localStorage
+ * @returns whether the database is in use
+ */
+export async function initialisePersistentStorage(
+  port: KeyValueStoragePort | null = IndexedDbStorage.isAvailable() ? new IndexedDbStorage() : null,
+  legacyStorage: LegacyStorage | null = globalThis.localStorage ?? null,
+  profileIds: string[] = savedProfiles().map(profile => profile.id)
+): Promise<boolean> {
+  if (!port) {
+    return false
+  }
+
+  try {
+    cache = await loadPersistentData(port, legacyStorage, profileIds)
+    storage = port
+    return true
+  } catch (error) {
+    console.error('Failed to load data from IndexedDB, staying on localStorage:', error)
+    storage = null
+    cache = {}
+    return false
+  }
+}
+
+function handleWriteError(key: string, error: unknown) {
+  console.error(`Failed to save ${key}:`, error)
+  if (isQuotaExceededError(error) && !warnedFull) {
+    warnedFull = true
+    useToast().error('Your device is out of space for archery data. Export your data from Data Management to keep it safe.', {
+      timeout: false
+    })
+  }
+}
+
+/**
+ * A ref kept in IndexedDB, the drop-in replacement for useLocalStorage for the data that outgrows it
+ */
+export function usePersistentStorage<T>(key: string, initial: T): Ref<T> {
+  if (!storage) {
+    return useLocalStorage(key, initial) as Ref<T>
+  }
+
+  const target = storage
+  const state = ref(key in cache ? cache[key] : initial) as Ref<T>
+  watch(state, value => {
+    // Reactive proxies can't be stored as they are
+    const plain = JSON.parse(JSON.stringify(value))
+    cache[key] = plain
+    target.set(key, plain).catch(error => handleWriteError(key, error))
+  }, { deep: true })
+  return state
+}
+
+/**
+ * Read a value no store has open, such as another archer's history
+ */
+export function readStoredValue<T>(key: string, initial: T): T {
+  if (storage) {
+    return key in cache ? cache[key] as T : initial
+  }
+  const raw = localStorage.getItem(key)
+  return raw === null ? initial : JSON.parse(raw)
+}
+
+/**
+ * Save a value no store has open. Stores watching the key won't see the change until the page is reloaded
+ */
+export async function writeStoredValue(key: string, value: unknown): Promise<void> {
+  if (!storage) {
+    localStorage.setItem(key, JSON.stringify(value))
+    return
+  }
+  cache[key] = value
+  await storage.set(key, value)
+}
+
+export async function removeStoredValue(key: string): Promise<void> {
+  if (!storage) {
+    localStorage.removeItem(key)
+    return
+  }
+  delete cache[key]
+  await storage.remove(key)
+}
+
+/**
+ * Remove everything kept in IndexedDB
+ */
+export async function clearPersistentStorage(): Promise<void> {
+  cache = {}
+  await storage?.clear()
+}
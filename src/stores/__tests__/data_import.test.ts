@@ -0,0 +1,58 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createPinia, setActivePinia } from 'pinia';
+import { planImport, type ExportedData } from '@/domain/data_import';
+import { useDataImportStore } from '../data_import';
+import { useHistoryStore } from '../history';
+import { useNotesStore } from '../user_notes';
+
+const backup: ExportedData = {
+  history: [{ id: 1, date: '2025-05-01', score: 480, gameType: 'national', scores: [], shootStatus: 'Practice' }],
+  notes: [],
+  pendingNotes: [],
+  user: null,
+  customRounds: [],
+  goals: [],
+  equipment: { setups: [] }
+};
+
+describe('useDataImportStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActivePinia(createPinia());
+    // no classification tables, so shoots are saved unclassified
+    vi.stubGlobal('fetch', vi.fn(async () => ({ json: async () => [] })));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function importBackup() {
+    const history = useHistoryStore();
+    const notes = useNotesStore();
+    const store = useDataImportStore();
+    const current = { history: history.sortedHistory(), notes: notes.notes, pendingNotes: notes.pendingNotes };
+    await store.applyImport(planImport(current, backup, 'merge'), backup);
+    return { history, store };
+  }
+
+  test('undoes an import', async () => {
+    const { history, store } = await importBackup();
+    expect(store.lastImportAt).not.toBeNull();
+
+    expect(store.undoLastImport()).toBe(true);
+
+    expect(history.sortedHistory()).toEqual([]);
+    expect(store.lastImportAt).toBeNull();
+  });
+
+  test('keeps shoots recorded after the import instead of undoing it', async () => {
+    const { history, store } = await importBackup();
+
+    await history.add('2025-06-01', 500, 'national', [], 'yd', { gender: 'male', ageGroup: 'senior', bowType: 'recurve' });
+
+    expect(store.lastImportAt).toBeNull();
+    expect(store.undoLastImport()).toBe(false);
+    expect(history.sortedHistory().map(item => item.score)).toEqual([500, 480]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createPinia, setActivePinia } from 'pinia';
+import { useEquipmentStore } from '../equipment';
+import { useSightMarksStore } from '../sight_marks';
+
+describe('useEquipmentStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActivePinia(createPinia());
+  });
+
+  test('puts the first setup in use and keeps names apart', () => {
+    const store = useEquipmentStore();
+
+    expect(store.saveSetup({ name: 'Indoor', drawWeight: 36 })).toEqual([]);
+    expect(store.saveSetup({ name: 'indoor' })).toEqual(['There is already a setup called indoor']);
+    expect(store.saveSetup({ name: 'Outdoor', drawWeight: 40 })).toEqual([]);
+
+    expect(store.setups.map(setup => setup.name)).toEqual(['Indoor', 'Outdoor']);
+    expect(store.activeSetup?.name).toBe('Indoor');
+  });
+
+  test('gives shoots a copy of the setup in use', () => {
+    const store = useEquipmentStore();
+    expect(store.activeSetupCopy()).toBeUndefined();
+
+    store.saveSetup({ name: 'Indoor', drawWeight: 36 });
+    const copy = store.activeSetupCopy();
+    store.saveSetup({ ...store.setups[0], drawWeight: 38 });
+
+    expect(copy).toMatchObject({ name: 'Indoor', drawWeight: 36 });
+    expect(store.activeSetup?.drawWeight).toBe(38);
+  });
+
+  test('stamps new sight marks with the setup in use', () => {
+    const store = useEquipmentStore();
+    const sightMarks = useSightMarksStore();
+    store.saveSetup({ name: 'Outdoor' });
+    const [outdoor] = store.setups;
+
+    sightMarks.addMark(70, 'm', 3, { major: 2, minor: 1, micro: 0 }, '');
+    store.removeSetup(outdoor.id);
+    sightMarks.addMark(50, 'm', 3, { major: 3, minor: 1, micro: 0 }, '');
+
+    const [fifty, seventy] = sightMarks.getMarks();
+    expect(seventy.equipment).toEqual({ id: outdoor.id, name: 'Outdoor' });
+    expect(fifty).not.toHaveProperty('equipment');
+  });
+});
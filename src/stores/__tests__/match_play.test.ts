@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, test, vi } from "vitest";
+import { createPinia, setActivePinia } from "pinia";
+import { useMatchPlayStore } from "../match_play";
+import { useEquipmentStore } from "../equipment";
+
+const add = vi.fn(async () => 7);
+const updateShoot = vi.fn();
+
+vi.mock("@/stores/history", () => ({
+  useHistoryStore: () => ({ add, updateShoot })
+}));
+
+vi.mock("@/stores/user", () => ({
+  useUserStore: () => ({ user: { name: "Archer 1", bowType: "recurve" } })
+}));
+
+function shootSet(store: ReturnType<typeof useMatchPlayStore>, first: number, second: number) {
+  for (let i = 0; i < 3; i++) {
+    store.addArrow(0, first);
+    store.addArrow(1, second);
+  }
+}
+
+describe("match play store", () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+    localStorage.clear();
+    add.mockClear();
+    updateShoot.mockClear();
+  });
+
+  test("scores sets as the arrows come in", () => {
+    const store = useMatchPlayStore();
+    store.startMatch("wa 70m match", ["Archer 1", "Archer 2"]);
+
+    shootSet(store, 10, 9);
+    shootSet(store, 9, 9);
+
+    expect(store.result?.setPoints).toEqual([3, 1]);
+    expect(store.result?.finished).toBe(false);
+  });
+
+  test("records shoot-off arrows once the match is 5-5", () => {
+    const store = useMatchPlayStore();
+    store.startMatch("wa 70m match", ["Archer 1", "Archer 2"]);
+
+    [[10, 9], [9, 10], [8, 8], [8, 8], [8, 8]].forEach(([first, second]) => shootSet(store, first, second));
+    expect(store.result?.needsShootOff).toBe(true);
+
+    store.addArrow(0, 9);
+    store.addArrow(1, 9);
+    store.setClosestToCentre(1);
+
+    expect(store.match?.scores[0]).toHaveLength(15);
+    expect(store.result).toMatchObject({ finished: true, winner: 1, setPoints: [5, 6] });
+  });
+
+  test("saves the archer's side of a finished match to their history", async () => {
+    useEquipmentStore().saveSetup({ name: "Outdoor" });
+    const store = useMatchPlayStore();
+    store.startMatch("wa 70m match", ["Archer 1", "Archer 2"]);
+    [1, 2, 3].forEach(() => shootSet(store, 9, 10));
+
+    const id = await store.finishMatch(0);
+
+    expect(id).toBe(7);
+    expect(add).toHaveBeenCalledWith(expect.any(String), 81, "wa 70m match", Array(9).fill(9), "m", expect.anything());
+    expect(updateShoot).toHaveBeenCalledWith(7, {
+      match: { opponent: "Archer 2", setPoints: [0, 6], won: false },
+      equipment: expect.objectContaining({ name: "Outdoor" })
+    });
+    expect(store.match).toBeNull();
+  });
+
+  test("saves the match for an opponent with a profile on this device", async () => {
+    localStorage.setItem("profiles", JSON.stringify([{ id: "default", name: "Archer 1" }, { id: "p2", name: "Archer 2" }]));
+    localStorage.setItem("user@p2", JSON.stringify({ gender: "female", ageGroup: "senior", bowType: "compound" }));
+    localStorage.setItem("history@p2", JSON.stringify([{ id: 4, date: "2025-05-01", score: 600, gameType: "wa 70m match", scores: [] }]));
+    const store = useMatchPlayStore();
+    store.startMatch("wa 70m match", ["Archer 1", "archer 2"]);
+    [1, 2, 3].forEach(() => shootSet(store, 9, 10));
+
+    await store.finishMatch(0);
+
+    const saved = JSON.parse(localStorage.getItem("history@p2") || "[]");
+    expect(saved[1]).toMatchObject({
+      id: 5,
+      score: 90,
+      gameType: "wa 70m match",
+      userProfile: { gender: "female", ageGroup: "senior", bowType: "compound" },
+      match: { opponent: "Archer 1", setPoints: [6, 0], won: true }
+    });
+  });
+
+  test("moves the winner on in the bracket", async () => {
+    const store = useMatchPlayStore();
+    store.createBracket(["Archer 1", "Archer 2", "Archer 3", "Archer 4", "Archer 5", "Archer 6", "Archer 7", "Archer 8"]);
+    store.startMatch("wa 70m match", ["Archer 1", "Archer 8"], "0-0");
+    [1, 2, 3].forEach(() => shootSet(store, 10, 9));
+
+    await store.finishMatch();
+
+    expect(add).not.toHaveBeenCalled();
+    expect(store.bracket?.rounds[1][0].archers[0]).toBe("Archer 1");
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { createPinia, setActivePinia } from 'pinia';
+import { useProfilesStore } from '../profiles';
+import { useHistoryStore } from '../history';
+import { useNotesStore } from '../user_notes';
+import { useUserStore } from '../user';
+
+describe('useProfilesStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    setActivePinia(createPinia());
+  });
+
+  test('starts with the one archer, named from their settings', () => {
+    useUserStore().updateUser({ name: 'Sam' });
+    const store = useProfilesStore();
+
+    expect(store.profiles).toEqual([{ id: 'default', name: 'Sam' }]);
+    expect(store.activeProfile.id).toBe('default');
+  });
+
+  test('adds archers with names of their own', () => {
+    const store = useProfilesStore();
+
+    expect(store.addProfile('Alex')).toEqual([]);
+    expect(store.addProfile('alex')).toEqual(['There is already an archer called alex']);
+    expect(store.profiles.map(profile => profile.name)).toEqual(['Me', 'Alex']);
+    expect(store.otherProfiles.map(profile => profile.name)).toEqual(['Alex']);
+  });
+
+  test('moves a shoot and its notes to another archer', async () => {
+    const store = useProfilesStore();
+    store.addProfile('Alex');
+    const [alex] = store.otherProfiles;
+    localStorage.setItem(`user@${alex.id}`, JSON.stringify({ gender: 'female', ageGroup: 'u15' }));
+
+    const history = useHistoryStore();
+    const notes = useNotesStore();
+    history.importHistory([
+      { id: 1, date: '2025-06-01', score: 500, gameType: 'national', scores: [] },
+      { id: 2, date: '2025-06-02', score: 510, gameType: 'national', scores: [] }
+    ]);
+    notes.importNotes({ notes: [{ id: 'a', shootId: 2, text: 'windy' }], pendingNotes: [] });
+
+    expect(await store.moveShoot(2, alex.id)).toBe(1);
+
+    expect(history.sortedHistory().map(item => item.id)).toEqual([1]);
+    expect(notes.notes).toEqual([]);
+    const moved = JSON.parse(localStorage.getItem(`history@${alex.id}`) || '[]');
+    expect(moved).toMatchObject([{ id: 1, score: 510, userProfile: { gender: 'female', ageGroup: 'u15' } }]);
+    expect(JSON.parse(localStorage.getItem(`notes@${alex.id}`) || '[]')).toEqual([{ id: 'a', shootId: 1, text: 'windy' }]);
+  });
+
+  test('removes another archer along with their data', async () => {
+    const store = useProfilesStore();
+    store.addProfile('Alex');
+    const [alex] = store.otherProfiles;
+    localStorage.setItem(`history@${alex.id}`, '[]');
+
+    await store.removeProfile(alex.id);
+    await store.removeProfile('default');
+
+    expect(store.profiles.map(profile => profile.name)).toEqual(['Me']);
+    expect(localStorage.getItem(`history@${alex.id}`)).toBeNull();
+  });
+});
@@ -9,6 +9,7 @@ import { ref, computed } from 'vue';
 import type { AchievementContext } from '@/domain/achievements/types.js';
 import { ensureChronologicalContext } from '@/domain/achievements/types.js';
 import { calculateAchievements, type AchievementData } from '@/domain/achievements/calculator.js';
+import { profileKey } from '@/services/activeProfile';
 
 interface UnreadAchievement {
   id: string;
@@ -29,7 +30,7 @@ export const useAchievementStore = defineStore('achievement', () => {
 
   // Load preferences from localStorage
   function loadPreferences() {
-    const stored = localStorage.getItem('achievement-preferences');
+    const stored = localStorage.getItem(profileKey('achievement-preferences'));
     if (stored) {
       try {
         const prefs = JSON.parse(stored);
@@ -60,7 +61,7 @@ export const useAchievementStore = defineStore('achievement', () => {
       celebratedAchievements: Array.from(celebratedAchievements.value),
       unreadAchievements: unreadAchievements.value
     };
-    localStorage.setItem('achievement-preferences', JSON.stringify(prefs));
+    localStorage.setItem(profileKey('achievement-preferences'), JSON.stringify(prefs));
   }
 
   // Computed
@@ -1,8 +1,9 @@
 import { defineStore } from "pinia";
-import { useLocalStorage } from "@vueuse/core";
+import { usePersistentStorage } from "@/services/persistentStorage";
+import { profileKey } from "@/services/activeProfile";
 
 export const useArrowHistoryStore = defineStore("arrowHistory", () => {
-  const state = useLocalStorage("arrow-history", {});
+  const state = usePersistentStorage(profileKey("arrow-history"), {});
 
   function saveArrowsForShoot(shootId, arrows) {
     state.value[shootId] = arrows;
@@ -13,6 +14,7 @@ export const useArrowHistoryStore = defineStore("arrowHistory", () => {
   }
 
   return {
+    arrowHistory: state,
     saveArrowsForShoot,
     getArrowsForShoot
   };
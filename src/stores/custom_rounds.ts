@@ -0,0 +1,77 @@
+import { defineStore } from "pinia";
+import { useLocalStorage } from "@vueuse/core";
+import { GameTypeBase, gameTypes, registerRound, unregisterRound } from "@/domain/scoring/game_types";
+import {
+  CustomRoundDefinition,
+  normaliseRoundName,
+  toCustomRoundDefinition,
+  toGameTypeBase,
+  validateCustomRound,
+  withFaceTypes
+} from "@/domain/scoring/custom_rounds";
+
+export const useCustomRoundsStore = defineStore("customRounds", () => {
+  const rounds = useLocalStorage<GameTypeBase[]>("custom-rounds", []);
+
+  // Register persisted rounds straight away so they behave like built-in rounds
+  rounds.value.forEach(round => registerRound(withFaceTypes(round)));
+
+  function isCustomRound(roundName: string): boolean {
+    return rounds.value.some(round => round.name === roundName);
+  }
+
+  function builtInRoundNames(): string[] {
+    return gameTypes.filter(name => !isCustomRound(name));
+  }
+
+  function addRound(definition: CustomRoundDefinition): string[] {
+    const otherRoundNames = gameTypes.filter(name => name !== normaliseRoundName(definition.name) || !isCustomRound(name));
+    const errors = validateCustomRound(definition, otherRoundNames);
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    const round = toGameTypeBase(definition);
+    rounds.value = [...rounds.value.filter(r => r.name !== round.name), round];
+    registerRound(round);
+
+    window.dispatchEvent(new CustomEvent("archery-data-changed", { detail: { type: "custom-round-saved" } }));
+    return [];
+  }
+
+  function removeRound(roundName: string) {
+    rounds.value = rounds.value.filter(round => round.name !== roundName);
+    unregisterRound(roundName);
+  }
+
+  function getDefinition(roundName: string): CustomRoundDefinition | undefined {
+    const round = rounds.value.find(r => r.name === roundName);
+    return round ? toCustomRoundDefinition(round) : undefined;
+  }
+
+  function getBackupData() {
+    return [...rounds.value];
+  }
+
+  function restoreFromBackup(backupData: GameTypeBase[] | undefined) {
+    if (!Array.isArray(backupData)) return;
+
+    const builtIn = builtInRoundNames();
+    backupData
+      .filter(round => round?.name && !builtIn.includes(round.name))
+      .forEach(round => {
+        rounds.value = [...rounds.value.filter(r => r.name !== round.name), round];
+        registerRound(withFaceTypes(round));
+      });
+  }
+
+  return {
+    rounds,
+    isCustomRound,
+    addRound,
+    removeRound,
+    getDefinition,
+    getBackupData,
+    restoreFromBackup
+  };
+});
@@ -0,0 +1,123 @@
+import { defineStore } from "pinia";
+import { computed } from "vue";
+import { historyFingerprint, importedUserSettings, type ExportedData, type ExportedEquipment, type ImportPlan } from "@/domain/data_import";
+import type { Goal } from "@/domain/goals";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+import type { GameTypeBase } from "@/domain/scoring/game_types";
+import { usePersistentStorage } from "@/services/persistentStorage";
+import { profileKey } from "@/services/activeProfile";
+import { useCustomRoundsStore } from "@/stores/custom_rounds";
+import { useEquipmentStore } from "@/stores/equipment";
+import { useGoalsStore } from "@/stores/goals";
+import { useHistoryStore } from "@/stores/history";
+import { useNotesStore } from "@/stores/user_notes";
+import { useUserStore } from "@/stores/user";
+
+// Everything an import can change, as it was before the import
+interface ImportSnapshot {
+  takenAt: string;
+  history: HistoryItem[];
+  notes: unknown[];
+  pendingNotes: unknown[];
+  user: Record<string, unknown>;
+  customRounds: GameTypeBase[];
+  goals: Goal[];
+  equipment?: ExportedEquipment; // not in snapshots taken before setups were kept
+  historyAfterImport?: string; // the history the import left, see historyFingerprint
+}
+
+export const useDataImportStore = defineStore("dataImport", () => {
+  const historyStore = useHistoryStore();
+  const notesStore = useNotesStore();
+  const userStore = useUserStore();
+  const customRoundsStore = useCustomRoundsStore();
+  const goalsStore = useGoalsStore();
+  const equipmentStore = useEquipmentStore();
+
+  // Kept with the history rather than in localStorage, which a whole history can outgrow
+  const snapshot = usePersistentStorage<ImportSnapshot | null>(profileKey("import-snapshot"), null);
+
+  // Once a shoot is recorded, changed or deleted, putting the old history back would lose it, so there is no undo
+  const canUndo = computed(() => Boolean(snapshot.value?.historyAfterImport) &&
+    snapshot.value?.historyAfterImport === historyFingerprint(historyStore.sortedHistory()));
+
+  const lastImportAt = computed(() => canUndo.value ? snapshot.value?.takenAt ?? null : null);
+
+  function takeSnapshot(): ImportSnapshot {
+    return JSON.parse(JSON.stringify({
+      takenAt: new Date().toISOString(),
+      history: historyStore.history,
+      notes: notesStore.notes,
+      pendingNotes: notesStore.pendingNotes,
+      user: userStore.user,
+      customRounds: customRoundsStore.getBackupData(),
+      goals: goalsStore.getBackupData(),
+      equipment: equipmentStore.getBackupData()
+    }));
+  }
+
+  function restore(saved: ImportSnapshot) {
+    const rounds = new Set(saved.customRounds.map(round => round.name));
+    customRoundsStore.rounds
+      .filter(round => !rounds.has(round.name))
+      .forEach(round => customRoundsStore.removeRound(round.name));
+    customRoundsStore.restoreFromBackup(saved.customRounds);
+
+    historyStore.importHistory(saved.history);
+    notesStore.importNotes(saved);
+    goalsStore.goals = saved.goals;
+    if (saved.equipment) {
+      equipmentStore.setups = saved.equipment.setups;
+      equipmentStore.activeSetupId = saved.equipment.activeSetupId ?? "";
+    }
+    userStore.updateUser(saved.user);
+  }
+
+  /**
+   * Apply a planned import. If anything goes wrong part way, everything is put back as it was
+   */
+  async function applyImport(plan: ImportPlan, incoming: ExportedData) {
+    const before = takeSnapshot();
+    try {
+      // Custom rounds first, so the imported history can refer to them
+      customRoundsStore.restoreFromBackup(incoming.customRounds);
+      historyStore.importHistory(plan.history, {
+        ageGroup: incoming.user?.ageGroup ?? userStore.user.ageGroup,
+        gender: incoming.user?.gender ?? userStore.user.gender,
+        bowType: incoming.user?.bowType ?? userStore.user.bowType
+      });
+      notesStore.importNotes(plan);
+      goalsStore.restoreFromBackup(incoming.goals);
+      equipmentStore.restoreFromBackup(incoming.equipment);
+      if (plan.mode === "replace" && incoming.user) {
+        userStore.updateUser(importedUserSettings(incoming.user));
+      }
+      userStore.updateLastBackupDate();
+      await historyStore.backfillClassifications();
+    } catch (error) {
+      restore(before);
+      throw error;
+    }
+    snapshot.value = { ...before, historyAfterImport: historyFingerprint(historyStore.sortedHistory()) };
+  }
+
+  /**
+   * Put everything back as it was before the last import
+   * @returns false when there is no import to undo, or the history has changed since
+   */
+  function undoLastImport(): boolean {
+    if (!snapshot.value || !canUndo.value) {
+      snapshot.value = null;
+      return false;
+    }
+    restore(snapshot.value);
+    snapshot.value = null;
+    return true;
+  }
+
+  return {
+    lastImportAt,
+    applyImport,
+    undoLastImport
+  };
+});
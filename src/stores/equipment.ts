@@ -0,0 +1,77 @@
+import { defineStore } from "pinia";
+import { computed } from "vue";
+import { useLocalStorage } from "@vueuse/core";
+import { validateSetup, type EquipmentSetup } from "@/domain/equipment";
+import { profileKey } from "@/services/activeProfile";
+
+export const useEquipmentStore = defineStore("equipment", () => {
+  const setups = useLocalStorage<EquipmentSetup[]>(profileKey("equipment-setups"), []);
+  // The setup stamped on shoots and sight marks as they are saved, "" for none
+  const activeSetupId = useLocalStorage(profileKey("equipment-active"), "");
+
+  const activeSetup = computed(() => setups.value.find(setup => setup.id === activeSetupId.value) ?? null);
+
+  /**
+   * Add a setup, or update the one with the same id. The first setup added is put in use
+   */
+  function saveSetup(setup: Omit<EquipmentSetup, "id"> & { id?: string }): string[] {
+    const others = setups.value.filter(other => other.id !== setup.id);
+    const errors = validateSetup(setup, others);
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    const saved = { ...setup, name: setup.name.trim(), id: setup.id ?? Date.now().toString() };
+    setups.value = setup.id
+      ? setups.value.map(other => other.id === setup.id ? saved : other)
+      : [...setups.value, saved];
+    if (setups.value.length === 1) {
+      activeSetupId.value = saved.id;
+    }
+    return [];
+  }
+
+  function removeSetup(id: string) {
+    setups.value = setups.value.filter(setup => setup.id !== id);
+    if (activeSetupId.value === id) {
+      activeSetupId.value = "";
+    }
+  }
+
+  function selectSetup(id: string | null) {
+    activeSetupId.value = id ?? "";
+  }
+
+  /**
+   * A copy of the setup in use to keep with a shoot, as it was on the day
+   */
+  function activeSetupCopy(): EquipmentSetup | undefined {
+    return activeSetup.value ? { ...activeSetup.value } : undefined;
+  }
+
+  function getBackupData() {
+    return { setups: [...setups.value], activeSetupId: activeSetupId.value };
+  }
+
+  function restoreFromBackup(backupData: { setups?: EquipmentSetup[]; activeSetupId?: string } | undefined) {
+    if (!backupData || !Array.isArray(backupData.setups)) return;
+
+    const ids = new Set(setups.value.map(setup => setup.id));
+    setups.value = [...setups.value, ...backupData.setups.filter(setup => setup?.id && !ids.has(setup.id))];
+    if (!activeSetupId.value && backupData.activeSetupId) {
+      activeSetupId.value = backupData.activeSetupId;
+    }
+  }
+
+  return {
+    setups,
+    activeSetupId,
+    activeSetup,
+    saveSetup,
+    removeSetup,
+    selectSetup,
+    activeSetupCopy,
+    getBackupData,
+    restoreFromBackup
+  };
+});
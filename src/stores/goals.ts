@@ -0,0 +1,71 @@
+import { defineStore } from "pinia";
+import { useLocalStorage } from "@vueuse/core";
+import { goalProgress, goalsToRemind, validateGoal, type Goal, type GoalProgress } from "@/domain/goals";
+import { profileKey } from "@/services/activeProfile";
+import { useHistoryStore } from "@/stores/history";
+import { useUserStore } from "@/stores/user";
+
+export const useGoalsStore = defineStore("goals", () => {
+  const goals = useLocalStorage<Goal[]>(profileKey("goals"), []);
+  // When each goal was last reminded about, by goal id
+  const lastReminded = useLocalStorage<Record<string, string>>(profileKey("goals-last-reminded"), {});
+
+  function addGoal(goal: Omit<Goal, "id">): string[] {
+    const errors = validateGoal(goal);
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    goals.value = [...goals.value, { ...goal, id: Date.now().toString() }];
+    return [];
+  }
+
+  function removeGoal(id: string) {
+    goals.value = goals.value.filter(goal => goal.id !== id);
+    const { [id]: _removed, ...rest } = lastReminded.value;
+    lastReminded.value = rest;
+  }
+
+  function progress(today = new Date()): GoalProgress[] {
+    const history = useHistoryStore().sortedHistory();
+    const { indoorSeasonStartDate, outdoorSeasonStartDate } = useUserStore().user;
+    return goals.value
+      .map(goal => goalProgress(goal, { history, indoorSeasonStartDate, outdoorSeasonStartDate, today }))
+      .sort((a, b) => a.goal.deadline.localeCompare(b.goal.deadline));
+  }
+
+  /**
+   * Off-track goals that are due a reminder, marked as reminded
+   */
+  function dueReminders(today = new Date()): GoalProgress[] {
+    const due = goalsToRemind(progress(today), lastReminded.value, today);
+    if (due.length > 0) {
+      lastReminded.value = {
+        ...lastReminded.value,
+        ...Object.fromEntries(due.map(({ goal }) => [goal.id, today.toISOString()]))
+      };
+    }
+    return due;
+  }
+
+  function getBackupData() {
+    return [...goals.value];
+  }
+
+  function restoreFromBackup(backupData: Goal[] | undefined) {
+    if (!Array.isArray(backupData)) return;
+
+    const ids = new Set(goals.value.map(goal => goal.id));
+    goals.value = [...goals.value, ...backupData.filter(goal => goal?.id && !ids.has(goal.id))];
+  }
+
+  return {
+    goals,
+    addGoal,
+    removeGoal,
+    progress,
+    dueReminders,
+    getBackupData,
+    restoreFromBackup
+  };
+});
@@ -1,8 +1,10 @@
 import { mallyMalhamBowTypeFix } from "@/domain/user_data_fixer.js";
 import { useUserStore } from "@/stores/user.js";
+import { usePreferencesStore } from "@/stores/preferences";
 import { defineStore } from "pinia";
-import { useLocalStorage } from "@vueuse/core";
-import { computed, ref, watchEffect, inject } from "vue";
+import { usePersistentStorage } from "@/services/persistentStorage";
+import { profileKey } from "@/services/activeProfile";
+import { computed, ref, watch, watchEffect, inject } from "vue";
 import { createPlayerHistory, EventEmitter } from '@/domain/repositories/player_history.js'
 import type { LocationPort } from '@/domain/ports/location.js'
 
@@ -14,7 +16,7 @@ const windowEventEmitter: EventEmitter = {
 }
 
 export const useHistoryStore = defineStore("history", () => {
-  const state = useLocalStorage("history", []);
+  const state = usePersistentStorage(profileKey("history"), []);
 
   const userStore = useUserStore();
   
@@ -35,6 +37,11 @@ export const useHistoryStore = defineStore("history", () => {
     await playerHistory.backfillClassifications()
   }, 0);
 
+  const preferences = usePreferencesStore();
+  watch(() => preferences.useCurrentTables, async (enabled) => {
+    await playerHistory.useCurrentTables(enabled)
+  }, { immediate: true });
+
   return {
     history: state,
     ...playerHistory
@@ -0,0 +1,160 @@
+import { defineStore } from "pinia";
+import { useLocalStorage } from "@vueuse/core";
+import { computed } from "vue";
+import { ARROWS_PER_SET, calculateMatchResult, MatchArcher, MAX_SETS, ShootOff } from "@shared/models/MatchPlay";
+import { Bracket, generateBracket, recordMatchResult } from "@/domain/match_play/bracket";
+import { calculateTotal } from "@/domain/scoring/subtotals";
+import { convertToValues } from "@/domain/scoring/scores";
+import { gameTypeConfig } from "@/domain/scoring/game_types";
+import { DEFAULT_SHOOT_STATUS } from "@/domain/shoot/shoot_status";
+import { useHistoryStore } from "@/stores/history";
+import { useUserStore } from "@/stores/user";
+import { useEquipmentStore } from "@/stores/equipment";
+import { useProfilesStore } from "@/stores/profiles";
+
+export interface CurrentMatch {
+  roundName: string;
+  archers: [string, string];
+  scores: [(number | string)[], (number | string)[]];
+  shootOff: ShootOff;
+  bracketMatchId?: string;
+}
+
+function sameName(first: string, second: string): boolean {
+  return first.trim().toLowerCase() === second.trim().toLowerCase();
+}
+
+export const useMatchPlayStore = defineStore("matchPlay", () => {
+  const match = useLocalStorage<CurrentMatch | null>("match-play-current", null);
+  const bracket = useLocalStorage<Bracket | null>("match-play-bracket", null);
+
+  const result = computed(() => match.value
+    ? calculateMatchResult(match.value.scores, match.value.shootOff)
+    : null);
+
+  function startMatch(roundName: string, archers: [string, string], bracketMatchId?: string) {
+    match.value = {
+      roundName,
+      archers,
+      scores: [[], []],
+      shootOff: { arrows: [] },
+      bracketMatchId
+    };
+  }
+
+  function addArrow(archer: MatchArcher, score: number | string) {
+    if (!match.value || result.value?.finished) return;
+
+    if (result.value?.needsShootOff) {
+      match.value.shootOff.arrows[archer] = score;
+      return;
+    }
+    if (match.value.scores[archer].length < MAX_SETS * ARROWS_PER_SET) {
+      match.value.scores[archer].push(score);
+    }
+  }
+
+  function undo(archer: MatchArcher) {
+    if (!match.value) return;
+
+    if (match.value.shootOff.arrows[archer] !== undefined) {
+      match.value.shootOff = { arrows: [...match.value.shootOff.arrows] };
+      match.value.shootOff.arrows[archer] = undefined;
+      return;
+    }
+    match.value.scores[archer].pop();
+  }
+
+  function setClosestToCentre(archer: MatchArcher) {
+    if (!match.value) return;
+    match.value.shootOff.closestToCentre = archer;
+  }
+
+  /**
+   * Saves the finished match to the history of each archer in it who has a profile on this device, and moves the
+   * bracket on
+   * @param you Which archer is the one using the app, if either
+   * @returns the match's id in the history of the archer using the app
+   */
+  async function finishMatch(you?: MatchArcher): Promise<number | string | undefined> {
+    if (!match.value || !result.value?.finished) return undefined;
+
+    const { roundName, archers, scores, shootOff, bracketMatchId } = match.value;
+    const { setPoints, winner } = result.value;
+    const date = new Date().toISOString();
+    const matchFor = (archer: MatchArcher) => {
+      const opponent: MatchArcher = archer === 0 ? 1 : 0;
+      return {
+        opponent: archers[opponent],
+        setPoints: [setPoints[archer], setPoints[opponent]] as [number, number],
+        won: winner === archer
+      };
+    };
+    let historyId;
+
+    if (you !== undefined) {
+      const history = useHistoryStore();
+      const userStore = useUserStore();
+      const equipmentStore = useEquipmentStore();
+
+      historyId = await history.add(
+        date,
+        calculateTotal(convertToValues(scores[you], roundName)),
+        roundName,
+        [...scores[you]],
+        gameTypeConfig[roundName].unit,
+        userStore.user
+      );
+      history.updateShoot(historyId, { match: matchFor(you), equipment: equipmentStore.activeSetupCopy() });
+    }
+
+    const profilesStore = useProfilesStore();
+    for (const archer of [0, 1] as MatchArcher[]) {
+      const profile = profilesStore.otherProfiles.find(other => sameName(other.name, archers[archer]));
+      if (archer === you || !profile) continue;
+
+      await profilesStore.addShootFor(profile.id, {
+        date,
+        score: calculateTotal(convertToValues(scores[archer], roundName)),
+        gameType: roundName,
+        scores: [...scores[archer]],
+        unit: gameTypeConfig[roundName].unit,
+        shootStatus: DEFAULT_SHOOT_STATUS,
+        match: matchFor(archer)
+      });
+    }
+
+    if (bracket.value && bracketMatchId) {
+      bracket.value = recordMatchResult(bracket.value, bracketMatchId, scores, shootOff);
+    }
+
+    match.value = null;
+    return historyId;
+  }
+
+  function abandonMatch() {
+    match.value = null;
+  }
+
+  function createBracket(archers: string[]) {
+    bracket.value = generateBracket(archers);
+  }
+
+  function clearBracket() {
+    bracket.value = null;
+  }
+
+  return {
+    match,
+    bracket,
+    result,
+    startMatch,
+    addArrow,
+    undo,
+    setClosestToCentre,
+    finishMatch,
+    abandonMatch,
+    createBracket,
+    clearBracket
+  };
+});
@@ -5,7 +5,9 @@ export const usePreferencesStore = defineStore("preferences", {
     hasSeenPrintTip: localStorage.getItem("hasSeenPrintTip") === "true",
     hasSeenHistoryTip: localStorage.getItem('hasSeenHistoryTip') === 'true',
     hasSeenRoundSelectionTip: localStorage.getItem('hasSeenRoundSelectionTip') === 'true',
-    hasSeenScoreCardTutorial: localStorage.getItem('hasSeenScoreCardTutorial') === 'true'
+    hasSeenScoreCardTutorial: localStorage.getItem('hasSeenScoreCardTutorial') === 'true',
+    // Judge past shoots by today's classification and handicap tables rather than those in force at the time
+    useCurrentTables: localStorage.getItem('useCurrentTables') === 'true'
   }),
   actions: {
     dismissPrintTip() {
@@ -24,6 +26,10 @@ export const usePreferencesStore = defineStore("preferences", {
       this.hasSeenScoreCardTutorial = true
       localStorage.setItem('hasSeenScoreCardTutorial', 'true')
     },
+    setUseCurrentTables(enabled) {
+      this.useCurrentTables = enabled
+      localStorage.setItem('useCurrentTables', String(enabled))
+    },
     // New method to reset all preferences
     resetAllTips() {
       this.hasSeenPrintTip = false
@@ -43,7 +49,8 @@ export const usePreferencesStore = defineStore("preferences", {
         hasSeenPrintTip: this.hasSeenPrintTip,
         hasSeenHistoryTip: this.hasSeenHistoryTip,
         hasSeenRoundSelectionTip: this.hasSeenRoundSelectionTip,
-        hasSeenScoreCardTutorial: this.hasSeenScoreCardTutorial
+        hasSeenScoreCardTutorial: this.hasSeenScoreCardTutorial,
+        useCurrentTables: this.useCurrentTables
       }
     },
     // New method to restore preferences from backup
@@ -66,6 +73,10 @@ export const usePreferencesStore = defineStore("preferences", {
       if (backupData.hasSeenScoreCardTutorial) {
         this.dismissScoreCardTutorial()
       }
+
+      if (backupData.useCurrentTables) {
+        this.setUseCurrentTables(true)
+      }
     }
   }
 });
@@ -0,0 +1,125 @@
+import { defineStore } from "pinia";
+import { computed } from "vue";
+import { useLocalStorage } from "@vueuse/core";
+import { DEFAULT_PROFILE_ID, moveShoot as moveShootBetween, profileStorageKey, shootForArcher, validateProfileName, type Profile } from "@/domain/profiles";
+import type { HistoryItem } from "@/domain/repositories/player_history";
+import { PERSISTENT_KEYS } from "@/domain/storage/persistent_data";
+import { activeProfileId, ACTIVE_PROFILE_STORAGE_KEY, PROFILES_STORAGE_KEY } from "@/services/activeProfile";
+import { readStoredValue, removeStoredValue, writeStoredValue } from "@/services/persistentStorage";
+import { useArrowHistoryStore } from "@/stores/arrow_history";
+import { useHistoryStore } from "@/stores/history";
+import { useNotesStore } from "@/stores/user_notes";
+import { useUserStore } from "@/stores/user";
+
+// What else each archer keeps to themselves, alongside the persistent data
+const PROFILE_SETTINGS_KEYS = [
+  "user", "goals", "goals-last-reminded", "achievement-preferences", "archery-device-id", "equipment-setups", "equipment-active"
+];
+
+export const useProfilesStore = defineStore("profiles", () => {
+  const userStore = useUserStore();
+  const saved = useLocalStorage<Profile[]>(PROFILES_STORAGE_KEY, []);
+  const activeId = activeProfileId();
+
+  // Until a second archer is added, the only one goes by the name in their settings
+  const profiles = computed<Profile[]>(() => saved.value.length > 0
+    ? saved.value
+    : [{ id: DEFAULT_PROFILE_ID, name: userStore.user.name || "Me" }]);
+  const activeProfile = computed(() => profiles.value.find(profile => profile.id === activeId) ?? profiles.value[0]);
+  const otherProfiles = computed(() => profiles.value.filter(profile => profile.id !== activeId));
+
+  function addProfile(name: string): string[] {
+    const errors = validateProfileName(name, profiles.value);
+    if (errors.length > 0) {
+      return errors;
+    }
+
+    saved.value = [...profiles.value, { id: `p${Date.now()}`, name: name.trim() }];
+    return [];
+  }
+
+  /**
+   * Remove an archer and everything they kept. The archer in use, and the first archer, stay
+   */
+  async function removeProfile(id: string) {
+    if (id === activeId || id === DEFAULT_PROFILE_ID) {
+      return;
+    }
+
+    saved.value = profiles.value.filter(profile => profile.id !== id);
+    PROFILE_SETTINGS_KEYS.forEach(key => localStorage.removeItem(profileStorageKey(key, id)));
+    await Promise.all([...PERSISTENT_KEYS, "import-snapshot"].map(key => removeStoredValue(profileStorageKey(key, id))));
+  }
+
+  /**
+   * Every store holds the archer it was opened for, so switching starts the app again
+   */
+  function switchProfile(id: string) {
+    if (id === activeId || !profiles.value.some(profile => profile.id === id)) {
+      return;
+    }
+
+    localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+    window.location.reload();
+  }
+
+  /**
+   * Give a shoot, with its notes and arrows, to another archer
+   * @returns the shoot's id in the other archer's history, null if it wasn't found
+   */
+  async function moveShoot(shootId: number | string, toId: string): Promise<number | null> {
+    const historyStore = useHistoryStore();
+    const notesStore = useNotesStore();
+    const arrowHistoryStore = useArrowHistoryStore();
+    const key = (name: string) => profileStorageKey(name, toId);
+
+    const archer = JSON.parse(localStorage.getItem(key("user")) || "{}");
+    const { from, to, movedId } = moveShootBetween(
+      { history: historyStore.history, notes: notesStore.notes, arrowHistory: arrowHistoryStore.arrowHistory },
+      {
+        history: readStoredValue(key("history"), []),
+        notes: readStoredValue(key("notes"), []),
+        arrowHistory: readStoredValue(key("arrow-history"), {})
+      },
+      shootId,
+      archer
+    );
+    if (movedId === null) {
+      return null;
+    }
+
+    // The other archer gets it before it goes from here, so a failed save loses nothing
+    await writeStoredValue(key("history"), to.history);
+    await writeStoredValue(key("notes"), to.notes);
+    await writeStoredValue(key("arrow-history"), to.arrowHistory);
+
+    historyStore.remove(shootId);
+    notesStore.importNotes({ notes: from.notes, pendingNotes: notesStore.pendingNotes });
+    arrowHistoryStore.arrowHistory = from.arrowHistory;
+    return movedId;
+  }
+
+  /**
+   * Add a shoot to another archer's history, such as their side of a match scored on this device
+   * @returns the shoot's id in their history
+   */
+  async function addShootFor(profileId: string, shoot: Omit<HistoryItem, "id">): Promise<number | string> {
+    const key = profileStorageKey("history", profileId);
+    const history = readStoredValue<HistoryItem[]>(key, []);
+    const archer = JSON.parse(localStorage.getItem(profileStorageKey("user", profileId)) || "{}");
+    const added = shootForArcher(history, shoot, archer);
+    await writeStoredValue(key, [...history, added]);
+    return added.id;
+  }
+
+  return {
+    profiles,
+    activeProfile,
+    otherProfiles,
+    addProfile,
+    removeProfile,
+    switchProfile,
+    moveShoot,
+    addShootFor
+  };
+});
@@ -17,6 +17,9 @@ export const useSearchPreferencesStore = defineStore("searchPreferences", () =>
     maxDistance: 100,
     distanceUnit: "yards",
 
+    // Hours available to shoot, null for any length of round
+    maxHours: null,
+
     // Search query
     searchQuery: "",
 
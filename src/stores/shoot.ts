@@ -6,6 +6,7 @@ import { HttpShootService } from '@/services/HttpShootService'
 import { WebSocketNotificationService } from '@/services/WebSocketNotificationService'
 import { PushNotificationManager } from '@/services/PushNotificationManager'
 import { useToast } from 'vue-toastification'
+import { tieBreakRulesForRound } from '@/domain/scoring/tie_break'
 
 interface PersistedShootState {
   shootCode: string
@@ -285,13 +286,13 @@ export const useShootStore = defineStore('shoot', () => {
   }
 
   // Join an existing shoot
-  async function joinShoot(code: string, archerName: string, roundName: string, currentScore: number = 0, arrowsShot: number = 0): Promise<boolean> {
+  async function joinShoot(code: string, archerName: string, roundName: string, currentScore: number = 0, arrowsShot: number = 0, opponentName?: string): Promise<boolean> {
     await initializeServices()
     if (!shootService) throw new Error('Shoot service not available')
 
     try {
       isLoading.value = true
-      const result = await shootService.joinShoot(code, archerName, roundName)
+      const result = await shootService.joinShoot(code, archerName, roundName, opponentName)
 
       if (result.success && result.shoot) {
         currentShoot.value = result.shoot
@@ -391,7 +392,7 @@ export const useShootStore = defineStore('shoot', () => {
     if (!shootService || !currentShoot.value) return
 
     try {
-      const result = await shootService.updateScore(currentShoot.value.code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores)
+      const result = await shootService.updateScore(currentShoot.value.code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRulesForRound(roundName, scores))
 
       if (result.success && result.shoot) {
       } else {
@@ -407,7 +408,7 @@ export const useShootStore = defineStore('shoot', () => {
     if (!shootService || !currentShoot.value) return
 
     try {
-      const result = await shootService.finishShoot(currentShoot.value.code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores)
+      const result = await shootService.finishShoot(currentShoot.value.code, archerName, totalScore, roundName, arrowsShot, currentClassification, scores, tieBreakRulesForRound(roundName, scores))
 
       if (result.success && result.shoot) {
         // Update local state immediately
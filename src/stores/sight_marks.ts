@@ -1,13 +1,22 @@
 import { defineStore } from "pinia";
-import { useLocalStorage } from "@vueuse/core";
+import { usePersistentStorage } from "@/services/persistentStorage";
+import { profileKey } from "@/services/activeProfile";
 import { SightMarksManager } from "@/domain/repositories/sight_marks_manager.js";
+import { useEquipmentStore } from "@/stores/equipment";
 
 export const useSightMarksStore = defineStore("sight_marks", () => {
-  const sightMarks = useLocalStorage("sight-marks", []);
+  const sightMarks = usePersistentStorage(profileKey("sight-marks"), []);
   const manager = new SightMarksManager(sightMarks);
+  const equipmentStore = useEquipmentStore();
 
-  function addMark(distance, unit, notches, vertical, label) {
-    manager.add(distance, unit, notches, vertical, label);
+  // Marks are taken with the setup in use unless they come with one, as restored marks do
+  function addMark(distance, unit, notches, vertical, label, equipment = activeEquipment()) {
+    manager.add(distance, unit, notches, vertical, label, equipment);
+  }
+
+  function activeEquipment() {
+    const setup = equipmentStore.activeSetup;
+    return setup ? { id: setup.id, name: setup.name } : null;
   }
 
   function updateMark(id, distance, unit, notches, vertical, label) {
@@ -55,7 +64,8 @@ export const useSightMarksStore = defineStore("sight_marks", () => {
           mark.unit,
           mark.notches,
           mark.vertical || 0,
-          mark.label || ''
+          mark.label || '',
+          mark.equipment || null
         )
       }
     })
@@ -51,7 +51,8 @@ describe("User Store with Classification Updates", () => {
       "John Doe", // name
       true, // constructiveCriticism
       false, // experimentalTargetFace
-      "#FF0000" // knockColor
+      "#FF0000", // knockColor
+      12 // numberedArrows
     );
 
     // Check if all data is stored correctly
@@ -66,6 +67,7 @@ describe("User Store with Classification Updates", () => {
     expect(userStore.user.constructiveCriticism).toBe(true);
     expect(userStore.user.experimentalTargetFace).toBe(false);
     expect(userStore.user.knockColor).toBe("#FF0000");
+    expect(userStore.user.numberedArrows).toBe(12);
   });
 
   it("should calculate default season dates based on current date", () => {
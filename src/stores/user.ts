@@ -1,12 +1,15 @@
 import { defineStore } from "pinia";
 import { useLocalStorage } from "@vueuse/core";
 import { calculateDefaultSeasonDates } from "@/domain/season_dates";
+import { profileKey } from "@/services/activeProfile";
 
 const defaultSeasons = calculateDefaultSeasonDates();
 
 export const useUserStore = defineStore("user", () => {
+  const storageKey = profileKey("user");
+
   // Migration: Check if maxYards exists in user store and migrate it
-  const userStore = localStorage.getItem("user");
+  const userStore = localStorage.getItem(storageKey);
   if (userStore) {
     try {
       const userData = JSON.parse(userStore);
@@ -23,7 +26,7 @@ export const useUserStore = defineStore("user", () => {
 
         // Remove maxYards from user data
         delete userData.maxYards;
-        localStorage.setItem("user", JSON.stringify(userData));
+        localStorage.setItem(storageKey, JSON.stringify(userData));
       }
     } catch (e) {
       console.error("Error during maxYards migration:", e);
@@ -31,7 +34,7 @@ export const useUserStore = defineStore("user", () => {
   }
 
   // First, load the raw data from localStorage to check if migration is needed
-  const rawUserData = localStorage.getItem("user");
+  const rawUserData = localStorage.getItem(storageKey);
   let initialUserData = null;
 
   if (rawUserData) {
@@ -73,7 +76,7 @@ export const useUserStore = defineStore("user", () => {
   }
 
   // Now create the state with either the migrated data or the default
-  const state = useLocalStorage("user", initialUserData || {
+  const state = useLocalStorage(storageKey, initialUserData || {
     lastBackupDate: null,
     // Default season dates calculated dynamically
     indoorSeasonStartDate: defaultSeasons.indoor,
@@ -88,7 +91,8 @@ export const useUserStore = defineStore("user", () => {
     name: "",
     constructiveCriticism: true,
     experimentalTargetFace: false,
-    knockColor: "#FF69B4"
+    knockColor: "#FF69B4",
+    numberedArrows: 0 // how many numbered shafts to tag plotted arrows with, 0 to not tag them
   });
 
   function save(
@@ -102,7 +106,8 @@ export const useUserStore = defineStore("user", () => {
     name,
     constructiveCriticism,
     experimentalTargetFace,
-    knockColor
+    knockColor,
+    numberedArrows = 0
   ) {
     state.value = {
       ageGroup,
@@ -116,6 +121,7 @@ export const useUserStore = defineStore("user", () => {
       constructiveCriticism,
       experimentalTargetFace,
       knockColor,
+      numberedArrows,
       lastBackupDate: state.value.lastBackupDate
     };
   }
@@ -1,10 +1,11 @@
 import { defineStore } from "pinia";
-import { useLocalStorage } from "@vueuse/core";
+import { usePersistentStorage } from "@/services/persistentStorage";
+import { profileKey } from "@/services/activeProfile";
 import { NewNotesManager } from "@/domain/repositories/notes_manager.js";
 
 export const useNotesStore = defineStore("notes", () => {
-  const notes = useLocalStorage("notes", []);
-  const pendingNotes = useLocalStorage("pendingNotes", []);
+  const notes = usePersistentStorage(profileKey("notes"), []);
+  const pendingNotes = usePersistentStorage(profileKey("pendingNotes"), []);
 
   const notesManager = NewNotesManager(notes, pendingNotes);
 